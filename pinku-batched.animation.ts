@@ -0,0 +1,63 @@
+// Format-neutral description of an animation, shared by the GIF and APNG modules.
+
+import { isGif, probeGif } from "./pinku-batched.gif";
+import { isApng, probeApng } from "./pinku-batched.apng";
+
+/** What happens to a frame's rectangle before the next frame is drawn. */
+export type Disposal = "none" | "background" | "previous";
+
+/** "over" composites the frame onto the canvas; "source" replaces the rectangle, alpha included. */
+export type Blend = "over" | "source";
+
+export interface AnimationFrame {
+    /** Offset of the frame's rectangle on the canvas. */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Display time in milliseconds. */
+    delay: number;
+    disposal: Disposal;
+    blend: Blend;
+    /** 8-bit RGBA pixels of the rectangle only. */
+    data: Uint8ClampedArray;
+}
+
+export interface Animation {
+    width: number;
+    height: number;
+    /** Number of times the animation plays; 0 loops forever. */
+    loopCount: number;
+    frames: AnimationFrame[];
+}
+
+export interface AnimationInfo {
+    format: "gif" | "apng";
+    width: number;
+    height: number;
+    frameCount: number;
+    /** Total duration of one play in milliseconds. */
+    duration: number;
+}
+
+/**
+ * Reads the frame count and size of an animated GIF or APNG without decoding its pixels.
+ * @param bytes - The file contents.
+ * @returns The animation info, or null if the file is not a GIF or APNG or cannot be parsed.
+ */
+export function probeAnimation(bytes: Uint8Array): AnimationInfo | null {
+    try {
+        if (isGif(bytes)) return { format: "gif", ...probeGif(bytes) };
+        if (isApng(bytes)) return { format: "apng", ...probeApng(bytes) };
+    } catch {
+        // A damaged file is left to the regular decoder, which reports the error
+    }
+    return null;
+}
+
+/**
+ * Estimates the memory the decoded frames need while an animation is filtered.
+ * @param info - The animation info from probeAnimation.
+ * @returns The size in bytes.
+ */
+export const estimateDecodedSize = (info: AnimationInfo) => info.width * info.height * 4 * info.frameCount;
@@ -0,0 +1,235 @@
+// Animated PNG reader and writer. Frames are split into standalone PNGs for decoding, so no inflate is
+// needed here, and written with the CompressionStream API, which browsers, workers and Bun all provide.
+
+import { crc32 } from "./pinku-batched.zip";
+import type { Animation, AnimationFrame, Blend, Disposal } from "./pinku-batched.animation";
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const DISPOSALS: Disposal[] = ["none", "background", "previous"];
+const BLENDS: Blend[] = ["source", "over"];
+
+// Chunks that describe the whole image and must be repeated in every standalone frame
+const SHARED_CHUNKS = new Set(["PLTE", "tRNS", "gAMA", "cHRM", "sRGB", "iCCP", "sBIT"]);
+
+/** A frame of an APNG, still encoded as a standalone PNG file of the frame's rectangle. */
+export type ApngFrame = Omit<AnimationFrame, "data"> & { png: Uint8Array<ArrayBuffer> };
+
+interface Chunk {
+    type: string;
+    body: Uint8Array;
+}
+
+function readChunks(bytes: Uint8Array): Chunk[] {
+    if (!SIGNATURE.every((byte, i) => bytes[i] === byte)) throw new Error("Not a PNG file");
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: Chunk[] = [];
+    for (let offset = 8; offset + 8 <= bytes.length;) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        chunks.push({ type, body: bytes.subarray(offset + 8, offset + 8 + length) });
+        offset += 12 + length;
+        if (type === "IEND") break;
+    }
+    return chunks;
+}
+
+function writeChunk(type: string, body: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(body.length + 12);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, body.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(body, 8);
+    view.setUint32(8 + body.length, crc32(chunk.subarray(4, 8 + body.length)));
+    return chunk;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    parts.reduce((position, part) => (output.set(part, position), position + part.length), 0);
+    return output;
+}
+
+const bodyView = (body: Uint8Array) => new DataView(body.buffer, body.byteOffset, body.byteLength);
+
+/**
+ * Checks for an animated PNG, which announces itself with an acTL chunk before the image data.
+ * @param bytes - The file contents.
+ * @returns True for APNG files; false for still PNGs and other formats.
+ */
+export function isApng(bytes: Uint8Array): boolean {
+    if (!SIGNATURE.every((byte, i) => bytes[i] === byte)) return false;
+    for (const { type } of readChunks(bytes)) {
+        if (type === "acTL") return true;
+        if (type === "IDAT") return false;
+    }
+    return false;
+}
+
+/**
+ * Splits an APNG into its frames, each re-wrapped as a standalone PNG that any decoder can read.
+ * A default image that is not part of the animation is skipped.
+ * @param bytes - The APNG file contents.
+ * @returns The canvas size, loop count and the encoded frames.
+ */
+export function readApng(bytes: Uint8Array): { width: number; height: number; loopCount: number; frames: ApngFrame[] } {
+    const chunks = readChunks(bytes);
+    const header = chunks.find(chunk => chunk.type === "IHDR");
+    const control = chunks.find(chunk => chunk.type === "acTL");
+    if (!header || !control) throw new Error("Not an animated PNG");
+    const shared = chunks.filter(chunk => SHARED_CHUNKS.has(chunk.type));
+
+    const frames: ApngFrame[] = [];
+    let current: (Omit<ApngFrame, "png"> & { data: Uint8Array[] }) | null = null;
+    const finishFrame = () => {
+        if (!current || current.data.length === 0) return;
+        const { data, ...frame } = current;
+        const ihdr = header.body.slice();
+        bodyView(ihdr).setUint32(0, frame.width);
+        bodyView(ihdr).setUint32(4, frame.height);
+        const png = concat([
+            new Uint8Array(SIGNATURE),
+            writeChunk("IHDR", ihdr),
+            ...shared.map(chunk => writeChunk(chunk.type, chunk.body)),
+            ...data.map(body => writeChunk("IDAT", body)),
+            writeChunk("IEND", new Uint8Array(0)),
+        ]);
+        frames.push({ ...frame, png });
+    };
+
+    for (const { type, body } of chunks) {
+        if (type === "fcTL") {
+            finishFrame();
+            const view = bodyView(body);
+            const denominator = view.getUint16(22) || 100;
+            current = {
+                width: view.getUint32(4),
+                height: view.getUint32(8),
+                x: view.getUint32(12),
+                y: view.getUint32(16),
+                delay: Math.round((view.getUint16(20) / denominator) * 1000),
+                disposal: DISPOSALS[body[24]] ?? "none",
+                blend: BLENDS[body[25]] ?? "source",
+                data: [],
+            };
+        } else if (type === "IDAT") {
+            // IDAT only belongs to the animation when an fcTL came before it
+            current?.data.push(body);
+        } else if (type === "fdAT") {
+            current?.data.push(body.subarray(4));
+        }
+    }
+    finishFrame();
+
+    if (frames.length === 0) throw new Error("APNG has no frames");
+    const headerView = bodyView(header.body);
+    return {
+        width: headerView.getUint32(0),
+        height: headerView.getUint32(4),
+        loopCount: bodyView(control.body).getUint32(4),
+        frames,
+    };
+}
+
+/**
+ * Reads the frame count and timing of an APNG from its control chunks.
+ * @param bytes - The APNG file contents.
+ * @returns The canvas size, frame count and total duration in milliseconds.
+ */
+export function probeApng(bytes: Uint8Array) {
+    const chunks = readChunks(bytes);
+    const header = chunks.find(chunk => chunk.type === "IHDR");
+    if (!header) throw new Error("PNG is missing its IHDR chunk");
+    const controls = chunks.filter(chunk => chunk.type === "fcTL").map(chunk => bodyView(chunk.body));
+    return {
+        width: bodyView(header.body).getUint32(0),
+        height: bodyView(header.body).getUint32(4),
+        frameCount: controls.length,
+        duration: controls.reduce((sum, view) => sum + Math.round((view.getUint16(20) / (view.getUint16(22) || 100)) * 1000), 0),
+    };
+}
+
+async function deflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Paeth-filters every row, which suits both photos and the flat areas of dithered output
+function filterRows({ width, height, data }: Pick<AnimationFrame, "width" | "height" | "data">): Uint8Array<ArrayBuffer> {
+    const stride = width * 4;
+    const filtered = new Uint8Array((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+        const row = y * stride;
+        const target = y * (stride + 1);
+        filtered[target] = 4;
+        for (let x = 0; x < stride; x++) {
+            const a = x >= 4 ? data[row + x - 4] : 0;
+            const b = y > 0 ? data[row + x - stride] : 0;
+            const c = y > 0 && x >= 4 ? data[row + x - stride - 4] : 0;
+            const p = a + b - c;
+            const pa = Math.abs(p - a);
+            const pb = Math.abs(p - b);
+            const pc = Math.abs(p - c);
+            filtered[target + 1 + x] = data[row + x] - (pa <= pb && pa <= pc ? a : pb <= pc ? b : c);
+        }
+    }
+    return filtered;
+}
+
+// The first frame is also the default image, so it has to cover the whole canvas from the top left
+function padToCanvas(frame: AnimationFrame, width: number, height: number): AnimationFrame {
+    if (frame.x === 0 && frame.y === 0 && frame.width === width && frame.height === height) return frame;
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < frame.height && frame.y + y < height; y++) {
+        const row = frame.data.subarray(y * frame.width * 4, (y + 1) * frame.width * 4);
+        data.set(row.subarray(0, Math.max(0, width - frame.x) * 4), ((frame.y + y) * width + frame.x) * 4);
+    }
+    return { ...frame, x: 0, y: 0, width, height, data };
+}
+
+/**
+ * Encodes an animation as an 8-bit RGBA APNG.
+ * @param animation - The frames to encode.
+ * @returns The APNG file contents.
+ */
+export async function encodeApng(animation: Animation): Promise<Uint8Array<ArrayBuffer>> {
+    const { width, height, loopCount } = animation;
+    const ihdr = new Uint8Array(13);
+    bodyView(ihdr).setUint32(0, width);
+    bodyView(ihdr).setUint32(4, height);
+    ihdr.set([8, 6, 0, 0, 0], 8);
+
+    const actl = new Uint8Array(8);
+    bodyView(actl).setUint32(0, animation.frames.length);
+    bodyView(actl).setUint32(4, loopCount);
+
+    const parts = [new Uint8Array(SIGNATURE), writeChunk("IHDR", ihdr), writeChunk("acTL", actl)];
+    let sequence = 0;
+    for (const [index, source] of animation.frames.entries()) {
+        const frame = index === 0 ? padToCanvas(source, width, height) : source;
+        const fctl = new Uint8Array(26);
+        const view = bodyView(fctl);
+        view.setUint32(0, sequence++);
+        view.setUint32(4, frame.width);
+        view.setUint32(8, frame.height);
+        view.setUint32(12, frame.x);
+        view.setUint32(16, frame.y);
+        view.setUint16(20, Math.min(0xffff, Math.round(frame.delay)));
+        view.setUint16(22, 1000);
+        fctl[24] = DISPOSALS.indexOf(frame.disposal);
+        fctl[25] = BLENDS.indexOf(frame.blend);
+        parts.push(writeChunk("fcTL", fctl));
+
+        const compressed = await deflate(filterRows(frame));
+        if (index === 0) {
+            parts.push(writeChunk("IDAT", compressed));
+        } else {
+            const fdat = new Uint8Array(compressed.length + 4);
+            bodyView(fdat).setUint32(0, sequence++);
+            fdat.set(compressed, 4);
+            parts.push(writeChunk("fdAT", fdat));
+        }
+    }
+    parts.push(writeChunk("IEND", new Uint8Array(0)));
+    return concat(parts);
+}
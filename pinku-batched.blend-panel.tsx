@@ -0,0 +1,70 @@
+import { BLEND_MODES, type BlendMode, type BlendSettings } from "./pinku-batched.blend";
+import { parseColor, toHex } from "./pinku-batched.palettes";
+
+export interface BlendPanelProps {
+    settings: BlendSettings;
+    onChange: (settings: BlendSettings) => void;
+}
+
+export default function BlendPanel({ settings, onChange }: BlendPanelProps) {
+    const update = (changes: Partial<BlendSettings>) => onChange({ ...settings, ...changes });
+
+    return (
+        <div className="bg-black/20 rounded-xl p-4 mb-4 text-sm">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <label className="flex flex-col gap-1.5">
+                    <span className="flex justify-between text-[#a4d7ba]">
+                        <span>Strength</span>
+                        <span className="tabular-nums text-[#ececec]">{settings.strength}%</span>
+                    </span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={settings.strength}
+                        onChange={(e) => update({ strength: Number(e.target.value) })}
+                        className="accent-[#27e47a] mt-2"
+                    />
+                </label>
+                <label className="flex flex-col gap-1.5">
+                    <span className="text-[#a4d7ba]">Blend mode</span>
+                    <select
+                        value={settings.mode}
+                        onChange={(e) => update({ mode: e.target.value as BlendMode })}
+                        className="bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30"
+                    >
+                        {BLEND_MODES.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <div className="flex flex-col gap-1.5">
+                    <span className="text-[#a4d7ba]">Transparency</span>
+                    <div className="flex gap-2">
+                        <select
+                            value={settings.alpha}
+                            onChange={(e) => update({ alpha: e.target.value as BlendSettings["alpha"] })}
+                            className="flex-1 bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30"
+                            aria-label="Transparency"
+                        >
+                            <option value="keep">Keep alpha</option>
+                            <option value="flatten">Flatten onto color</option>
+                        </select>
+                        <input
+                            type="color"
+                            value={toHex(settings.background)}
+                            disabled={settings.alpha !== "flatten"}
+                            onChange={(e) => update({ background: parseColor(e.target.value) ?? settings.background })}
+                            className={`w-10 h-10 rounded cursor-pointer bg-transparent ${settings.alpha !== "flatten" ? 'opacity-50' : ''}`}
+                            aria-label="Background color"
+                        />
+                    </div>
+                </div>
+            </div>
+            <p className="text-xs mt-3 text-[#a4d7ba]/80">
+                Lower strength mixes the original back in. Flattening fills transparent areas before mapping, so they take the gradient color;
+                animated GIF and APNG output keeps its transparency, since their frames rely on it.
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,97 @@
+// Compositing of the gradient map over the source pixels: strength, blend modes and transparency.
+
+import type { RGB } from "./pinku-batched.palettes";
+
+export type BlendMode = "normal" | "multiply" | "screen" | "overlay" | "color";
+
+export interface BlendSettings {
+    /** How much of the blended result replaces the source, from 0 to 100. */
+    strength: number;
+    mode: BlendMode;
+    /** "keep" leaves alpha untouched; "flatten" composites onto `background` before mapping. */
+    alpha: "keep" | "flatten";
+    background: RGB;
+}
+
+export const DEFAULT_BLEND_SETTINGS: BlendSettings = {
+    strength: 100,
+    mode: "normal",
+    alpha: "keep",
+    background: [255, 255, 255],
+};
+
+export const BLEND_MODES: { value: BlendMode; label: string }[] = [
+    { value: "normal", label: "Normal" },
+    { value: "multiply", label: "Multiply" },
+    { value: "screen", label: "Screen" },
+    { value: "overlay", label: "Overlay" },
+    { value: "color", label: "Color" },
+];
+
+// Separable modes as (source, map) → result, following the W3C compositing spec with the map on top
+const SEPARABLE: Record<Exclude<BlendMode, "color">, (base: number, top: number) => number> = {
+    normal: (_, top) => top,
+    multiply: (base, top) => (base * top) / 255,
+    screen: (base, top) => base + top - (base * top) / 255,
+    overlay: (base, top) => base < 128 ? (2 * base * top) / 255 : 255 - (2 * (255 - base) * (255 - top)) / 255,
+};
+
+/**
+ * Checks whether the settings leave the gradient map as it is, so the compositing pass can be skipped.
+ * @param settings - The blend settings.
+ * @returns True for full strength in normal mode.
+ */
+export const isPlainBlend = (settings: BlendSettings) => settings.strength >= 100 && settings.mode === "normal";
+
+/**
+ * Composites pixels onto a solid background and makes them opaque.
+ * @param data - RGBA pixels, modified in place.
+ * @param background - The background color.
+ */
+export function flattenAlpha(data: Uint8ClampedArray, background: RGB) {
+    for (let i = 0; i < data.length; i += 4) {
+        const alpha = data[i + 3] / 255;
+        if (alpha === 1) continue;
+        data[i] = data[i] * alpha + background[0] * (1 - alpha);
+        data[i + 1] = data[i + 1] * alpha + background[1] * (1 - alpha);
+        data[i + 2] = data[i + 2] * alpha + background[2] * (1 - alpha);
+        data[i + 3] = 255;
+    }
+}
+
+const luminosity = (r: number, g: number, b: number) => 0.3 * r + 0.59 * g + 0.11 * b;
+
+// The "color" mode: hue and saturation of the map with the luminosity of the source, clipped into gamut
+function setLuminosity(r: number, g: number, b: number, target: number): RGB {
+    const shift = target - luminosity(r, g, b);
+    r += shift;
+    g += shift;
+    b += shift;
+    const l = luminosity(r, g, b);
+    const min = Math.min(r, g, b);
+    const max = Math.max(r, g, b);
+    const scale = min < 0 ? l / (l - min) : max > 255 ? (255 - l) / (max - l) : 1;
+    return [l + (r - l) * scale, l + (g - l) * scale, l + (b - l) * scale];
+}
+
+/**
+ * Composites gradient-mapped pixels over their source with the chosen mode and strength. Alpha is left as it is.
+ * @param mapped - The gradient-mapped pixels, modified in place.
+ * @param source - The same pixels before mapping.
+ * @param settings - The blend settings.
+ */
+export function blendPixels(mapped: Uint8ClampedArray, source: Uint8ClampedArray, settings: BlendSettings) {
+    const amount = Math.min(100, Math.max(0, settings.strength)) / 100;
+    const blend = settings.mode === "color" ? null : SEPARABLE[settings.mode];
+    for (let i = 0; i < mapped.length; i += 4) {
+        const r = source[i];
+        const g = source[i + 1];
+        const b = source[i + 2];
+        const [blendR, blendG, blendB] = blend
+            ? [blend(r, mapped[i]), blend(g, mapped[i + 1]), blend(b, mapped[i + 2])]
+            : setLuminosity(mapped[i], mapped[i + 1], mapped[i + 2], luminosity(r, g, b));
+        mapped[i] = r + (blendR - r) * amount;
+        mapped[i + 1] = g + (blendG - g) * amount;
+        mapped[i + 2] = b + (blendB - b) * amount;
+    }
+}
@@ -140,6 +140,10 @@ const entrypoints = [...new Bun.Glob("**.html").scanSync(import.meta.dir)]
   .filter(dir => !dir.includes("node_modules"));
 console.log(`📄 Found ${entrypoints.length} HTML ${entrypoints.length === 1 ? "file" : "files"} to process\n`);
 
+// Web Workers are not followed from `new Worker(new URL(...))`, so the worker gets its own entrypoint
+// and is emitted next to the app chunk as pinku-batched.worker.js
+entrypoints.push(path.join(import.meta.dir, "pinku-batched.worker.ts"));
+
 // Build all the HTML files
 const result = await build({
   entrypoints,
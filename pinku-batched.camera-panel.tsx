@@ -0,0 +1,237 @@
+import { useEffect, useRef, useState } from "react";
+import { Aperture, Circle, Download, Square, XCircle } from "lucide-react";
+import { drawVideoFrame, LIVE_MAX_DIMENSION, MAX_CLIP_SECONDS, openStream, pickRecordingType, type CameraSource, type CameraStream } from "./pinku-batched.camera";
+import type { ColorStop } from "./pinku-batched.palettes";
+import type { ToneSettings } from "./pinku-batched.tone";
+import type { DitherSettings } from "./pinku-batched.dither";
+import type { BlendSettings } from "./pinku-batched.blend";
+import type { CubeLut } from "./pinku-batched.cube";
+
+const SOURCE_OPTIONS: { value: CameraSource; label: string }[] = [
+    { value: "camera", label: "Camera" },
+    { value: "test-pattern", label: "Test pattern" },
+];
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+    new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Canvas could not be encoded")), type, quality);
+    });
+
+export interface CameraPanelProps {
+    /** Effective gradient stops, already reversed if needed. */
+    stops: ColorStop[];
+    tone: ToneSettings;
+    dither: DitherSettings;
+    blend: BlendSettings;
+    cube: CubeLut | null;
+    /** MIME type and quality for snapshots, from the export settings. */
+    outputType: string;
+    quality: number;
+    /** Receives the unfiltered frame and its filtered counterpart. */
+    onSnapshot: (original: File, filtered: Blob) => void;
+    onClose: () => void;
+}
+
+export default function CameraPanel({ stops, tone, dither, blend, cube, outputType, quality, onSnapshot, onClose }: CameraPanelProps) {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const recorderRef = useRef<MediaRecorder | null>(null);
+    // The draw loop reads the latest settings without restarting the stream
+    const optionsRef = useRef({ stops, tone, dither, blend, cube });
+    optionsRef.current = { stops, tone, dither, blend, cube };
+
+    // ?camera=test-pattern starts on the synthetic source, for testing without a camera
+    const [source, setSource] = useState<CameraSource>(() =>
+        new URLSearchParams(window.location.search).get("camera") === "test-pattern" ? "test-pattern" : "camera");
+    const [error, setError] = useState<string | null>(null);
+    const [isLive, setIsLive] = useState<boolean>(false);
+    const [recordingSeconds, setRecordingSeconds] = useState<number | null>(null);
+    const [clip, setClip] = useState<{ url: string; type: string } | null>(null);
+    const recordingType = pickRecordingType();
+
+    // --- Stream and draw loop ---
+    useEffect(() => {
+        let cancelled = false;
+        let camera: CameraStream | null = null;
+        let frameRequest = 0;
+        setError(null);
+        setIsLive(false);
+
+        const draw = () => {
+            const video = videoRef.current;
+            const canvas = canvasRef.current;
+            if (video && canvas && drawVideoFrame(video, canvas, optionsRef.current, LIVE_MAX_DIMENSION)) setIsLive(true);
+            frameRequest = requestAnimationFrame(draw);
+        };
+
+        openStream(source)
+            .then(async opened => {
+                if (cancelled) return opened.stop();
+                camera = opened;
+                const video = videoRef.current!;
+                video.srcObject = opened.stream;
+                await video.play();
+                frameRequest = requestAnimationFrame(draw);
+            })
+            .catch(reason => {
+                if (!cancelled) setError(reason instanceof Error ? reason.message : String(reason));
+            });
+
+        return () => {
+            cancelled = true;
+            cancelAnimationFrame(frameRequest);
+            stopRecording();
+            camera?.stop();
+        };
+    }, [source]);
+
+    useEffect(() => {
+        return () => {
+            if (clip) URL.revokeObjectURL(clip.url);
+        };
+    }, [clip]);
+
+    // --- Snapshot and recording ---
+    const handleSnapshot = async () => {
+        const video = videoRef.current;
+        if (!video) return;
+        const raw = document.createElement("canvas");
+        const filtered = document.createElement("canvas");
+        if (!drawVideoFrame(video, raw, null) || !drawVideoFrame(video, filtered, optionsRef.current)) return;
+        try {
+            const [originalBlob, filteredBlob] = await Promise.all([
+                canvasToBlob(raw, "image/png"),
+                canvasToBlob(filtered, outputType, quality),
+            ]);
+            const name = `${source === "camera" ? "camera" : "test-pattern"}-${new Date().toISOString().replace(/[:.]/g, "-")}.png`;
+            onSnapshot(new File([originalBlob], name, { type: "image/png" }), filteredBlob);
+        } catch (reason) {
+            console.error("Failed to take a snapshot:", reason);
+        }
+    };
+
+    const startRecording = () => {
+        const canvas = canvasRef.current;
+        if (!canvas || !recordingType) return;
+        const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: recordingType });
+        const chunks: Blob[] = [];
+        const startedAt = Date.now();
+        const timer = setInterval(() => {
+            const seconds = Math.floor((Date.now() - startedAt) / 1000);
+            setRecordingSeconds(seconds);
+            if (seconds >= MAX_CLIP_SECONDS && recorder.state === "recording") recorder.stop();
+        }, 250);
+
+        recorder.ondataavailable = (event) => {
+            if (event.data.size > 0) chunks.push(event.data);
+        };
+        recorder.onstop = () => {
+            clearInterval(timer);
+            recorder.stream.getTracks().forEach(track => track.stop());
+            recorderRef.current = null;
+            setRecordingSeconds(null);
+            const type = recordingType.split(";")[0];
+            if (chunks.length > 0) setClip({ url: URL.createObjectURL(new Blob(chunks, { type })), type });
+        };
+
+        recorderRef.current = recorder;
+        setClip(null);
+        setRecordingSeconds(0);
+        recorder.start(1000);
+    };
+
+    function stopRecording() {
+        if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+    }
+
+    const handleDownloadClip = () => {
+        if (!clip) return;
+        const a = document.createElement("a");
+        a.href = clip.url;
+        a.download = `pinku_clip_${Date.now()}.${clip.type === "video/mp4" ? "mp4" : "webm"}`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+    };
+
+    return (
+        <div className="bg-black/20 rounded-xl p-4 mb-4 grid grid-cols-1 md:grid-cols-[1fr_16rem] gap-4">
+            <div className="relative aspect-video bg-black/30 rounded-lg flex items-center justify-center overflow-hidden">
+                <video ref={videoRef} className="hidden" muted playsInline />
+                <canvas ref={canvasRef} className={`max-w-full max-h-full object-contain ${isLive ? '' : 'hidden'}`} />
+                {!isLive && !error && (
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[#27e47a]"></div>
+                )}
+                {error && <p className="text-sm text-red-300 px-4 text-center">{error}</p>}
+                {recordingSeconds !== null && (
+                    <span className="absolute top-2 left-2 flex items-center gap-1.5 bg-red-500/80 text-white text-xs rounded px-2 py-1 tabular-nums">
+                        <Circle size={8} fill="currentColor" />
+                        {recordingSeconds}s / {MAX_CLIP_SECONDS}s
+                    </span>
+                )}
+            </div>
+
+            <div className="flex flex-col gap-3 text-sm">
+                <label className="flex flex-col gap-1.5">
+                    <span className="text-[#a4d7ba]">Source</span>
+                    <select
+                        value={source}
+                        onChange={(e) => setSource(e.target.value as CameraSource)}
+                        disabled={recordingSeconds !== null}
+                        className="bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30"
+                    >
+                        {SOURCE_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <button
+                    onClick={handleSnapshot}
+                    disabled={!isLive}
+                    className="flex items-center justify-center gap-2 bg-[#27e47a] hover:bg-[#22c56e] text-[#010c05] px-3 py-2 rounded-lg font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <Aperture size={16} />
+                    Take Snapshot
+                </button>
+                {recordingSeconds === null ? (
+                    <button
+                        onClick={startRecording}
+                        disabled={!isLive || !recordingType}
+                        title={recordingType ? `Records up to ${MAX_CLIP_SECONDS} seconds of the filtered view` : "This browser cannot record video"}
+                        className="flex items-center justify-center gap-2 bg-[#1e5034] hover:bg-[#2a6f47] px-3 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Circle size={16} className="text-red-400" fill="currentColor" />
+                        Record Clip
+                    </button>
+                ) : (
+                    <button
+                        onClick={stopRecording}
+                        className="flex items-center justify-center gap-2 bg-red-500/70 hover:bg-red-500 px-3 py-2 rounded-lg transition-colors"
+                    >
+                        <Square size={16} />
+                        Stop Recording
+                    </button>
+                )}
+                {clip && (
+                    <div className="space-y-2">
+                        <video src={clip.url} controls loop className="w-full rounded-md bg-black/30" />
+                        <button
+                            onClick={handleDownloadClip}
+                            className="w-full flex items-center justify-center gap-1.5 bg-white/10 hover:bg-white/20 text-xs py-2 rounded-md transition-colors"
+                        >
+                            <Download size={14} />
+                            Download Clip
+                        </button>
+                    </div>
+                )}
+                <button
+                    onClick={onClose}
+                    className="mt-auto flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+                >
+                    <XCircle size={16} />
+                    Close Camera
+                </button>
+            </div>
+        </div>
+    );
+}
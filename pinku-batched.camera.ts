@@ -0,0 +1,141 @@
+// Camera and test-pattern streams for the live camera mode, plus the per-frame filter pass.
+
+import { applyFilterOptions, type FilterOptions } from "./pinku-batched.process";
+
+export type CameraSource = "camera" | "test-pattern";
+
+export interface CameraStream {
+    stream: MediaStream;
+    /** Stops every track and any drawing loop behind the stream. */
+    stop: () => void;
+}
+
+/** Longest side of the live view; snapshots are taken at the full stream resolution. */
+export const LIVE_MAX_DIMENSION = 640;
+
+/** Clips stop recording on their own after this many seconds. */
+export const MAX_CLIP_SECONDS = 10;
+
+const RECORDING_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm", "video/mp4"];
+
+const stopTracks = (stream: MediaStream) => stream.getTracks().forEach(track => track.stop());
+
+/**
+ * Asks for the user's camera.
+ * @returns The camera stream.
+ * @throws Error with a readable message if the browser has no camera API or access is denied.
+ */
+export async function openCameraStream(): Promise<CameraStream> {
+    if (!navigator.mediaDevices?.getUserMedia) {
+        throw new Error("This browser cannot access a camera; camera mode needs HTTPS or localhost");
+    }
+    try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+            video: { width: { ideal: 1280 }, height: { ideal: 720 }, facingMode: "user" },
+            audio: false,
+        });
+        return { stream, stop: () => stopTracks(stream) };
+    } catch (error) {
+        if (error instanceof DOMException && error.name === "NotAllowedError") throw new Error("Camera access was denied");
+        if (error instanceof DOMException && error.name === "NotFoundError") throw new Error("No camera was found");
+        throw error;
+    }
+}
+
+/**
+ * Creates a synthetic stream from an animated canvas, so camera mode can be used and tested without a camera.
+ * It shows a moving gray ramp and color bars, which exercise the whole gradient map.
+ * @param width - The stream width.
+ * @param height - The stream height.
+ * @param fps - The capture frame rate.
+ * @returns The canvas stream.
+ */
+export function createTestPatternStream(width = 640, height = 480, fps = 30): CameraStream {
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not get a 2D canvas context");
+
+    const colors = ["#ffffff", "#ffff00", "#00ffff", "#00ff00", "#ff00ff", "#ff0000", "#0000ff", "#000000"];
+    let frame = 0;
+    const draw = () => {
+        const shift = (frame * 2) % width;
+        const ramp = ctx.createLinearGradient(-shift, 0, width * 2 - shift, 0);
+        ramp.addColorStop(0, "#000000");
+        ramp.addColorStop(0.5, "#ffffff");
+        ramp.addColorStop(1, "#000000");
+        ctx.fillStyle = ramp;
+        ctx.fillRect(0, 0, width, height / 2);
+
+        colors.forEach((color, i) => {
+            ctx.fillStyle = color;
+            ctx.fillRect((i * width) / colors.length, height / 2, width / colors.length + 1, height / 2);
+        });
+
+        ctx.fillStyle = "#808080";
+        ctx.beginPath();
+        ctx.arc(width / 2 + Math.cos(frame / 30) * width / 4, height / 2 + Math.sin(frame / 30) * height / 4, height / 8, 0, Math.PI * 2);
+        ctx.fill();
+        frame++;
+    };
+
+    draw();
+    // A timer rather than requestAnimationFrame keeps the stream running in background tabs
+    const timer = setInterval(draw, 1000 / fps);
+    const stream = canvas.captureStream(fps);
+    return {
+        stream,
+        stop: () => {
+            clearInterval(timer);
+            stopTracks(stream);
+        },
+    };
+}
+
+/**
+ * Opens the requested source.
+ * @param source - The real camera or the synthetic test pattern.
+ * @returns The stream.
+ */
+export const openStream = (source: CameraSource): Promise<CameraStream> =>
+    source === "camera" ? openCameraStream() : Promise.resolve(createTestPatternStream());
+
+/**
+ * Picks a container and codec the browser can record a canvas stream with.
+ * @returns The MIME type, or null if MediaRecorder is unavailable or supports none of them.
+ */
+export function pickRecordingType(): string | null {
+    if (typeof MediaRecorder === "undefined") return null;
+    return RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+/**
+ * Draws the current video frame into a canvas, optionally scaled down, and runs the filter over it.
+ * @param video - The playing video element.
+ * @param canvas - The canvas to draw into; it is resized to the frame.
+ * @param options - The filter settings, or null to draw the unfiltered frame.
+ * @param maxDimension - The longest side of the result; frames are never scaled up.
+ * @returns False if the video has no frame to draw yet.
+ */
+export function drawVideoFrame(
+    video: HTMLVideoElement,
+    canvas: HTMLCanvasElement,
+    options: Pick<FilterOptions, "stops" | "tone" | "dither" | "blend" | "cube"> | null,
+    maxDimension = Infinity,
+): boolean {
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return false;
+    const scale = Math.min(1, maxDimension / Math.max(video.videoWidth, video.videoHeight));
+    const width = Math.max(1, Math.round(video.videoWidth * scale));
+    const height = Math.max(1, Math.round(video.videoHeight * scale));
+    if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+    }
+
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not get a 2D canvas context");
+    ctx.drawImage(video, 0, 0, width, height);
+    if (options) ctx.putImageData(applyFilterOptions(ctx.getImageData(0, 0, width, height), options).imageData, 0, 0);
+    return true;
+}
@@ -0,0 +1,196 @@
+#!/usr/bin/env bun
+import { existsSync, statSync } from "fs";
+import { mkdir } from "fs/promises";
+import path from "path";
+import { BUILT_IN_PALETTES } from "./pinku-batched.palettes";
+import { DEFAULT_EXPORT_SETTINGS } from "./pinku-batched.export";
+import { filterImageBytes, headlessOutputName, resolveHeadlessOptions, type HeadlessOptions, type HeadlessParams } from "./pinku-batched.headless";
+
+const HELP = `
+🎨 pinku-batched CLI
+
+Usage: bun pinku-batched.cli.ts <input...> [options]
+
+Inputs can be directories (searched recursively), single files or glob patterns such as "photos/**/*.jpg".
+PNG and baseline JPEG are supported.
+
+Options:
+  --out <dir>              Output directory (default: "pinku-output")
+  --palette <palette>      Built-in palette id or name, or comma-separated colors
+                           from shadow to highlight (default: "pinku")
+  --reverse                Swap the shadow and highlight ends of the palette
+  --format <format>        Output format: png|jpeg|original (default: "png")
+  --quality <1-100>        JPEG quality (default: 92)
+  --name <template>        File name template with {name} {index} {palette} {date}
+                           (default: "${DEFAULT_EXPORT_SETTINGS.nameTemplate}")
+  --help, -h               Show this help message
+
+Built-in palettes: ${BUILT_IN_PALETTES.map(palette => palette.id).join(", ")}
+
+Example:
+  bun pinku-batched.cli.ts ./photos --palette "#163f27,#f99fd2" --reverse --format=jpeg --out=./pinku
+`;
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g)$/i;
+
+interface CliOptions {
+  inputs: string[];
+  out: string;
+  params: HeadlessParams;
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { inputs: [], out: "pinku-output", params: {} };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      options.inputs.push(arg);
+      continue;
+    }
+    if (arg === "--reverse") {
+      options.params.reverse = true;
+      continue;
+    }
+
+    // Handle --key=value or --key value
+    const [key, inlineValue] = arg.slice(2).split("=", 2);
+    const value = inlineValue ?? args[++i];
+    if (value === undefined) throw new Error(`Missing value for --${key}`);
+
+    switch (key) {
+      case "out": options.out = value; break;
+      case "palette": options.params.palette = value; break;
+      case "name": options.params.name = value; break;
+      case "format": options.params.format = value; break;
+      case "quality": options.params.quality = Number(value); break;
+      default:
+        throw new Error(`Unknown option --${key}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Expands the inputs into image files and the path each one should keep below the output directory.
+ * Files inside the output directory are skipped, so earlier results are not filtered again.
+ * @param inputs - Directories, files or glob patterns.
+ * @param outdir - The resolved output directory.
+ * @returns The matched files, sorted and de-duplicated.
+ */
+function collectInputs(inputs: string[], outdir: string): { file: string; relativePath: string }[] {
+  const found = new Map<string, string>();
+  const isInOutput = (file: string) => {
+    const relative = path.relative(outdir, file);
+    return !path.isAbsolute(relative) && relative.split(path.sep)[0] !== "..";
+  };
+  const add = (file: string, root: string) => {
+    if (IMAGE_EXTENSIONS.test(file) && !found.has(file) && !isInOutput(file)) found.set(file, path.relative(root, file).split(path.sep).join("/"));
+  };
+
+  for (const input of inputs) {
+    if (existsSync(input) && statSync(input).isDirectory()) {
+      const root = path.resolve(input);
+      for (const file of new Bun.Glob("**/*").scanSync({ cwd: root, onlyFiles: true })) add(path.join(root, file), root);
+    } else if (existsSync(input)) {
+      const file = path.resolve(input);
+      add(file, path.dirname(file));
+    } else {
+      // Keep the folders below the glob's static prefix, e.g. "photos/**/*.jpg" keeps what is under photos/
+      const segments = input.split("/");
+      const firstPattern = segments.findIndex(segment => /[*?[{]/.test(segment));
+      const root = path.resolve(segments.slice(0, Math.max(0, firstPattern)).join("/") || ".");
+      for (const file of new Bun.Glob(input).scanSync({ cwd: process.cwd(), onlyFiles: true })) add(path.resolve(file), root);
+    }
+  }
+  return [...found].map(([file, relativePath]) => ({ file, relativePath })).sort((a, b) => a.file.localeCompare(b.file));
+}
+
+// Helper function to format file sizes
+const formatFileSize = (bytes: number): string => {
+  const units = ["B", "KB", "MB", "GB"];
+  let size = bytes;
+  let unitIndex = 0;
+
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024;
+    unitIndex++;
+  }
+
+  return `${size.toFixed(2)} ${units[unitIndex]}`;
+};
+
+if (process.argv.includes("--help") || process.argv.includes("-h")) {
+  console.log(HELP);
+  process.exit(0);
+}
+
+// Parses the arguments and resolves the filter settings, or explains what is wrong and exits
+function parseCommandLine(args: string[]): { options: CliOptions; filterOptions: HeadlessOptions } {
+  try {
+    const options = parseArgs(args);
+    return { options, filterOptions: resolveHeadlessOptions(options.params) };
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}\n\nRun with --help for usage.`);
+    process.exit(1);
+  }
+}
+
+const { options, filterOptions } = parseCommandLine(process.argv.slice(2));
+
+const outdir = path.resolve(options.out);
+const files = collectInputs(options.inputs, outdir);
+if (files.length === 0) {
+  console.error("❌ No PNG or JPEG files matched the inputs.\n\nRun with --help for usage.");
+  process.exit(1);
+}
+
+const batchDate = new Date();
+
+console.log(`\n🚀 Filtering ${files.length} ${files.length === 1 ? "image" : "images"} with ${filterOptions.paletteName}...\n`);
+
+const start = performance.now();
+const outputTable: Record<string, string>[] = [];
+let failures = 0;
+
+for (const [index, { file, relativePath }] of files.entries()) {
+  const fileStart = performance.now();
+  // A file that cannot be read is reported like one that cannot be filtered, and the batch carries on
+  let bytes = new Uint8Array(0);
+  try {
+    bytes = new Uint8Array(await Bun.file(file).arrayBuffer());
+    const result = filterImageBytes(bytes, filterOptions);
+    const target = path.join(outdir, headlessOutputName(relativePath, index, files.length, result, filterOptions, batchDate));
+    await mkdir(path.dirname(target), { recursive: true });
+    await Bun.write(target, result.bytes);
+
+    outputTable.push({
+      "Input": relativePath,
+      "Output": path.relative(process.cwd(), target),
+      "Size": `${result.width}×${result.height}`,
+      "In": formatFileSize(bytes.length),
+      "Out": formatFileSize(result.bytes.length),
+      "Time": `${(performance.now() - fileStart).toFixed(0)}ms`,
+    });
+  } catch (error) {
+    failures++;
+    outputTable.push({
+      "Input": relativePath,
+      "Output": `❌ ${error instanceof Error ? error.message : error}`,
+      "Size": "",
+      "In": bytes.length > 0 ? formatFileSize(bytes.length) : "",
+      "Out": "",
+      "Time": `${(performance.now() - fileStart).toFixed(0)}ms`,
+    });
+  }
+}
+
+console.table(outputTable);
+const totalTime = (performance.now() - start).toFixed(2);
+
+if (failures > 0) {
+  console.log(`\n⚠️ ${files.length - failures} of ${files.length} images filtered in ${totalTime}ms; ${failures} failed\n`);
+  process.exitCode = 1;
+} else {
+  console.log(`\n✅ Filtered ${files.length} ${files.length === 1 ? "image" : "images"} in ${totalTime}ms\n`);
+}
@@ -0,0 +1,69 @@
+// Decoding and encoding of image files without a canvas, for the headless CLI.
+
+import { decodePng, encodePng, isPng } from "./pinku-batched.png";
+import { decodeJpeg, encodeJpeg } from "./pinku-batched.jpeg";
+import { getOrientationTransform, isJpeg, readJpegMetadata } from "./pinku-batched.exif";
+
+/** 8-bit RGBA pixels, laid out like ImageData. */
+export interface RawImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+export const DECODABLE_TYPES = ["image/png", "image/jpeg"];
+
+/**
+ * Detects the image type from the file signature rather than the extension.
+ * @param bytes - The file contents.
+ * @returns The MIME type, or null if the file is neither PNG nor JPEG.
+ */
+export const sniffImageType = (bytes: Uint8Array) => isPng(bytes) ? "image/png" : isJpeg(bytes) ? "image/jpeg" : null;
+
+/**
+ * Turns raw pixels upright according to an EXIF orientation.
+ * @param image - The pixels as stored in the file.
+ * @param orientation - The EXIF orientation from 1 to 8.
+ * @returns The upright pixels; the input itself when nothing needs to change.
+ */
+export function applyOrientation(image: RawImage, orientation: number): RawImage {
+    if (orientation === 1) return image;
+    const { width, height, matrix: [a, b, c, d, e, f] } = getOrientationTransform(orientation, image.width, image.height);
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < image.height; y++) {
+        for (let x = 0; x < image.width; x++) {
+            // Map the pixel center through the same matrix the canvas path uses
+            const targetX = Math.floor(a * (x + 0.5) + c * (y + 0.5) + e);
+            const targetY = Math.floor(b * (x + 0.5) + d * (y + 0.5) + f);
+            data.set(image.data.subarray((y * image.width + x) * 4, (y * image.width + x) * 4 + 4), (targetY * width + targetX) * 4);
+        }
+    }
+    return { width, height, data };
+}
+
+/**
+ * Decodes a PNG or JPEG file upright.
+ * @param bytes - The file contents.
+ * @returns The decoded pixels and the detected MIME type.
+ */
+export function decodeImageFile(bytes: Uint8Array): { image: RawImage; type: string } {
+    const type = sniffImageType(bytes);
+    if (type === "image/png") return { image: decodePng(bytes), type };
+    if (type === "image/jpeg") {
+        const { orientation } = readJpegMetadata(bytes);
+        return { image: applyOrientation(decodeJpeg(bytes), orientation), type };
+    }
+    throw new Error("Unsupported image type; only PNG and JPEG can be decoded here");
+}
+
+/**
+ * Encodes pixels as PNG or JPEG.
+ * @param image - The pixels to encode.
+ * @param type - "image/jpeg" for JPEG; anything else produces PNG.
+ * @param quality - The JPEG quality from 0 to 1.
+ * @returns The encoded file and its actual MIME type.
+ */
+export function encodeImageFile(image: RawImage, type: string, quality?: number): { bytes: Uint8Array<ArrayBuffer>; type: string } {
+    if (type === "image/jpeg") return { bytes: encodeJpeg(image, quality), type };
+    return { bytes: encodePng(image), type: "image/png" };
+}
@@ -0,0 +1,138 @@
+// Color spaces for blending palette colors and measuring luminance. Mixing gamma-encoded sRGB values, as the
+// original filter does, darkens and greys the midtones between saturated colors; linear light and OKLab do not.
+
+import type { ColorStop, RGB } from "./pinku-batched.palettes";
+
+export type InterpolationSpace = "srgb" | "linear" | "oklab" | "oklch";
+
+export const INTERPOLATION_SPACES: { value: InterpolationSpace; label: string }[] = [
+    { value: "srgb", label: "sRGB" },
+    { value: "linear", label: "Linear light" },
+    { value: "oklab", label: "OKLab" },
+    { value: "oklch", label: "OKLCH" },
+];
+
+/**
+ * Decodes an sRGB channel to linear light.
+ * @param level - The channel from 0 to 255.
+ * @returns The linear value from 0 to 1.
+ */
+export function srgbToLinear(level: number): number {
+    const value = level / 255;
+    return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Encodes a linear-light value as an sRGB channel, clipping values outside the gamut.
+ * @param value - The linear value from 0 to 1.
+ * @returns The channel from 0 to 255, not rounded.
+ */
+export function linearToSrgb(value: number): number {
+    const clipped = Math.min(1, Math.max(0, value));
+    return (clipped <= 0.0031308 ? clipped * 12.92 : 1.055 * Math.pow(clipped, 1 / 2.4) - 0.055) * 255;
+}
+
+// --- OKLab, from Björn Ottosson's reference matrices ---
+function toOklab(color: RGB): [number, number, number] {
+    const [r, g, b] = color.map(srgbToLinear);
+    const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+    const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+    const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+    return [
+        0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+        1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+        0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+    ];
+}
+
+function fromOklab([lightness, a, b]: [number, number, number]): RGB {
+    const l = (lightness + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+    const m = (lightness - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+    const s = (lightness - 0.0894841775 * a - 1.2914855480 * b) ** 3;
+    return [
+        4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+        -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+        -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+    ].map(linearToSrgb) as RGB;
+}
+
+// Below this chroma a color is grey and its hue is meaningless
+const ACHROMATIC = 1e-4;
+
+/**
+ * Mixes two colors in a color space. OKLCH takes the shorter way around the hue circle.
+ * @param from - The color at t = 0.
+ * @param to - The color at t = 1.
+ * @param t - The share of `to`, from 0 to 1.
+ * @param space - Where the mixing happens.
+ * @returns The sRGB color, not rounded.
+ */
+export function mixColors(from: RGB, to: RGB, t: number, space: InterpolationSpace): RGB {
+    const mix = (a: number, b: number) => a + (b - a) * t;
+    switch (space) {
+        case "srgb":
+            return from.map((channel, i) => mix(channel, to[i])) as RGB;
+        case "linear":
+            return from.map((channel, i) => linearToSrgb(mix(srgbToLinear(channel), srgbToLinear(to[i])))) as RGB;
+        case "oklab": {
+            const a = toOklab(from);
+            const b = toOklab(to);
+            return fromOklab([mix(a[0], b[0]), mix(a[1], b[1]), mix(a[2], b[2])]);
+        }
+        case "oklch": {
+            const [l1, a1, b1] = toOklab(from);
+            const [l2, a2, b2] = toOklab(to);
+            const c1 = Math.hypot(a1, b1);
+            const c2 = Math.hypot(a2, b2);
+            let h1 = Math.atan2(b1, a1);
+            let h2 = Math.atan2(b2, a2);
+            if (c1 < ACHROMATIC) h1 = h2;
+            if (c2 < ACHROMATIC) h2 = h1;
+            const turn = h2 - h1 > Math.PI ? -2 * Math.PI : h2 - h1 < -Math.PI ? 2 * Math.PI : 0;
+            const hue = mix(h1, h2 + turn);
+            const chroma = mix(c1, c2);
+            return fromOklab([mix(l1, l2), chroma * Math.cos(hue), chroma * Math.sin(hue)]);
+        }
+    }
+}
+
+// Enough stops that the gradient map, which samples 256 levels, hits one at every level
+const RESAMPLED_STOPS = 256;
+
+/**
+ * Resamples a gradient so that plain sRGB interpolation between its stops follows another color space.
+ * Everything downstream (LUTs, inks, .cube and web filter exports) then uses the chosen space unchanged.
+ * @param stops - The gradient stops.
+ * @param space - The color space to interpolate in.
+ * @returns The stops themselves for sRGB, otherwise 256 evenly spaced stops.
+ */
+export function interpolateStops(stops: ColorStop[], space: InterpolationSpace): ColorStop[] {
+    if (space === "srgb" || stops.length < 2) return stops;
+    const sorted = [...stops].sort((a, b) => a.position - b.position);
+    return Array.from({ length: RESAMPLED_STOPS }, (_, i) => {
+        const position = i / (RESAMPLED_STOPS - 1);
+        const upperIndex = sorted.findIndex(stop => stop.position >= position);
+        if (upperIndex <= 0) return { position, color: sorted[upperIndex === 0 ? 0 : sorted.length - 1].color };
+        const lower = sorted[upperIndex - 1];
+        const upper = sorted[upperIndex];
+        const span = upper.position - lower.position;
+        return { position, color: mixColors(lower.color, upper.color, span === 0 ? 1 : (position - lower.position) / span, space) };
+    });
+}
+
+// --- Luminance in linear light, through lookup tables so the per-pixel cost stays low ---
+const LINEAR_LEVELS = Float32Array.from({ length: 256 }, (_, level) => srgbToLinear(level));
+const ENCODE_STEPS = 1 << 14;
+const ENCODED_LEVELS = Uint8ClampedArray.from({ length: ENCODE_STEPS + 1 }, (_, step) => linearToSrgb(step / ENCODE_STEPS));
+
+/**
+ * Computes the luminance of an sRGB color in linear light and encodes it back to an sRGB level,
+ * so it indexes the same 256-entry LUTs as the gamma-encoded luminance.
+ * @param r - The red channel from 0 to 255.
+ * @param g - The green channel from 0 to 255.
+ * @param b - The blue channel from 0 to 255.
+ * @param weights - The RGB luminance weights.
+ * @returns The luminance level from 0 to 255.
+ */
+export const linearLuminanceLevel = (r: number, g: number, b: number, weights: [number, number, number]) =>
+    ENCODED_LEVELS[Math.min(ENCODE_STEPS, Math.round(((LINEAR_LEVELS[r] * weights[0]) + (LINEAR_LEVELS[g] * weights[1]) + (LINEAR_LEVELS[b] * weights[2])) * ENCODE_STEPS))];
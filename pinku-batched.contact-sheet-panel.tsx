@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { Download, LayoutGrid } from "lucide-react";
+import {
+    DEFAULT_CONTACT_SHEET_SETTINGS,
+    getSheetBackground,
+    planContactSheet,
+    renderContactSheet,
+    type ContactSheetBackground,
+    type ContactSheetItem,
+    type ContactSheetLayout,
+    type ContactSheetSettings,
+} from "./pinku-batched.contact-sheet";
+import { extensionFor } from "./pinku-batched.export";
+import { toHex, type ColorStop } from "./pinku-batched.palettes";
+import type { ImageLimits } from "./pinku-batched.limits";
+
+const CELL_SIZES = [256, 512, 1024, 2048];
+
+const BACKGROUNDS: { value: ContactSheetBackground; label: string }[] = [
+    { value: "shadow", label: "Shadow" },
+    { value: "midtone", label: "Midtone" },
+    { value: "highlight", label: "Highlight" },
+];
+
+export interface ContactSheetPanelProps {
+    items: ContactSheetItem[];
+    /** Effective gradient stops, for the background color. */
+    stops: ColorStop[];
+    /** The sheet is scaled down to fit these. */
+    limits: ImageLimits;
+    onDownload: (url: string, name: string) => void;
+}
+
+export default function ContactSheetPanel({ items, stops, limits, onDownload }: ContactSheetPanelProps) {
+    const [settings, setSettings] = useState<ContactSheetSettings>(DEFAULT_CONTACT_SHEET_SETTINGS);
+    const [progress, setProgress] = useState<number | null>(null);
+    const [sheet, setSheet] = useState<{ url: string; width: number; height: number; format: ContactSheetSettings["format"] } | null>(null);
+    const [renderError, setRenderError] = useState<string | null>(null);
+    const update = (changes: Partial<ContactSheetSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+    const plan = planContactSheet(items.length, settings, limits);
+
+    useEffect(() => () => { if (sheet) URL.revokeObjectURL(sheet.url); }, [sheet]);
+
+    const handleRender = async () => {
+        if (progress !== null) return;
+        setProgress(0);
+        setRenderError(null);
+        try {
+            const blob = await renderContactSheet(items, settings, stops, limits, setProgress);
+            setSheet({ url: URL.createObjectURL(blob), width: plan.width, height: plan.height, format: settings.format });
+        } catch (error) {
+            console.error("Failed to render the contact sheet:", error);
+            setRenderError(error instanceof Error ? error.message : String(error));
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    return (
+        <div className="bg-black/20 rounded-xl p-4 mb-4 text-sm grid grid-cols-1 md:grid-cols-[1fr_16rem] gap-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3 content-start">
+                <label className="flex flex-col gap-1.5">
+                    <span className="text-[#a4d7ba]">Layout</span>
+                    <select
+                        value={settings.layout}
+                        onChange={(e) => update({ layout: e.target.value as ContactSheetLayout })}
+                        className="bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30"
+                    >
+                        <option value="grid">Results only</option>
+                        <option value="pairs">Before/after pairs</option>
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1.5">
+                    <span className="text-[#a4d7ba]">Image size</span>
+                    <select
+                        value={settings.cellSize}
+                        onChange={(e) => update({ cellSize: Number(e.target.value) })}
+                        className="bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30"
+                    >
+                        {CELL_SIZES.map(size => (
+                            <option key={size} value={size}>{size} px</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1.5">
+                    <span className="flex justify-between text-[#a4d7ba]">
+                        <span>{settings.layout === "pairs" ? "Pairs per row" : "Columns"}</span>
+                        <span className="tabular-nums text-[#ececec]">{settings.columns}</span>
+                    </span>
+                    <input
+                        type="range"
+                        min={1}
+                        max={12}
+                        value={settings.columns}
+                        onChange={(e) => update({ columns: Number(e.target.value) })}
+                        className="accent-[#27e47a] mt-2"
+                    />
+                </label>
+                <label className="flex flex-col gap-1.5">
+                    <span className="flex justify-between text-[#a4d7ba]">
+                        <span>Gutter</span>
+                        <span className="tabular-nums text-[#ececec]">{settings.gutter} px</span>
+                    </span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={128}
+                        step={4}
+                        value={settings.gutter}
+                        onChange={(e) => update({ gutter: Number(e.target.value) })}
+                        className="accent-[#27e47a] mt-2"
+                    />
+                </label>
+                <div className="flex flex-col gap-1.5">
+                    <span className="text-[#a4d7ba]">Background</span>
+                    <div className="flex gap-2">
+                        {BACKGROUNDS.map(option => (
+                            <button
+                                key={option.value}
+                                onClick={() => update({ background: option.value })}
+                                aria-pressed={settings.background === option.value}
+                                className={`flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg border transition-colors ${settings.background === option.value ? 'border-[#27e47a] bg-[#27e47a]/10' : 'border-[#a4d7ba]/30 hover:border-[#a4d7ba]/60'}`}
+                            >
+                                <span
+                                    className="w-3.5 h-3.5 rounded-sm border border-[#a4d7ba]/40"
+                                    style={{ backgroundColor: toHex(getSheetBackground(stops, option.value)) }}
+                                ></span>
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex flex-col gap-1.5">
+                    <span className="text-[#a4d7ba]">Format</span>
+                    <div className="flex items-center gap-3">
+                        <select
+                            value={settings.format}
+                            onChange={(e) => update({ format: e.target.value as ContactSheetSettings["format"] })}
+                            className="flex-1 bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30"
+                            aria-label="Format"
+                        >
+                            <option value="image/png">PNG</option>
+                            <option value="image/jpeg">JPEG</option>
+                        </select>
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={settings.captions}
+                                onChange={(e) => update({ captions: e.target.checked })}
+                                className="accent-[#27e47a]"
+                            />
+                            <span>File names</span>
+                        </label>
+                    </div>
+                </div>
+                <p className={`sm:col-span-2 text-xs ${renderError ? 'text-red-300' : 'text-[#a4d7ba]/80'}`}>
+                    {renderError ?? `${items.length} ${items.length === 1 ? "item" : "items"} on a ${plan.width} × ${plan.height} sheet${plan.cellSize < settings.cellSize ? `, with images scaled to ${plan.cellSize} px to stay within the image limits` : ""}.`}
+                </p>
+            </div>
+
+            <div className="space-y-2">
+                <div className="aspect-square bg-black/30 rounded-lg flex items-center justify-center overflow-hidden">
+                    {sheet ? (
+                        <img src={sheet.url} alt="Contact sheet" className="max-w-full max-h-full object-contain" />
+                    ) : (
+                        <LayoutGrid size={32} className="text-[#a4d7ba]/50" />
+                    )}
+                </div>
+                <button
+                    onClick={handleRender}
+                    disabled={progress !== null || items.length === 0}
+                    className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-[#1e5034] hover:bg-[#2a6f47] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {progress !== null ? (
+                        <>
+                            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-[#ececec]"></div>
+                            Rendering... {progress}%
+                        </>
+                    ) : (
+                        <>
+                            <LayoutGrid size={16} />
+                            {sheet ? "Render Again" : "Render Sheet"}
+                        </>
+                    )}
+                </button>
+                {sheet && (
+                    <button
+                        onClick={() => onDownload(sheet.url, `pinku_contact_sheet.${extensionFor(sheet.format)}`)}
+                        className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-[#27e47a] hover:bg-[#22c56e] text-[#010c05] font-bold transition-colors"
+                    >
+                        <Download size={16} />
+                        Download {sheet.width} × {sheet.height}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,179 @@
+// Contact sheets: every processed result laid out on one image, for review or for posting a whole batch at once.
+// Runs on the main thread only, since it draws text and needs a DOM canvas.
+
+import { loadImageData } from "./pinku-batched.process";
+import { sampleGradient } from "./pinku-batched.filter";
+import { checkImageSize, type ImageLimits } from "./pinku-batched.limits";
+import { toHex, type ColorStop, type RGB } from "./pinku-batched.palettes";
+
+/** "grid" shows the results only; "pairs" puts each original to the left of its result. */
+export type ContactSheetLayout = "grid" | "pairs";
+
+/** Where on the palette the sheet background is taken from. */
+export type ContactSheetBackground = "shadow" | "midtone" | "highlight";
+
+export interface ContactSheetSettings {
+    layout: ContactSheetLayout;
+    /** Items per row; a before/after pair counts as one item. */
+    columns: number;
+    /** Longest side of each image in pixels, before the sheet is fitted to the image limits. */
+    cellSize: number;
+    /** Space between and around the images in pixels. */
+    gutter: number;
+    background: ContactSheetBackground;
+    /** Write each file name below its image. */
+    captions: boolean;
+    format: "image/png" | "image/jpeg";
+}
+
+export const DEFAULT_CONTACT_SHEET_SETTINGS: ContactSheetSettings = {
+    layout: "grid",
+    columns: 4,
+    cellSize: 512,
+    gutter: 16,
+    background: "shadow",
+    captions: true,
+    format: "image/png",
+};
+
+export interface ContactSheetItem {
+    result: Blob;
+    original: Blob;
+    name: string;
+}
+
+export interface ContactSheetPlan {
+    width: number;
+    height: number;
+    /** Longest side of each image after fitting. */
+    cellSize: number;
+    gutter: number;
+    /** Height of the caption strip below each item; 0 without captions. */
+    captionHeight: number;
+    fontSize: number;
+    /** Top-left corner of every item, in item order. */
+    items: { x: number; y: number }[];
+}
+
+const BACKGROUND_POSITIONS: Record<ContactSheetBackground, number> = { shadow: 0, midtone: 0.5, highlight: 1 };
+
+/**
+ * Picks the sheet background from the palette.
+ * @param stops - The effective gradient stops.
+ * @param background - Which end of the palette to use.
+ * @returns The background color.
+ */
+export const getSheetBackground = (stops: ColorStop[], background: ContactSheetBackground): RGB =>
+    sampleGradient(stops, BACKGROUND_POSITIONS[background]).map(Math.round) as RGB;
+
+/**
+ * Lays out a contact sheet, scaling everything down if the sheet would exceed the image limits.
+ * @param count - The number of items.
+ * @param settings - The sheet settings.
+ * @param limits - The image limits; the sheet has to fit in one canvas.
+ * @returns The sheet size and the position of every item.
+ */
+export function planContactSheet(count: number, settings: ContactSheetSettings, limits: Pick<ImageLimits, "maxMegapixels" | "maxDimension">): ContactSheetPlan {
+    const layout = (cellSize: number, gutter: number) => {
+        const fontSize = Math.max(10, Math.round(cellSize / 24));
+        const captionHeight = settings.captions ? Math.round(fontSize * 1.8) : 0;
+        const itemWidth = settings.layout === "pairs" ? cellSize * 2 + gutter : cellSize;
+        const itemHeight = cellSize + captionHeight;
+        const columns = Math.max(1, Math.min(settings.columns, count));
+        const rows = Math.max(1, Math.ceil(count / columns));
+        return {
+            width: columns * itemWidth + (columns + 1) * gutter,
+            height: rows * itemHeight + (rows + 1) * gutter,
+            cellSize,
+            gutter,
+            captionHeight,
+            fontSize,
+            items: Array.from({ length: count }, (_, i) => ({
+                x: gutter + (i % columns) * (itemWidth + gutter),
+                y: gutter + Math.floor(i / columns) * (itemHeight + gutter),
+            })),
+        };
+    };
+
+    const full = layout(settings.cellSize, settings.gutter);
+    const { scale } = checkImageSize(full, limits);
+    if (scale >= 1) return full;
+    // Rounding can push the scaled sheet a few pixels over, so shrink until it fits
+    for (let factor = scale; ; factor *= 0.98) {
+        const fitted = layout(Math.max(1, Math.floor(settings.cellSize * factor)), Math.floor(settings.gutter * factor));
+        if (!checkImageSize(fitted, limits).exceeds || fitted.cellSize === 1) return fitted;
+    }
+}
+
+// Shortens a caption with an ellipsis until it fits
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+    if (ctx.measureText(text).width <= maxWidth) return text;
+    let end = text.length;
+    while (end > 1 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+    return `${text.slice(0, end)}…`;
+}
+
+// Draws an image centered in its cell, downscaled to the cell size
+async function drawCell(ctx: CanvasRenderingContext2D, image: Blob, x: number, y: number, size: number) {
+    const imageData = await loadImageData(image, size);
+    const bitmap = await createImageBitmap(imageData);
+    ctx.drawImage(bitmap, x + Math.floor((size - imageData.width) / 2), y + Math.floor((size - imageData.height) / 2));
+    bitmap.close();
+}
+
+/**
+ * Renders a contact sheet of processed results.
+ * @param items - The results, with their originals for the pairs layout.
+ * @param settings - The sheet settings.
+ * @param stops - The effective gradient stops, for the background color.
+ * @param limits - The image limits the sheet is fitted to.
+ * @param onProgress - Called with the share of items drawn, from 0 to 100.
+ * @returns The encoded sheet.
+ * @throws Error if there is nothing to lay out or the canvas cannot be created or encoded.
+ */
+export async function renderContactSheet(
+    items: ContactSheetItem[],
+    settings: ContactSheetSettings,
+    stops: ColorStop[],
+    limits: Pick<ImageLimits, "maxMegapixels" | "maxDimension">,
+    onProgress?: (percent: number) => void,
+): Promise<Blob> {
+    if (items.length === 0) throw new Error("There are no results to put on a contact sheet");
+    const plan = planContactSheet(items.length, settings, limits);
+    const canvas = document.createElement("canvas");
+    canvas.width = plan.width;
+    canvas.height = plan.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not get a 2D canvas context");
+
+    const background = getSheetBackground(stops, settings.background);
+    ctx.fillStyle = toHex(background);
+    ctx.fillRect(0, 0, plan.width, plan.height);
+    ctx.imageSmoothingQuality = "high";
+    // Captions in black or white, whichever stands out from the background
+    const isLight = background[0] * 0.2126 + background[1] * 0.7152 + background[2] * 0.0722 > 140;
+    ctx.font = `${plan.fontSize}px system-ui, sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+
+    for (let i = 0; i < items.length; i++) {
+        const { x, y } = plan.items[i];
+        const item = items[i];
+        if (settings.layout === "pairs") {
+            await drawCell(ctx, item.original, x, y, plan.cellSize);
+            await drawCell(ctx, item.result, x + plan.cellSize + plan.gutter, y, plan.cellSize);
+        } else {
+            await drawCell(ctx, item.result, x, y, plan.cellSize);
+        }
+        if (plan.captionHeight > 0) {
+            const width = settings.layout === "pairs" ? plan.cellSize * 2 + plan.gutter : plan.cellSize;
+            ctx.fillStyle = isLight ? "#010c05" : "#ececec";
+            ctx.fillText(fitText(ctx, item.name, width), x + width / 2, y + plan.cellSize + plan.captionHeight / 2);
+        }
+        onProgress?.(Math.round(((i + 1) / items.length) * 100));
+    }
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("The contact sheet could not be encoded")), settings.format, 0.92);
+    });
+}
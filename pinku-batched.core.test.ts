@@ -0,0 +1,435 @@
+import { describe, expect, test } from "bun:test";
+import {
+    applyCube,
+    applyDuotone,
+    BUILT_IN_PALETTES,
+    createWebFilter,
+    formatCssSnippet,
+    formatCube1D,
+    formatCube3D,
+    formatSvgFilter,
+    generateLUTs,
+    interpolateStops,
+    linearToSrgb,
+    LUMINANCE_WEIGHTS,
+    mixColors,
+    parseCube,
+    GREEN_SHADOW,
+    PINK_HIGHLIGHT,
+    resolveStops,
+    reverseStops,
+    srgbToLinear,
+    validateRGB,
+    type RawImage,
+    type RGB,
+} from "./pinku-batched.core";
+import { decodeImageFile, encodeImageFile } from "./pinku-batched.codec";
+import { decodePng } from "./pinku-batched.png";
+import { encodeJpeg } from "./pinku-batched.jpeg";
+import { embedJpegSegments, readJpegMetadata } from "./pinku-batched.exif";
+import { decodeGif, encodeGif } from "./pinku-batched.gif";
+import { encodeApng, isApng, readApng } from "./pinku-batched.apng";
+import { probeAnimation, type Animation } from "./pinku-batched.animation";
+import { DEFAULT_IMAGE_LIMITS, orientImageSize, readImageSize, resolveDecodeSize } from "./pinku-batched.limits";
+
+const image = (...pixels: [number, number, number, number][]): RawImage => ({
+    width: pixels.length,
+    height: 1,
+    data: new Uint8ClampedArray(pixels.flat()),
+});
+
+const pixel = (result: RawImage, index: number) => Array.from(result.data.subarray(index * 4, index * 4 + 4));
+
+describe("generateLUTs", () => {
+    test("maps black to the shadow and white to the highlight", () => {
+        const { rLUT, gLUT, bLUT } = generateLUTs(GREEN_SHADOW, PINK_HIGHLIGHT);
+        expect([rLUT[0], gLUT[0], bLUT[0]]).toEqual(GREEN_SHADOW);
+        expect([rLUT[255], gLUT[255], bLUT[255]]).toEqual(PINK_HIGHLIGHT);
+    });
+
+    test("interpolates linearly in between", () => {
+        const { rLUT, gLUT, bLUT } = generateLUTs([0, 0, 0], [255, 255, 255]);
+        for (const level of [1, 64, 128, 254]) {
+            expect([rLUT[level], gLUT[level], bLUT[level]]).toEqual([level, level, level]);
+        }
+    });
+});
+
+describe("applyDuotone", () => {
+    test("produces the known Pinku colors", () => {
+        const result = applyDuotone(image([0, 0, 0, 255], [255, 255, 255, 255], [128, 128, 128, 255]));
+        expect(pixel(result, 0)).toEqual([...GREEN_SHADOW, 255]);
+        expect(pixel(result, 1)).toEqual([...PINK_HIGHLIGHT, 255]);
+        expect(pixel(result, 2)).toEqual([136, 120, 125, 255]);
+    });
+
+    test("reverse swaps shadows and highlights", () => {
+        const result = applyDuotone(image([0, 0, 0, 255], [255, 255, 255, 255]), { reverse: true });
+        expect(pixel(result, 0)).toEqual([...PINK_HIGHLIGHT, 255]);
+        expect(pixel(result, 1)).toEqual([...GREEN_SHADOW, 255]);
+    });
+
+    test("uses the luminance weights of the chosen formula", () => {
+        const green = image([0, 255, 0, 255]);
+        const palette: [RGB, RGB] = [[0, 0, 0], [255, 255, 255]];
+        expect(pixel(applyDuotone(green, { palette }), 0)).toEqual([182, 182, 182, 255]);
+        expect(pixel(applyDuotone(green, { palette, luminance: "rec601" }), 0)).toEqual([150, 150, 150, 255]);
+        expect(pixel(applyDuotone(green, { palette, luminance: "average" }), 0)).toEqual([85, 85, 85, 255]);
+    });
+
+    test("keeps alpha and leaves the input untouched", () => {
+        const source = image([10, 200, 30, 0], [255, 255, 255, 128]);
+        const before = Array.from(source.data);
+        const result = applyDuotone(source);
+        expect(Array.from(source.data)).toEqual(before);
+        expect(result.data).not.toBe(source.data);
+        expect([result.data[3], result.data[7]]).toEqual([0, 128]);
+    });
+
+    test("samples multi-stop palettes", () => {
+        const heatmap = BUILT_IN_PALETTES.find(palette => palette.id === "heatmap")!;
+        const result = applyDuotone(image([0, 0, 0, 255], [255, 255, 255, 255]), { palette: heatmap });
+        expect(pixel(result, 0)).toEqual([12, 7, 60, 255]);
+        expect(pixel(result, 1)).toEqual([252, 250, 200, 255]);
+    });
+
+    test("handles an empty image", () => {
+        expect(applyDuotone({ width: 0, height: 0, data: new Uint8ClampedArray(0) }).data.length).toBe(0);
+    });
+
+    test("rejects pixel data that does not match the size", () => {
+        expect(() => applyDuotone({ width: 2, height: 2, data: new Uint8ClampedArray(4) })).toThrow(TypeError);
+    });
+
+    test("rejects an unknown luminance formula", () => {
+        expect(() => applyDuotone(image([0, 0, 0, 255]), { luminance: "hdr" as never })).toThrow(RangeError);
+    });
+});
+
+describe("validation", () => {
+    test("accepts the channel limits", () => {
+        expect(validateRGB([0, 255, 0])).toEqual([0, 255, 0]);
+    });
+
+    test("rejects malformed colors", () => {
+        expect(() => validateRGB([0, 0])).toThrow(TypeError);
+        expect(() => validateRGB([0, Number.NaN, 0])).toThrow(TypeError);
+        expect(() => validateRGB("#ffffff")).toThrow(TypeError);
+    });
+
+    test("rejects channels out of range", () => {
+        expect(() => validateRGB([0, 256, 0])).toThrow(RangeError);
+        expect(() => validateRGB([-1, 0, 0])).toThrow(RangeError);
+        expect(() => validateRGB([0.5, 0, 0])).toThrow(RangeError);
+    });
+
+    test("rejects invalid gradients", () => {
+        expect(() => resolveStops([{ position: 0, color: [0, 0, 0] }])).toThrow(TypeError);
+        expect(() => resolveStops([{ position: 0, color: [0, 0, 0] }, { position: 1.5, color: [0, 0, 0] }])).toThrow(RangeError);
+        expect(() => resolveStops([[0, 0, 0], [0, 0, 300]])).toThrow(RangeError);
+    });
+});
+
+describe(".cube LUTs", () => {
+    const identity = (size: number) => {
+        const rows = [`LUT_3D_SIZE ${size}`];
+        for (let b = 0; b < size; b++) {
+            for (let g = 0; g < size; g++) {
+                for (let r = 0; r < size; r++) rows.push([r, g, b].map(v => v / (size - 1)).join(" "));
+            }
+        }
+        return rows.join("\n");
+    };
+
+    test("an identity LUT leaves pixels unchanged", () => {
+        const source = image([0, 0, 0, 255], [12, 200, 99, 128], [255, 255, 255, 0]);
+        const data = new Uint8ClampedArray(source.data);
+        applyCube(data, parseCube(identity(5)));
+        expect(Array.from(data)).toEqual(Array.from(source.data));
+    });
+
+    test("a 3D export reproduces the duotone", () => {
+        const source = image([0, 0, 0, 255], [255, 255, 255, 255], [128, 128, 128, 255], [200, 40, 90, 255]);
+        const lut = parseCube(formatCube3D(generateLUTs(GREEN_SHADOW, PINK_HIGHLIGHT), LUMINANCE_WEIGHTS.rec709, 33, "Pinku"));
+        expect(lut.title).toBe("Pinku");
+        const data = new Uint8ClampedArray(source.data);
+        applyCube(data, lut);
+        const expected = applyDuotone(source).data;
+        data.forEach((value, i) => expect(Math.abs(value - expected[i])).toBeLessThanOrEqual(2));
+    });
+
+    test("a 1D export has one row per level", () => {
+        const text = formatCube1D(generateLUTs(GREEN_SHADOW, PINK_HIGHLIGHT), "Pinku");
+        expect(text).toContain("LUT_1D_SIZE 256");
+        expect(text.trim().split("\n").filter(line => /^\d/.test(line))).toHaveLength(256);
+    });
+
+    test("reports malformed files", () => {
+        expect(() => parseCube("TITLE \"x\"\n0 0 0")).toThrow(/Line 2: table data before LUT_3D_SIZE/);
+        expect(() => parseCube("LUT_3D_SIZE 2\n0 0 0")).toThrow(/Expected 8 table entries/);
+        expect(() => parseCube(identity(2).replace("0 0 0", "0 zero 0"))).toThrow(/Line 2: expected three numbers/);
+        expect(() => parseCube("LUT_1D_SIZE 256")).toThrow(RangeError);
+        expect(() => parseCube("LUT_3D_SIZE 1")).toThrow(RangeError);
+        expect(() => parseCube("hello")).toThrow(/unknown keyword/);
+    });
+});
+
+describe("web filter", () => {
+    // What a browser does with the filter: the matrix, then piecewise-linear tables
+    const render = (source: RawImage, filter: ReturnType<typeof createWebFilter>) => {
+        const data = new Uint8ClampedArray(source.data);
+        for (let i = 0; i < data.length; i += 4) {
+            const luminance = Math.min(1, filter.matrix.slice(0, 3).reduce((sum, weight, c) => sum + weight * data[i + c] / 255, 0));
+            filter.tables.forEach((table, c) => {
+                const position = luminance * (table.length - 1);
+                const k = Math.min(Math.floor(position), table.length - 2);
+                data[i + c] = (table[k] + (table[k + 1] - table[k]) * (position - k)) * 255;
+            });
+        }
+        return data;
+    };
+
+    test("matches the canvas gradient map, reversed or not", () => {
+        const source = image([0, 0, 0, 255], [255, 255, 255, 255], [128, 128, 128, 255], [200, 40, 90, 128], [30, 160, 60, 255]);
+        for (const palette of BUILT_IN_PALETTES.filter(palette => palette.id === "pinku" || palette.id === "heatmap")) {
+            for (const reverse of [false, true]) {
+                const filter = createWebFilter(reverse ? reverseStops(palette.stops) : palette.stops, LUMINANCE_WEIGHTS.rec709);
+                const expected = applyDuotone(source, { palette, reverse }).data;
+                render(source, filter).forEach((value, i) => expect(Math.abs(value - expected[i])).toBeLessThanOrEqual(1));
+            }
+        }
+    });
+
+    test("a two-color palette needs only its end colors", () => {
+        const filter = createWebFilter(resolveStops([GREEN_SHADOW, PINK_HIGHLIGHT]), LUMINANCE_WEIGHTS.rec709);
+        expect(filter.tables.map(table => table.map(value => Math.round(value * 255)))).toEqual(
+            [0, 1, 2].map(c => [GREEN_SHADOW[c], PINK_HIGHLIGHT[c]]));
+    });
+
+    test("formats the SVG and CSS", () => {
+        const filter = createWebFilter(resolveStops([GREEN_SHADOW, PINK_HIGHLIGHT]), LUMINANCE_WEIGHTS.rec709, "pinku");
+        expect(formatSvgFilter(filter)).toContain('<filter id="pinku" color-interpolation-filters="sRGB">');
+        expect(formatSvgFilter(filter)).toContain('<feFuncR type="table"');
+        expect(formatCssSnippet(filter)).toBe(".pinku {\n  filter: url(#pinku);\n}\n");
+    });
+});
+
+describe("color spaces", () => {
+    test("every space keeps the end colors", () => {
+        for (const space of ["srgb", "linear", "oklab", "oklch"] as const) {
+            for (const t of [0, 1]) {
+                const expected = t === 0 ? GREEN_SHADOW : PINK_HIGHLIGHT;
+                mixColors(GREEN_SHADOW, PINK_HIGHLIGHT, t, space).forEach((channel, i) => expect(Math.abs(channel - expected[i])).toBeLessThan(0.5));
+            }
+        }
+    });
+
+    test("linear light converts both ways", () => {
+        for (let level = 0; level < 256; level++) expect(linearToSrgb(srgbToLinear(level))).toBeCloseTo(level, 6);
+    });
+
+    test("blending in linear light or OKLab brightens the midtones", () => {
+        const lightness = (color: RGB) => color.reduce((sum, channel, i) => sum + srgbToLinear(channel) * LUMINANCE_WEIGHTS.rec709[i], 0);
+        const muddy = lightness(mixColors(GREEN_SHADOW, PINK_HIGHLIGHT, 0.5, "srgb"));
+        expect(lightness(mixColors(GREEN_SHADOW, PINK_HIGHLIGHT, 0.5, "linear"))).toBeGreaterThan(muddy);
+        expect(lightness(mixColors(GREEN_SHADOW, PINK_HIGHLIGHT, 0.5, "oklab"))).toBeGreaterThan(muddy);
+    });
+
+    test("resampled stops keep sRGB untouched and cover every level otherwise", () => {
+        const stops = resolveStops([GREEN_SHADOW, PINK_HIGHLIGHT]);
+        expect(interpolateStops(stops, "srgb")).toBe(stops);
+        const resampled = interpolateStops(stops, "oklch");
+        expect(resampled).toHaveLength(256);
+        expect(resampled[128].position).toBeCloseTo(128 / 255, 10);
+        expect(() => applyDuotone(image([0, 0, 0, 255]), { interpolation: "hsv" as never })).toThrow(RangeError);
+    });
+
+    test("linear-light luminance leaves greys on the same level", () => {
+        const greys = image(...Array.from({ length: 256 }, (_, level) => [level, level, level, 255] as [number, number, number, number]));
+        expect(Array.from(applyDuotone(greys, { linearLuminance: true }).data)).toEqual(Array.from(applyDuotone(greys).data));
+        const green = image([0, 200, 0, 255]);
+        expect(pixel(applyDuotone(green, { linearLuminance: true }), 0)).not.toEqual(pixel(applyDuotone(green), 0));
+    });
+});
+
+describe("image codecs", () => {
+    // A deterministic mix of colors and alpha levels
+    const pattern = (width: number, height: number, opaque = false): RawImage => ({
+        width,
+        height,
+        data: Uint8ClampedArray.from({ length: width * height * 4 }, (_, i) => i % 4 !== 3 ? (i * 53 + (i >> 2) * 11) % 256 : opaque ? 255 : (i * 37) % 256),
+    });
+
+    // A smooth gradient, which JPEG reproduces closely
+    const gradient = (width: number, height: number): RawImage => ({
+        width,
+        height,
+        data: Uint8ClampedArray.from({ length: width * height * 4 }, (_, i) => {
+            const x = (i >> 2) % width;
+            const y = Math.floor((i >> 2) / width);
+            return [x * 8, y * 8, 128 + x * 4 - y * 4, 255][i % 4];
+        }),
+    });
+
+    // An APP1 segment holding the given TIFF bytes after the EXIF header
+    const exifSegment = (tiff: number[]) => {
+        const body = [..."Exif\0\0"].map(char => char.charCodeAt(0)).concat(tiff);
+        return Uint8Array.from([0xff, 0xe1, (body.length + 2) >> 8, (body.length + 2) & 0xff, ...body]);
+    };
+    // Big-endian TIFF header and one IFD entry: orientation 6, a 90° clockwise turn
+    const ORIENTATION_6 = [0x4d, 0x4d, 0, 0x2a, 0, 0, 0, 8, 0, 1, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, 6, 0, 0, 0, 0, 0, 0];
+
+    test("PNG round trips exactly", () => {
+        const source = pattern(7, 5);
+        const { image: decoded, type } = decodeImageFile(encodeImageFile(source, "image/png").bytes);
+        expect(type).toBe("image/png");
+        expect([decoded.width, decoded.height]).toEqual([7, 5]);
+        expect(Array.from(decoded.data)).toEqual(Array.from(source.data));
+    });
+
+    test("JPEG round trips within a small tolerance", () => {
+        const source = gradient(16, 16);
+        const { image: decoded, type } = decodeImageFile(encodeJpeg(source, 0.92));
+        expect(type).toBe("image/jpeg");
+        expect([decoded.width, decoded.height]).toEqual([16, 16]);
+        const maxError = decoded.data.reduce((max, value, i) => Math.max(max, Math.abs(value - source.data[i])), 0);
+        expect(maxError).toBeLessThanOrEqual(12);
+    });
+
+    test("JPEG orientation is applied on decode and reset in copied EXIF", () => {
+        const jpeg = embedJpegSegments(encodeJpeg(gradient(16, 8)), [exifSegment(ORIENTATION_6)]);
+        const metadata = readJpegMetadata(jpeg);
+        expect(metadata.orientation).toBe(6);
+        expect(readJpegMetadata(embedJpegSegments(encodeJpeg(gradient(1, 1)), metadata.segments)).orientation).toBe(1);
+        const { image: decoded } = decodeImageFile(jpeg);
+        expect([decoded.width, decoded.height]).toEqual([8, 16]);
+    });
+
+    test("copied EXIF drops the thumbnail and pixel dimensions of the original", () => {
+        // Little-endian TIFF: IFD0 at 8 with orientation and the Exif IFD link, the Exif IFD at 38, IFD1 at 80, thumbnail at 110
+        const tiff = new DataView(new ArrayBuffer(116));
+        const entry = (at: number, tag: number, type: number, value: number) => {
+            tiff.setUint16(at, tag, true);
+            tiff.setUint16(at + 2, type, true);
+            tiff.setUint32(at + 4, 1, true);
+            if (type === 3) tiff.setUint16(at + 8, value, true); else tiff.setUint32(at + 8, value, true);
+        };
+        [0x49, 0x49, 0x2a, 0, 8, 0, 0, 0].forEach((byte, i) => tiff.setUint8(i, byte));
+        tiff.setUint16(8, 2, true);
+        entry(10, 0x0112, 3, 6);
+        entry(22, 0x8769, 4, 38);
+        tiff.setUint32(34, 80, true);
+        tiff.setUint16(38, 3, true);
+        entry(40, 0x9000, 7, 0x30333230);
+        entry(52, 0xa002, 4, 4000);
+        entry(64, 0xa003, 4, 3000);
+        tiff.setUint16(80, 2, true);
+        entry(82, 0x0201, 4, 110);
+        entry(94, 0x0202, 4, 6);
+        [0xff, 0xd8, 0xaa, 0xbb, 0xff, 0xd9].forEach((byte, i) => tiff.setUint8(110 + i, byte));
+
+        const [segment] = readJpegMetadata(embedJpegSegments(encodeJpeg(gradient(8, 8)), [exifSegment(Array.from(new Uint8Array(tiff.buffer)))])).segments;
+        const copy = new DataView(segment.buffer, segment.byteOffset + 10);
+        expect(segment.length).toBe(10 + 110);
+        expect((segment[2] << 8) | segment[3]).toBe(segment.length - 2);
+        expect(copy.getUint16(18, true)).toBe(1);
+        expect(copy.getUint32(34, true)).toBe(0);
+        expect(copy.getUint16(38, true)).toBe(1);
+        expect(copy.getUint16(40, true)).toBe(0x9000);
+        expect(copy.getUint32(52, true)).toBe(0);
+        expect(readJpegMetadata(embedJpegSegments(encodeJpeg(gradient(8, 8)), [segment])).orientation).toBe(1);
+    });
+
+    test("oversized photos stored on their side are downscaled upright", () => {
+        const jpeg = embedJpegSegments(encodeJpeg(gradient(16, 8)), [exifSegment(ORIENTATION_6)]);
+        // Only the header is read for the limits, so the frame header can claim a 12000×4000 photo
+        const frame = jpeg.findIndex((byte, i) => byte === 0xff && jpeg[i + 1] === 0xc0);
+        new DataView(jpeg.buffer).setUint16(frame + 5, 4000);
+        new DataView(jpeg.buffer).setUint16(frame + 7, 12000);
+        const stored = readImageSize(jpeg)!;
+        expect(stored).toEqual({ width: 12000, height: 4000 });
+
+        const target = resolveDecodeSize(stored, DEFAULT_IMAGE_LIMITS)!;
+        expect(target.width * target.height).toBeLessThanOrEqual(DEFAULT_IMAGE_LIMITS.maxMegapixels * 1_000_000);
+        const upright = orientImageSize(target, readJpegMetadata(jpeg).orientation);
+        expect(upright).toEqual({ width: target.height, height: target.width });
+        expect(upright.height / upright.width).toBeCloseTo(3, 2);
+        expect(orientImageSize(target, 3)).toEqual(target);
+    });
+
+    test("GIF keeps frames, offsets, delays, disposal and the loop count", () => {
+        const animation: Animation = {
+            width: 4,
+            height: 3,
+            loopCount: 3,
+            frames: [
+                { x: 0, y: 0, width: 4, height: 3, delay: 100, disposal: "none", blend: "over", data: pattern(4, 3, true).data },
+                { x: 1, y: 1, width: 2, height: 2, delay: 50, disposal: "background", blend: "over", data: new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 0, 0, 0, 255, 0, 255, 0, 0, 255, 255]) },
+                // Short enough that the last codes are still in the bit buffer when the data ends
+                { x: 1, y: 2, width: 3, height: 1, delay: 250, disposal: "previous", blend: "over", data: new Uint8ClampedArray([9, 8, 7, 255, 1, 2, 3, 255, 4, 5, 6, 255]) },
+            ],
+        };
+        const decoded = decodeGif(encodeGif(animation));
+        expect([decoded.width, decoded.height, decoded.loopCount]).toEqual([4, 3, 3]);
+        expect(decoded.frames).toHaveLength(3);
+        decoded.frames.forEach((frame, i) => {
+            const { data, ...layout } = animation.frames[i];
+            expect({ ...frame, data: undefined }).toEqual({ ...layout, data: undefined });
+            expect(Array.from(frame.data)).toEqual(Array.from(data));
+        });
+        expect(decodeGif(encodeGif({ ...animation, loopCount: 0 })).loopCount).toBe(0);
+        expect(decodeGif(encodeGif({ ...animation, loopCount: 1 })).loopCount).toBe(1);
+    });
+
+    test("APNG keeps frames, offsets, timing, disposal, blending and the loop count", async () => {
+        const animation: Animation = {
+            width: 4,
+            height: 3,
+            loopCount: 2,
+            frames: [
+                { x: 0, y: 0, width: 4, height: 3, delay: 100, disposal: "none", blend: "source", data: pattern(4, 3).data },
+                { x: 1, y: 2, width: 3, height: 1, delay: 40, disposal: "previous", blend: "over", data: pattern(3, 1).data },
+            ],
+        };
+        const bytes = await encodeApng(animation);
+        expect(isApng(bytes)).toBe(true);
+        const decoded = readApng(bytes);
+        expect([decoded.width, decoded.height, decoded.loopCount]).toEqual([4, 3, 2]);
+        expect(decoded.frames).toHaveLength(2);
+        decoded.frames.forEach(({ png, ...layout }, i) => {
+            const { data, ...expected } = animation.frames[i];
+            expect(layout).toEqual(expected);
+            expect(Array.from(decodePng(png).data)).toEqual(Array.from(data));
+        });
+    });
+
+    test("malformed EXIF blocks are ignored", () => {
+        const jpeg = encodeJpeg(gradient(8, 8));
+        const malformed = [
+            [0x4d, 0x4d, 0],                                                  // truncated TIFF header
+            [0x58, 0x58, 0, 0x2a, 0, 0, 0, 8],                                // unknown byte order
+            [0x4d, 0x4d, 0, 0x2a, 0xff, 0xff, 0xff, 0xf0],                    // IFD past the end
+            [0x4d, 0x4d, 0, 0x2a, 0, 0, 0, 8, 0xff, 0xff, 0x01, 0x12, 0, 3],  // more entries than bytes
+            [0x4d, 0x4d, 0, 0x2a, 0, 0, 0, 8, 0, 1, 0x01, 0x3b, 0, 2, 0x7f, 0xff, 0xff, 0xff, 0, 0, 0, 0], // string past the end
+        ];
+        for (const tiff of malformed) {
+            const withExif = embedJpegSegments(jpeg, [exifSegment(tiff)]);
+            expect(readJpegMetadata(withExif).orientation).toBe(1);
+            expect(decodeImageFile(withExif).image.width).toBe(8);
+        }
+    });
+
+    test("malformed GIFs throw an Error instead of crashing", () => {
+        const gif = encodeGif({ width: 2, height: 2, loopCount: 0, frames: [{ x: 0, y: 0, width: 2, height: 2, delay: 100, disposal: "none", blend: "over", data: pattern(2, 2, true).data }] });
+        expect(() => decodeGif(gif.slice(0, 3))).toThrow(Error);
+        expect(() => decodeGif(Uint8Array.from([...gif.subarray(0, 13), 0x99]))).toThrow(/Corrupt GIF/);
+        expect(probeAnimation(Uint8Array.from([...gif.subarray(0, 13), 0x99]))).toBeNull();
+        for (let length = 6; length < gif.length; length++) {
+            try {
+                decodeGif(gif.slice(0, length));
+            } catch (error) {
+                expect(error).toBeInstanceOf(Error);
+            }
+        }
+    });
+});
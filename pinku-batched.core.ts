@@ -0,0 +1,132 @@
+// Public, framework-free API of the duotone filter. It only touches typed arrays, so it runs the same
+// in the browser, in workers and in Bun.
+
+import { duotoneStops, reverseStops, BUILT_IN_PALETTES, type ColorStop, type Palette, type RGB } from "./pinku-batched.palettes";
+import { filtering, generateGradientLUTs } from "./pinku-batched.filter";
+import { LUMINANCE_WEIGHTS, type LuminanceFormula } from "./pinku-batched.tone";
+import { INTERPOLATION_SPACES, interpolateStops, type InterpolationSpace } from "./pinku-batched.colorspace";
+import type { RawImage } from "./pinku-batched.codec";
+
+export { GREEN_SHADOW, PINK_HIGHLIGHT, BUILT_IN_PALETTES, duotoneStops, reverseStops, parseColor, toHex } from "./pinku-batched.palettes";
+export type { RGB, ColorStop, Palette } from "./pinku-batched.palettes";
+export { generateLUTs, generateGradientLUTs, sampleGradient, filtering } from "./pinku-batched.filter";
+export type { LUT } from "./pinku-batched.filter";
+export { applyCube, formatCube1D, formatCube3D, parseCube } from "./pinku-batched.cube";
+export type { CubeLut } from "./pinku-batched.cube";
+export { createWebFilter, formatCssSnippet, formatSvgFilter } from "./pinku-batched.webfilter";
+export type { WebFilter } from "./pinku-batched.webfilter";
+export { INTERPOLATION_SPACES, interpolateStops, linearToSrgb, mixColors, srgbToLinear } from "./pinku-batched.colorspace";
+export type { InterpolationSpace } from "./pinku-batched.colorspace";
+export { LUMINANCE_WEIGHTS } from "./pinku-batched.tone";
+export type { LuminanceFormula } from "./pinku-batched.tone";
+export type { RawImage } from "./pinku-batched.codec";
+
+export interface DuotoneOptions {
+    /** A palette preset, gradient stops or a [shadow, highlight] pair. Defaults to the Pinku palette. */
+    palette?: Palette | ColorStop[] | [RGB, RGB];
+    /** Swap the shadow and highlight ends. */
+    reverse?: boolean;
+    /** How luminance is computed from RGB. Defaults to Rec.709. */
+    luminance?: LuminanceFormula;
+    /** Compute luminance in linear light. Defaults to false, which uses the gamma-encoded channels. */
+    linearLuminance?: boolean;
+    /** The color space the palette colors are blended in. Defaults to sRGB. */
+    interpolation?: InterpolationSpace;
+}
+
+/**
+ * Checks that a value is an RGB triple of integers from 0 to 255.
+ * @param value - The value to check.
+ * @returns True if the value is a valid RGB color.
+ */
+export const isRGB = (value: unknown): value is RGB =>
+    Array.isArray(value) && value.length === 3 && value.every(channel => Number.isInteger(channel) && channel >= 0 && channel <= 255);
+
+/**
+ * Validates an RGB color.
+ * @param value - The value to check.
+ * @param label - How to refer to the value in error messages.
+ * @returns The color.
+ * @throws TypeError if the value is not a triple of numbers, RangeError if a channel is outside 0 to 255.
+ */
+export function validateRGB(value: unknown, label = "color"): RGB {
+    if (!Array.isArray(value) || value.length !== 3 || !value.every(channel => typeof channel === "number" && Number.isFinite(channel))) {
+        throw new TypeError(`${label} must be an [r, g, b] array of numbers`);
+    }
+    if (!isRGB(value)) throw new RangeError(`${label} channels must be integers from 0 to 255`);
+    return value;
+}
+
+/**
+ * Validates gradient stops.
+ * @param stops - The value to check.
+ * @returns The stops.
+ * @throws TypeError or RangeError describing the first invalid stop.
+ */
+export function validateStops(stops: unknown): ColorStop[] {
+    if (!Array.isArray(stops) || stops.length < 2) throw new TypeError("A gradient needs at least two stops");
+    stops.forEach((stop, i) => {
+        if (!stop || typeof stop !== "object") throw new TypeError(`stop ${i} must be an object with position and color`);
+        const { position, color } = stop as Partial<ColorStop>;
+        if (typeof position !== "number" || !(position >= 0 && position <= 1)) throw new RangeError(`stop ${i} position must be from 0 to 1`);
+        validateRGB(color, `stop ${i} color`);
+    });
+    return stops;
+}
+
+/**
+ * Validates that a pixel buffer is consistent with its size.
+ * @param imageData - An ImageData or RawImage.
+ * @throws TypeError if the data is not a Uint8ClampedArray of width × height × 4 bytes.
+ */
+export function validatePixels(imageData: ImageData | RawImage) {
+    const { width, height, data } = imageData;
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 0 || height < 0) {
+        throw new TypeError("width and height must be non-negative integers");
+    }
+    if (!(data instanceof Uint8ClampedArray)) throw new TypeError("data must be a Uint8ClampedArray of RGBA pixels");
+    if (data.length !== width * height * 4) throw new TypeError(`data must hold ${width * height * 4} bytes for ${width}×${height} RGBA pixels, got ${data.length}`);
+}
+
+/**
+ * Resolves the palette option to validated gradient stops.
+ * @param palette - A preset, stops or a [shadow, highlight] pair.
+ * @returns The gradient stops.
+ */
+export function resolveStops(palette: DuotoneOptions["palette"] = BUILT_IN_PALETTES[0]): ColorStop[] {
+    if (Array.isArray(palette)) {
+        if (palette.length === 2 && palette.every(Array.isArray)) {
+            return duotoneStops(validateRGB(palette[0], "shadow"), validateRGB(palette[1], "highlight"));
+        }
+        return validateStops(palette);
+    }
+    if (!palette || typeof palette !== "object") throw new TypeError("palette must be a preset, stops or a [shadow, highlight] pair");
+    return validateStops(palette.stops);
+}
+
+/**
+ * Maps an image through a duotone or gradient palette without modifying the input.
+ * @param imageData - The source pixels.
+ * @param options - The palette, direction, luminance and interpolation settings.
+ * @returns A new image of the same size; an ImageData when given one.
+ */
+export function applyDuotone(imageData: ImageData, options?: DuotoneOptions): ImageData;
+export function applyDuotone(imageData: RawImage, options?: DuotoneOptions): RawImage;
+export function applyDuotone(imageData: ImageData | RawImage, options: DuotoneOptions = {}): ImageData | RawImage {
+    validatePixels(imageData);
+    const luminance = options.luminance ?? "rec709";
+    if (!(luminance in LUMINANCE_WEIGHTS)) throw new RangeError(`Unknown luminance formula "${luminance}"`);
+    const interpolation = options.interpolation ?? "srgb";
+    if (!INTERPOLATION_SPACES.some(space => space.value === interpolation)) throw new RangeError(`Unknown interpolation space "${interpolation}"`);
+
+    const stops = resolveStops(options.palette);
+    const luts = generateGradientLUTs(interpolateStops(options.reverse ? reverseStops(stops) : stops, interpolation));
+    const { width, height } = imageData;
+    const output: RawImage = { width, height, data: new Uint8ClampedArray(imageData.data) };
+    filtering(output, luts, LUMINANCE_WEIGHTS[luminance], options.linearLuminance ?? false);
+
+    if (typeof ImageData !== "undefined" && imageData instanceof ImageData) {
+        return new ImageData(output.data as Uint8ClampedArray<ArrayBuffer>, width, height);
+    }
+    return output;
+}
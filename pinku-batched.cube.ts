@@ -0,0 +1,185 @@
+// Reading and writing Adobe/Resolve .cube LUT files, so a palette can be taken into video editors
+// and LUTs made in grading tools can be applied to a batch in place of the gradient map.
+
+import type { LUT } from "./pinku-batched.filter";
+import { linearToSrgb, srgbToLinear } from "./pinku-batched.colorspace";
+
+/** A 3D LUT as read from a .cube file. */
+export interface CubeLut {
+    title: string;
+    /** Points along each axis. */
+    size: number;
+    domainMin: [number, number, number];
+    domainMax: [number, number, number];
+    /** Output RGB triples from 0 to 1, red changing fastest, then green, then blue. */
+    data: Float32Array;
+}
+
+/** Grid sizes offered for 3D export; 33 is what most editors expect. */
+export const CUBE_SIZES = [17, 33, 65];
+
+const MAX_CUBE_SIZE = 256;
+
+const formatNumber = (value: number) => value.toFixed(6);
+
+const header = (title: string) => [`TITLE "${title.replace(/["\r\n]/g, "")}"`, "# Created with Pinku Batched"];
+
+/**
+ * Writes gradient LUTs as a 1D .cube file. A 1D LUT maps each channel on its own, so it
+ * reproduces the look exactly only for grayscale footage; use the 3D export for color footage.
+ * @param luts - The LUTs from generateLUTs or generateGradientLUTs, already reversed if needed.
+ * @param title - The title stored in the file.
+ * @returns The file contents.
+ */
+export function formatCube1D(luts: LUT, title: string): string {
+    const lines = [...header(title), "LUT_1D_SIZE 256"];
+    for (let i = 0; i < 256; i++) {
+        lines.push([luts.rLUT[i], luts.gLUT[i], luts.bLUT[i]].map(value => formatNumber(value / 255)).join(" "));
+    }
+    return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Writes gradient LUTs as a 3D .cube file by mapping the luminance of every grid color.
+ * @param luts - The LUTs from generateLUTs or generateGradientLUTs, already reversed if needed.
+ * @param weights - The RGB luminance weights the look was made with.
+ * @param size - Points along each axis.
+ * @param title - The title stored in the file.
+ * @param linear - Compute luminance in linear light.
+ * @returns The file contents.
+ */
+export function formatCube3D(luts: LUT, weights: [number, number, number], size: number, title: string, linear = false): string {
+    const lines = [...header(title), `LUT_3D_SIZE ${size}`];
+    const level = (index: number) => (index / (size - 1)) * 255;
+    const linearLevel = (index: number) => srgbToLinear(level(index));
+    for (let b = 0; b < size; b++) {
+        for (let g = 0; g < size; g++) {
+            for (let r = 0; r < size; r++) {
+                const luminance = Math.round(linear
+                    ? linearToSrgb(linearLevel(r) * weights[0] + linearLevel(g) * weights[1] + linearLevel(b) * weights[2])
+                    : level(r) * weights[0] + level(g) * weights[1] + level(b) * weights[2]);
+                lines.push([luts.rLUT[luminance], luts.gLUT[luminance], luts.bLUT[luminance]].map(value => formatNumber(value / 255)).join(" "));
+            }
+        }
+    }
+    return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Parses a 3D .cube file.
+ * @param text - The file contents.
+ * @returns The LUT.
+ * @throws SyntaxError naming the line for malformed files, RangeError for unsupported sizes or 1D LUTs.
+ */
+export function parseCube(text: string): CubeLut {
+    let title = "";
+    let size = 0;
+    let domainMin: [number, number, number] = [0, 0, 0];
+    let domainMax: [number, number, number] = [1, 1, 1];
+    let data: Float32Array | null = null;
+    let count = 0;
+
+    const readTriple = (parts: string[], lineNumber: number): [number, number, number] => {
+        const values = parts.map(Number);
+        if (values.length !== 3 || !values.every(Number.isFinite)) {
+            throw new SyntaxError(`Line ${lineNumber}: expected three numbers, got "${parts.join(" ")}"`);
+        }
+        return values as [number, number, number];
+    };
+
+    text.split(/\r?\n/).forEach((raw, i) => {
+        const lineNumber = i + 1;
+        const line = raw.replace(/#.*$/, "").trim();
+        if (!line) return;
+        const [keyword, ...rest] = line.split(/\s+/);
+
+        if (/^[-+.\d]/.test(keyword)) {
+            if (!data) throw new SyntaxError(`Line ${lineNumber}: table data before LUT_3D_SIZE`);
+            if (count >= size ** 3) throw new SyntaxError(`Line ${lineNumber}: more than the ${size ** 3} entries LUT_3D_SIZE ${size} allows`);
+            data.set(readTriple([keyword, ...rest], lineNumber), count * 3);
+            count++;
+            return;
+        }
+
+        switch (keyword) {
+            case "TITLE":
+                title = line.slice(5).trim().replace(/^"(.*)"$/, "$1");
+                break;
+            case "LUT_3D_SIZE": {
+                if (data) throw new SyntaxError(`Line ${lineNumber}: LUT_3D_SIZE is given twice`);
+                size = Number(rest[0]);
+                if (!Number.isInteger(size) || size < 2 || size > MAX_CUBE_SIZE) {
+                    throw new RangeError(`Line ${lineNumber}: LUT_3D_SIZE must be a whole number from 2 to ${MAX_CUBE_SIZE}`);
+                }
+                data = new Float32Array(size ** 3 * 3);
+                break;
+            }
+            case "LUT_1D_SIZE":
+                throw new RangeError(`Line ${lineNumber}: 1D LUTs cannot be imported; export a 3D LUT from your grading tool`);
+            case "DOMAIN_MIN":
+                domainMin = readTriple(rest, lineNumber);
+                break;
+            case "DOMAIN_MAX":
+                domainMax = readTriple(rest, lineNumber);
+                break;
+            case "LUT_3D_INPUT_RANGE":
+            case "LUT_1D_INPUT_RANGE": {
+                const [min, max] = rest.map(Number);
+                if (!Number.isFinite(min) || !Number.isFinite(max)) throw new SyntaxError(`Line ${lineNumber}: expected a minimum and a maximum`);
+                domainMin = [min, min, min];
+                domainMax = [max, max, max];
+                break;
+            }
+            default:
+                throw new SyntaxError(`Line ${lineNumber}: unknown keyword "${keyword}"`);
+        }
+    });
+
+    if (!data) throw new SyntaxError("The file has no LUT_3D_SIZE line; is it a .cube LUT?");
+    if (count !== size ** 3) throw new SyntaxError(`Expected ${size ** 3} table entries for LUT_3D_SIZE ${size}, found ${count}`);
+    if (domainMin.some((min, i) => min >= domainMax[i])) throw new RangeError("DOMAIN_MIN must be below DOMAIN_MAX on every channel");
+    return { title, size, domainMin, domainMax, data };
+}
+
+/**
+ * Maps pixels through a 3D LUT with trilinear interpolation. Alpha is left as it is.
+ * @param data - RGBA pixels, modified in place.
+ * @param lut - The LUT.
+ * @param curve - A tone curve applied to each channel first, or null.
+ */
+export function applyCube(data: Uint8ClampedArray, lut: CubeLut, curve: Uint8ClampedArray | null = null) {
+    const { size, domainMin, domainMax, data: table } = lut;
+    const last = size - 1;
+    // Grid coordinate of every input level per channel, so the inner loop only interpolates
+    const coordinates = [0, 1, 2].map(channel => {
+        const scale = last / (domainMax[channel] - domainMin[channel]);
+        return Float32Array.from({ length: 256 }, (_, level) =>
+            Math.min(last, Math.max(0, ((curve ? curve[level] : level) / 255 - domainMin[channel]) * scale)));
+    });
+    const dy = size * 3;
+    const dz = size * size * 3;
+
+    for (let i = 0; i < data.length; i += 4) {
+        const x = coordinates[0][data[i]];
+        const y = coordinates[1][data[i + 1]];
+        const z = coordinates[2][data[i + 2]];
+        const x0 = Math.min(Math.floor(x), last - 1);
+        const y0 = Math.min(Math.floor(y), last - 1);
+        const z0 = Math.min(Math.floor(z), last - 1);
+        const fx = x - x0;
+        const fy = y - y0;
+        const fz = z - z0;
+        const base = x0 * 3 + y0 * dy + z0 * dz;
+
+        for (let c = 0; c < 3; c++) {
+            const corner = base + c;
+            const c00 = table[corner] + (table[corner + 3] - table[corner]) * fx;
+            const c10 = table[corner + dy] + (table[corner + dy + 3] - table[corner + dy]) * fx;
+            const c01 = table[corner + dz] + (table[corner + dz + 3] - table[corner + dz]) * fx;
+            const c11 = table[corner + dy + dz] + (table[corner + dy + dz + 3] - table[corner + dy + dz]) * fx;
+            const c0 = c00 + (c10 - c00) * fy;
+            const c1 = c01 + (c11 - c01) * fy;
+            data[i + c] = (c0 + (c1 - c0) * fz) * 255;
+        }
+    }
+}
@@ -0,0 +1,92 @@
+import { getInkColors, getInkCount, RENDER_MODES, type DitherSettings, type RenderMode } from "./pinku-batched.dither";
+import { toHex, type ColorStop } from "./pinku-batched.palettes";
+
+export interface DitherPanelProps {
+    settings: DitherSettings;
+    onChange: (settings: DitherSettings) => void;
+    /** Effective gradient stops, used to show the inks. */
+    stops: ColorStop[];
+}
+
+export default function DitherPanel({ settings, onChange, stops }: DitherPanelProps) {
+    const update = (changes: Partial<DitherSettings>) => onChange({ ...settings, ...changes });
+    const isGradient = settings.mode === "gradient";
+    const isHalftone = settings.mode === "halftone";
+    const inks = isGradient ? [] : getInkColors(stops, getInkCount(settings));
+
+    return (
+        <div className="bg-black/20 rounded-xl p-4 mb-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+            <label className="flex flex-col gap-1.5">
+                <span className="text-[#a4d7ba]">Render mode</span>
+                <select
+                    value={settings.mode}
+                    onChange={(e) => update({ mode: e.target.value as RenderMode })}
+                    className="bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30"
+                >
+                    {RENDER_MODES.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+                {inks.length > 0 && (
+                    <span className="flex gap-1 mt-1" aria-label="Inks">
+                        {inks.map((ink, index) => (
+                            <span key={index} className="w-5 h-5 rounded border border-white/20" style={{ backgroundColor: toHex(ink) }} title={toHex(ink)} />
+                        ))}
+                    </span>
+                )}
+            </label>
+
+            <label className={`flex flex-col gap-1.5 ${isGradient || isHalftone ? 'opacity-50' : ''}`}>
+                <span className="text-[#a4d7ba]">Inks: {getInkCount(settings)}</span>
+                <input
+                    type="range"
+                    min={2}
+                    max={8}
+                    value={isHalftone ? 2 : settings.levels}
+                    onChange={(e) => update({ levels: Number(e.target.value) })}
+                    disabled={isGradient || isHalftone}
+                    className="accent-[#27e47a] mt-2"
+                />
+                <span className="text-xs text-[#a4d7ba]/80">Sampled evenly along the palette</span>
+            </label>
+
+            <div className={`flex flex-col gap-1.5 ${isHalftone ? '' : 'opacity-50'}`}>
+                <label className="flex flex-col gap-1.5">
+                    <span className="text-[#a4d7ba]">Dot cell: {settings.cellSize}px</span>
+                    <input
+                        type="range"
+                        min={3}
+                        max={32}
+                        value={settings.cellSize}
+                        onChange={(e) => update({ cellSize: Number(e.target.value) })}
+                        disabled={!isHalftone}
+                        className="accent-[#27e47a]"
+                    />
+                </label>
+                <label className="flex flex-col gap-1.5">
+                    <span className="text-[#a4d7ba]">Screen angle: {settings.angle}°</span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={90}
+                        value={settings.angle}
+                        onChange={(e) => update({ angle: Number(e.target.value) })}
+                        disabled={!isHalftone}
+                        className="accent-[#27e47a]"
+                    />
+                </label>
+            </div>
+
+            <label className={`flex items-center gap-2 self-start mt-6 ${isGradient ? 'opacity-50' : ''}`}>
+                <input
+                    type="checkbox"
+                    checked={settings.separations}
+                    onChange={(e) => update({ separations: e.target.checked })}
+                    disabled={isGradient}
+                    className="accent-[#27e47a]"
+                />
+                <span>Export ink separations (one grayscale PNG per ink)</span>
+            </label>
+        </div>
+    );
+}
@@ -0,0 +1,213 @@
+// Dithering and halftone render modes: quantize luminance to a few flat inks for print and risograph work.
+
+import { sampleGradient } from "./pinku-batched.filter";
+import { linearLuminanceLevel } from "./pinku-batched.colorspace";
+import type { ColorStop, RGB } from "./pinku-batched.palettes";
+
+export type RenderMode = "gradient" | "floyd-steinberg" | "atkinson" | "bayer" | "halftone";
+
+export interface DitherSettings {
+    mode: RenderMode;
+    /** Number of inks sampled from the gradient map, 2 to 8. Halftone always uses 2. */
+    levels: number;
+    /** Halftone cell size in pixels. */
+    cellSize: number;
+    /** Halftone screen angle in degrees. */
+    angle: number;
+    /** Also export one grayscale separation per ink. */
+    separations: boolean;
+}
+
+export const DEFAULT_DITHER_SETTINGS: DitherSettings = {
+    mode: "gradient",
+    levels: 2,
+    cellSize: 8,
+    angle: 45,
+    separations: false,
+};
+
+export const RENDER_MODES: { value: RenderMode; label: string }[] = [
+    { value: "gradient", label: "Smooth gradient" },
+    { value: "floyd-steinberg", label: "Floyd–Steinberg" },
+    { value: "atkinson", label: "Atkinson" },
+    { value: "bayer", label: "Ordered (Bayer 8×8)" },
+    { value: "halftone", label: "Halftone dots" },
+];
+
+// [dx, dy, weight] for each neighbour that receives part of the quantization error
+const DIFFUSION_KERNELS: Record<"floyd-steinberg" | "atkinson", [number, number, number][]> = {
+    "floyd-steinberg": [[1, 0, 7 / 16], [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16]],
+    // Atkinson only spreads 6/8 of the error, which keeps highlights and shadows clean
+    atkinson: [[1, 0, 1 / 8], [2, 0, 1 / 8], [-1, 1, 1 / 8], [0, 1, 1 / 8], [1, 1, 1 / 8], [0, 2, 1 / 8]],
+};
+
+const BAYER_8X8 = [
+    0, 32, 8, 40, 2, 34, 10, 42,
+    48, 16, 56, 24, 50, 18, 58, 26,
+    12, 44, 4, 36, 14, 46, 6, 38,
+    60, 28, 52, 20, 62, 30, 54, 22,
+    3, 35, 11, 43, 1, 33, 9, 41,
+    51, 19, 59, 27, 49, 17, 57, 25,
+    15, 47, 7, 39, 13, 45, 5, 37,
+    63, 31, 55, 23, 61, 29, 53, 21,
+];
+
+// Share of a unit cell covered by a centered dot of the given radius; past 0.5 the dot is clipped by the cell edges
+function dotCoverage(radius: number): number {
+    const area = Math.PI * radius * radius;
+    if (radius <= 0.5) return area;
+    const segment = (radius * radius * Math.acos(0.5 / radius)) - (0.5 * Math.sqrt((radius * radius) - 0.25));
+    return Math.min(1, area - (4 * segment));
+}
+
+/**
+ * Gets the number of inks a render mode produces.
+ * @param settings - The dither settings.
+ * @returns The ink count.
+ */
+export const getInkCount = (settings: DitherSettings) =>
+    settings.mode === "halftone" ? 2 : Math.min(8, Math.max(2, Math.round(settings.levels)));
+
+/**
+ * Quantizes luminance values to ink indices, where 0 is the darkest ink.
+ * @param luminance - One luminance value (0 to 255) per pixel. Error diffusion modifies it in place.
+ * @param width - The image width.
+ * @param height - The image height.
+ * @param settings - The dither settings; mode must not be "gradient".
+ * @returns One ink index per pixel.
+ */
+export function quantizeLuminance(luminance: Float32Array, width: number, height: number, settings: DitherSettings): Uint8Array {
+    const inkCount = getInkCount(settings);
+    const maxLevel = inkCount - 1;
+    const inkMap = new Uint8Array(width * height);
+
+    if (settings.mode === "floyd-steinberg" || settings.mode === "atkinson") {
+        const kernel = DIFFUSION_KERNELS[settings.mode];
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const i = y * width + x;
+                const level = Math.min(maxLevel, Math.max(0, Math.round((luminance[i] / 255) * maxLevel)));
+                const error = luminance[i] - (level * 255) / maxLevel;
+                inkMap[i] = level;
+                for (const [dx, dy, weight] of kernel) {
+                    const nx = x + dx;
+                    const ny = y + dy;
+                    if (nx >= 0 && nx < width && ny < height) luminance[ny * width + nx] += error * weight;
+                }
+            }
+        }
+    } else if (settings.mode === "bayer") {
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const i = y * width + x;
+                const value = (luminance[i] / 255) * maxLevel;
+                const base = Math.floor(value);
+                const threshold = (BAYER_8X8[(y % 8) * 8 + (x % 8)] + 0.5) / 64;
+                inkMap[i] = Math.min(maxLevel, base + (value - base > threshold ? 1 : 0));
+            }
+        }
+    } else if (settings.mode === "halftone") {
+        const cell = Math.max(2, settings.cellSize);
+        const radians = (settings.angle * Math.PI) / 180;
+        const cos = Math.cos(radians);
+        const sin = Math.sin(radians);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const i = y * width + x;
+                // Position inside the rotated screen cell, relative to the cell center
+                const u = (x * cos) + (y * sin);
+                const v = (y * cos) - (x * sin);
+                const du = u - (Math.floor(u / cell) + 0.5) * cell;
+                const dv = v - (Math.floor(v / cell) + 0.5) * cell;
+                // The pixel prints when the dot reaching it would cover no more of the cell than the darkness asks for
+                const darkness = 1 - Math.min(1, Math.max(0, luminance[i] / 255));
+                inkMap[i] = darkness > 0 && dotCoverage(Math.hypot(du, dv) / cell) < darkness ? 0 : 1;
+            }
+        }
+    }
+    return inkMap;
+}
+
+/**
+ * Renders one ink as a grayscale separation: black where the ink prints, white elsewhere.
+ * @param inkMap - The ink index per pixel from quantizeLuminance.
+ * @param ink - The ink to render.
+ * @param imageData - An ImageData of the same size to write into.
+ * @returns The separation.
+ */
+export function renderSeparation(inkMap: Uint8Array, ink: number, imageData: ImageData): ImageData {
+    const data = imageData.data;
+    for (let i = 0; i < inkMap.length; i++) {
+        const value = inkMap[i] === ink ? 0 : 255;
+        data[i * 4] = value;
+        data[i * 4 + 1] = value;
+        data[i * 4 + 2] = value;
+        data[i * 4 + 3] = 255;
+    }
+    return imageData;
+}
+
+/**
+ * Samples the inks from the gradient map, evenly spaced from the shadow end to the highlight end.
+ * @param stops - The gradient stops.
+ * @param inkCount - The number of inks.
+ * @returns The RGB array of every ink, darkest first.
+ */
+export const getInkColors = (stops: ColorStop[], inkCount: number): RGB[] =>
+    Array.from({ length: inkCount }, (_, ink) => sampleGradient(stops, ink / (inkCount - 1)).map(Math.round) as RGB);
+
+/**
+ * Writes the (tone-mapped) luminance of some pixels into a luminance plane.
+ * @param data - RGBA pixels, e.g. one tile of a larger image.
+ * @param weights - The luminance weights.
+ * @param curve - The tone curve, or null.
+ * @param luminance - The plane to write into.
+ * @param offset - Index in the plane of the first pixel.
+ * @param linear - Compute luminance in linear light.
+ */
+export function computeLuminance(data: Uint8ClampedArray, weights: [number, number, number], curve: Uint8ClampedArray | null, luminance: Float32Array, offset = 0, linear = false) {
+    const [rWeight, gWeight, bWeight] = weights;
+    for (let i = 0; i < data.length / 4; i++) {
+        const value = linear
+            ? linearLuminanceLevel(data[i * 4], data[i * 4 + 1], data[i * 4 + 2], weights)
+            : Math.round((data[i * 4] * rWeight) + (data[i * 4 + 1] * gWeight) + (data[i * 4 + 2] * bWeight));
+        luminance[offset + i] = curve ? curve[value] : value;
+    }
+}
+
+/**
+ * Colors pixels with their inks, keeping alpha.
+ * @param data - RGBA pixels, e.g. one tile of a larger image.
+ * @param inkMap - The ink index of each of those pixels.
+ * @param inks - The ink colors from getInkColors.
+ */
+export function applyInks(data: Uint8ClampedArray, inkMap: Uint8Array, inks: RGB[]) {
+    for (let i = 0; i < inkMap.length; i++) {
+        const color = inks[inkMap[i]];
+        data[i * 4] = color[0];
+        data[i * 4 + 1] = color[1];
+        data[i * 4 + 2] = color[2];
+    }
+}
+
+/**
+ * Replaces an image with flat inks using the chosen dithering or halftone method.
+ * @param imageData - The ImageData object from a canvas.
+ * @param options - The gradient stops, luminance weights and space, optional tone curve and dither settings.
+ * @returns The ink index per pixel, for rendering separations.
+ */
+export function ditherImage(imageData: ImageData, options: {
+    stops: ColorStop[];
+    weights: [number, number, number];
+    linear: boolean;
+    curve: Uint8ClampedArray | null;
+    settings: DitherSettings;
+}): Uint8Array {
+    const { data, width, height } = imageData;
+    const luminance = new Float32Array(width * height);
+    computeLuminance(data, options.weights, options.curve, luminance, 0, options.linear);
+
+    const inkMap = quantizeLuminance(luminance, width, height, options.settings);
+    applyInks(data, inkMap, getInkColors(options.stops, getInkCount(options.settings)));
+    return inkMap;
+}
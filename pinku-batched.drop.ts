@@ -0,0 +1,71 @@
+// Helpers for collecting image files from drag-and-drop, including whole dropped folders.
+
+export interface QueuedFile {
+    file: File;
+    /** Path relative to the dropped folder (e.g. "trip/day1/photo.jpg"), or just the file name. */
+    relativePath: string;
+}
+
+/**
+ * Checks whether a file looks like an image, the same way the file picker's accept="image/*" does.
+ * @param file - The file to check.
+ * @returns True if the MIME type is an image type.
+ */
+export const isImageFile = (file: File) => file.type.startsWith("image/");
+
+/**
+ * Wraps plain files (from the file picker or the clipboard) as queue entries.
+ * @param files - The files to wrap.
+ * @returns The queue entries, using each file name as its relative path.
+ */
+export const toQueuedFiles = (files: File[]): QueuedFile[] =>
+    files.map(file => ({ file, relativePath: file.webkitRelativePath || file.name }));
+
+const readFile = (entry: FileSystemFileEntry) =>
+    new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries() returns directory contents in batches, so it has to be called until it returns nothing
+async function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) return entries;
+        entries.push(...batch);
+    }
+}
+
+async function collectEntry(entry: FileSystemEntry, parentPath: string): Promise<QueuedFile[]> {
+    const relativePath = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+    if (entry.isFile) {
+        const file = await readFile(entry as FileSystemFileEntry);
+        return isImageFile(file) ? [{ file, relativePath }] : [];
+    }
+    if (entry.isDirectory) {
+        const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+        const nested = await Promise.all(children.map(child => collectEntry(child, relativePath)));
+        return nested.flat();
+    }
+    return [];
+}
+
+/**
+ * Collects every image from a drop, recursing into dropped directories through the entries API.
+ * Browsers without webkitGetAsEntry fall back to the flat file list.
+ * @param dataTransfer - The DataTransfer from the drop event.
+ * @returns The dropped images with their folder-relative paths.
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<QueuedFile[]> {
+    // Entries must be grabbed synchronously: the DataTransfer is emptied once the event handler returns
+    const entries = Array.from(dataTransfer.items)
+        .filter(item => item.kind === "file")
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+
+    if (entries.length === 0) {
+        return toQueuedFiles(Array.from(dataTransfer.files).filter(isImageFile));
+    }
+
+    const collected = await Promise.all(entries.map(entry => collectEntry(entry, "")));
+    return collected.flat();
+}
@@ -0,0 +1,290 @@
+// JPEG metadata handling: reads EXIF/XMP from APP1 segments so orientation can be applied
+// explicitly, and copies those segments into re-encoded JPEG output when metadata is kept.
+
+export interface JpegMetadata {
+    /** EXIF orientation from 1 (upright) to 8, taken from EXIF or, failing that, XMP. */
+    orientation: number;
+    copyright?: string;
+    artist?: string;
+    dateTimeOriginal?: string;
+    /** Complete APP1 segments (marker included), ready to be inserted into another JPEG. */
+    segments: Uint8Array[];
+}
+
+const EXIF_HEADER = "Exif\0\0";
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_ARTIST = 0x013b;
+const TAG_COPYRIGHT = 0x8298;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_PIXEL_X_DIMENSION = 0xa002;
+const TAG_PIXEL_Y_DIMENSION = 0xa003;
+const TAG_THUMBNAIL_OFFSET = 0x0201;
+const TAG_THUMBNAIL_LENGTH = 0x0202;
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+
+/**
+ * Checks for the JPEG start-of-image marker.
+ * @param bytes - The file contents.
+ * @returns True if the bytes look like a JPEG.
+ */
+export const isJpeg = (bytes: Uint8Array) => bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8;
+
+const readAscii = (bytes: Uint8Array, start: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+interface ExifFields {
+    orientation?: number;
+    /** Offset of the orientation value inside the segment, so it can be reset to 1 on copy. */
+    orientationOffset?: number;
+    /** Offset of the link from IFD0 to IFD1, which holds the thumbnail of the unfiltered image. */
+    thumbnailLinkOffset?: number;
+    /** Where the thumbnail JPEG sits inside the segment. */
+    thumbnail?: { start: number; length: number };
+    /** Offset of the Exif IFD, whose pixel dimensions no longer hold for re-encoded output. */
+    exifIfdStart?: number;
+    copyright?: string;
+    artist?: string;
+    dateTimeOriginal?: string;
+}
+
+// Every read is checked against the segment, since truncated or corrupt EXIF blocks are common in the wild
+function parseExif(segment: Uint8Array, tiffStart: number): ExifFields {
+    const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+    const fields: ExifFields = {};
+    if (tiffStart + 8 > segment.length) return fields;
+    const byteOrder = view.getUint16(tiffStart);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return fields;
+    const littleEndian = byteOrder === 0x4949;
+
+    const readString = (entry: number) => {
+        const count = view.getUint32(entry + 4, littleEndian);
+        const start = count <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, littleEndian);
+        if (start + count > segment.length) return undefined;
+        return readAscii(segment, start, count).replace(/\0+$/, "").trim() || undefined;
+    };
+
+    // Returns the offset of the link to the next IFD, or undefined if the IFD runs past the segment
+    const readIfd = (offset: number, visit: (tag: number, type: number, entry: number) => void) => {
+        const ifdStart = tiffStart + offset;
+        if (ifdStart + 2 > segment.length) return undefined;
+        const count = view.getUint16(ifdStart, littleEndian);
+        for (let i = 0; i < count; i++) {
+            const entry = ifdStart + 2 + i * 12;
+            if (entry + 12 > segment.length) return undefined;
+            visit(view.getUint16(entry, littleEndian), view.getUint16(entry + 2, littleEndian), entry);
+        }
+        const link = ifdStart + 2 + count * 12;
+        return link + 4 <= segment.length ? link : undefined;
+    };
+
+    let exifIfdOffset: number | undefined;
+    const ifd1Link = readIfd(view.getUint32(tiffStart + 4, littleEndian), (tag, type, entry) => {
+        if (tag === TAG_ORIENTATION && type === TYPE_SHORT) {
+            fields.orientation = view.getUint16(entry + 8, littleEndian);
+            fields.orientationOffset = entry + 8;
+        } else if (tag === TAG_COPYRIGHT && type === TYPE_ASCII) {
+            fields.copyright = readString(entry);
+        } else if (tag === TAG_ARTIST && type === TYPE_ASCII) {
+            fields.artist = readString(entry);
+        } else if (tag === TAG_EXIF_IFD) {
+            exifIfdOffset = view.getUint32(entry + 8, littleEndian);
+        }
+    });
+
+    if (exifIfdOffset !== undefined) {
+        const link = readIfd(exifIfdOffset, (tag, type, entry) => {
+            if (tag === TAG_DATE_TIME_ORIGINAL && type === TYPE_ASCII) fields.dateTimeOriginal = readString(entry);
+        });
+        if (link !== undefined) fields.exifIfdStart = tiffStart + exifIfdOffset;
+    }
+
+    const ifd1Offset = ifd1Link !== undefined ? view.getUint32(ifd1Link, littleEndian) : 0;
+    if (ifd1Offset !== 0) {
+        fields.thumbnailLinkOffset = ifd1Link;
+        let start: number | undefined;
+        let length: number | undefined;
+        readIfd(ifd1Offset, (tag, _type, entry) => {
+            if (tag === TAG_THUMBNAIL_OFFSET) start = tiffStart + view.getUint32(entry + 8, littleEndian);
+            if (tag === TAG_THUMBNAIL_LENGTH) length = view.getUint32(entry + 8, littleEndian);
+        });
+        if (start !== undefined && length !== undefined && start + length <= segment.length) fields.thumbnail = { start, length };
+    }
+    return fields;
+}
+
+// Removes entries from an IFD in place, moving the later entries and the link to the next IFD up
+function removeIfdEntries(segment: Uint8Array, ifdStart: number, littleEndian: boolean, tags: number[]) {
+    const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+    const count = view.getUint16(ifdStart, littleEndian);
+    const end = ifdStart + 2 + count * 12 + 4;
+    let kept = 0;
+    for (let i = 0; i < count; i++) {
+        const entry = ifdStart + 2 + i * 12;
+        if (tags.includes(view.getUint16(entry, littleEndian))) continue;
+        segment.copyWithin(ifdStart + 2 + kept * 12, entry, entry + 12);
+        kept++;
+    }
+    segment.copyWithin(ifdStart + 2 + kept * 12, end - 4, end);
+    segment.fill(0, ifdStart + 2 + kept * 12 + 4, end);
+    view.setUint16(ifdStart, kept, littleEndian);
+}
+
+// Makes a copied EXIF block describe the filtered output: upright, and without the thumbnail and pixel
+// dimensions of the original. A thumbnail at the end of the block is cut off; anywhere else it is blanked.
+function cleanExifSegment(segment: Uint8Array, fields: ExifFields, littleEndian: boolean): Uint8Array {
+    const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+    if (fields.orientationOffset !== undefined) view.setUint16(fields.orientationOffset, 1, littleEndian);
+    if (fields.exifIfdStart !== undefined) {
+        removeIfdEntries(segment, fields.exifIfdStart, littleEndian, [TAG_PIXEL_X_DIMENSION, TAG_PIXEL_Y_DIMENSION]);
+    }
+    if (fields.thumbnailLinkOffset !== undefined) view.setUint32(fields.thumbnailLinkOffset, 0, littleEndian);
+    if (!fields.thumbnail) return segment;
+
+    const { start, length } = fields.thumbnail;
+    if (start + length < segment.length) {
+        segment.fill(0, start, start + length);
+        return segment;
+    }
+    const trimmed = segment.slice(0, start);
+    new DataView(trimmed.buffer).setUint16(2, trimmed.length - 2);
+    return trimmed;
+}
+
+function parseXmpOrientation(xmp: string): number | undefined {
+    const match = xmp.match(/tiff:Orientation(?:="|>)(\d)/);
+    return match ? Number(match[1]) : undefined;
+}
+
+// Sets every tiff:Orientation value in an XMP segment to 1 in place; the digit is ASCII, so the length stays the same
+function resetXmpOrientation(segment: Uint8Array) {
+    const name = Array.from("tiff:Orientation", char => char.charCodeAt(0));
+    for (let i = 0; i + name.length + 2 < segment.length; i++) {
+        if (!name.every((code, j) => segment[i + j] === code)) continue;
+        let digit = i + name.length;
+        if (segment[digit] === 0x3d && segment[digit + 1] === 0x22) {
+            digit += 2; // ="
+        } else if (segment[digit] === 0x3e) {
+            digit += 1; // >
+        } else {
+            continue;
+        }
+        if (segment[digit] >= 0x30 && segment[digit] <= 0x39) segment[digit] = 0x31;
+    }
+}
+
+/**
+ * Reads orientation, copyright, artist and capture date from a JPEG's EXIF and XMP segments.
+ * @param bytes - The JPEG file contents.
+ * @returns The parsed metadata; orientation is 1 when none is recorded.
+ */
+export function readJpegMetadata(bytes: Uint8Array): JpegMetadata {
+    const metadata: JpegMetadata = { orientation: 1, segments: [] };
+    if (!isJpeg(bytes)) return metadata;
+
+    let exifOrientation: number | undefined;
+    let xmpOrientation: number | undefined;
+    let offset = 2;
+
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        // Start of scan: the remaining bytes are image data
+        if (marker === 0xda) break;
+        // Standalone markers have no length field
+        if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+            offset += 2;
+            continue;
+        }
+
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        const end = offset + 2 + length;
+        if (length < 2 || end > bytes.length) break;
+
+        if (marker === 0xe1) {
+            const segment = bytes.slice(offset, end);
+            if (readAscii(segment, 4, EXIF_HEADER.length) === EXIF_HEADER) {
+                let fields: ExifFields;
+                try {
+                    fields = parseExif(segment, 4 + EXIF_HEADER.length);
+                } catch {
+                    // An unreadable block is dropped rather than copied with an orientation that may no longer hold
+                    offset = end;
+                    continue;
+                }
+                exifOrientation = fields.orientation;
+                metadata.copyright = fields.copyright;
+                metadata.artist = fields.artist;
+                metadata.dateTimeOriginal = fields.dateTimeOriginal;
+                // The pixels are rotated on decode and filtered, so the copy must not describe the original pixels
+                metadata.segments.push(cleanExifSegment(segment, fields, segment[4 + EXIF_HEADER.length] === 0x49));
+            } else if (readAscii(segment, 4, XMP_HEADER.length) === XMP_HEADER) {
+                const xmp = new TextDecoder().decode(segment.subarray(4 + XMP_HEADER.length));
+                xmpOrientation = parseXmpOrientation(xmp);
+                // The pixels are rotated on decode, so the copied XMP must say "upright" too
+                if (xmpOrientation !== undefined) resetXmpOrientation(segment);
+                metadata.segments.push(segment);
+            }
+        }
+        offset = end;
+    }
+
+    const orientation = exifOrientation ?? xmpOrientation ?? 1;
+    metadata.orientation = orientation >= 1 && orientation <= 8 ? orientation : 1;
+    return metadata;
+}
+
+/**
+ * Inserts APP1 metadata segments into a JPEG, after the SOI marker and any JFIF APP0 segment.
+ * @param jpeg - The encoded JPEG without metadata.
+ * @param segments - Complete APP1 segments from readJpegMetadata.
+ * @returns The JPEG with the segments embedded.
+ */
+export function embedJpegSegments(jpeg: Uint8Array<ArrayBuffer>, segments: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    if (!isJpeg(jpeg) || segments.length === 0) return jpeg;
+
+    let insertAt = 2;
+    if (jpeg[2] === 0xff && jpeg[3] === 0xe0) {
+        insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+    }
+
+    const inserted = segments.reduce((size, segment) => size + segment.length, 0);
+    const output = new Uint8Array(jpeg.length + inserted);
+    output.set(jpeg.subarray(0, insertAt), 0);
+    let offset = insertAt;
+    for (const segment of segments) {
+        output.set(segment, offset);
+        offset += segment.length;
+    }
+    output.set(jpeg.subarray(insertAt), offset);
+    return output;
+}
+
+/**
+ * Gets the size of the upright image and the canvas transform that turns raw pixels upright.
+ * @param orientation - The EXIF orientation from 1 to 8.
+ * @param width - The raw (unrotated) pixel width.
+ * @param height - The raw (unrotated) pixel height.
+ * @returns The output size and the transform matrix for CanvasRenderingContext2D.transform().
+ */
+export function getOrientationTransform(orientation: number, width: number, height: number) {
+    const swapsAxes = orientation >= 5;
+    const transforms: Record<number, [number, number, number, number, number, number]> = {
+        1: [1, 0, 0, 1, 0, 0],
+        2: [-1, 0, 0, 1, width, 0],
+        3: [-1, 0, 0, -1, width, height],
+        4: [1, 0, 0, -1, 0, height],
+        5: [0, 1, 1, 0, 0, 0],
+        6: [0, 1, -1, 0, height, 0],
+        7: [0, -1, -1, 0, height, width],
+        8: [0, -1, 1, 0, 0, width],
+    };
+    return {
+        width: swapsAxes ? height : width,
+        height: swapsAxes ? width : height,
+        matrix: transforms[orientation] ?? transforms[1],
+    };
+}
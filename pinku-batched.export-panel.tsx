@@ -0,0 +1,106 @@
+import { formatOutputName, isLossyFormat, NAME_TOKENS, resolveOutputType, type AnimationOutput, type ExportSettings, type OutputFormat } from "./pinku-batched.export";
+
+const FORMAT_OPTIONS: { value: OutputFormat; label: string }[] = [
+    { value: "original", label: "Keep original" },
+    { value: "image/png", label: "PNG" },
+    { value: "image/jpeg", label: "JPEG" },
+    { value: "image/webp", label: "WebP" },
+];
+
+const ANIMATION_OPTIONS: { value: AnimationOutput; label: string }[] = [
+    { value: "keep", label: "Keep GIF / APNG" },
+    { value: "gif", label: "Animated GIF" },
+    { value: "apng", label: "Animated PNG" },
+    { value: "static", label: "First frame only" },
+];
+
+export interface ExportPanelProps {
+    settings: ExportSettings;
+    onChange: (settings: ExportSettings) => void;
+    /** Used for the live name example. */
+    sample: { relativePath: string; type: string; total: number; palette: string; preset?: string };
+}
+
+export default function ExportPanel({ settings, onChange, sample }: ExportPanelProps) {
+    const update = (changes: Partial<ExportSettings>) => onChange({ ...settings, ...changes });
+    const exampleName = formatOutputName(settings.nameTemplate, {
+        relativePath: sample.relativePath,
+        index: 0,
+        total: sample.total,
+        palette: sample.palette,
+        date: new Date(),
+        mimeType: resolveOutputType(settings.format, sample.type),
+        preset: sample.preset,
+    });
+
+    return (
+        <div className="bg-black/20 rounded-xl p-4 mb-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 text-sm">
+            <label className="flex flex-col gap-1.5">
+                <span className="text-[#a4d7ba]">Output format</span>
+                <select
+                    value={settings.format}
+                    onChange={(e) => update({ format: e.target.value as OutputFormat })}
+                    className="bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30"
+                >
+                    {FORMAT_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </label>
+
+            <label className={`flex flex-col gap-1.5 ${isLossyFormat(settings.format) ? '' : 'opacity-50'}`}>
+                <span className="text-[#a4d7ba]">Quality: {Math.round(settings.quality * 100)}%</span>
+                <input
+                    type="range"
+                    min={10}
+                    max={100}
+                    value={Math.round(settings.quality * 100)}
+                    onChange={(e) => update({ quality: Number(e.target.value) / 100 })}
+                    disabled={!isLossyFormat(settings.format)}
+                    className="accent-[#27e47a] mt-2"
+                />
+                <span className="text-xs text-[#a4d7ba]/80">Applies to JPEG and WebP only</span>
+            </label>
+
+            <label className="flex flex-col gap-1.5">
+                <span className="text-[#a4d7ba]">Metadata</span>
+                <select
+                    value={settings.metadata}
+                    onChange={(e) => update({ metadata: e.target.value as ExportSettings["metadata"] })}
+                    className="bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30"
+                >
+                    <option value="strip">Strip all (privacy)</option>
+                    <option value="keep">Keep EXIF &amp; XMP</option>
+                </select>
+                <span className="text-xs text-[#a4d7ba]/80">Kept for JPEG sources saved as JPEG; orientation is always applied</span>
+            </label>
+
+            <label className="flex flex-col gap-1.5">
+                <span className="text-[#a4d7ba]">Animations</span>
+                <select
+                    value={settings.animation}
+                    onChange={(e) => update({ animation: e.target.value as AnimationOutput })}
+                    className="bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30"
+                >
+                    {ANIMATION_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+                <span className="text-xs text-[#a4d7ba]/80">Every frame is filtered; GIF output is limited to 256 colors per frame</span>
+            </label>
+
+            <label className="flex flex-col gap-1.5">
+                <span className="text-[#a4d7ba]">File name</span>
+                <input
+                    type="text"
+                    value={settings.nameTemplate}
+                    onChange={(e) => update({ nameTemplate: e.target.value })}
+                    className="bg-[#010c05]/50 rounded-md px-3 py-2 font-mono text-xs border border-[#a4d7ba]/30"
+                />
+                <span className="text-xs text-[#a4d7ba]/80 truncate" title={NAME_TOKENS.map(t => `${t.token}: ${t.description}`).join("\n")}>
+                    {NAME_TOKENS.map(t => t.token).join(" ")} → <span className="font-mono text-[#ececec]">{exampleName}</span>
+                </span>
+            </label>
+        </div>
+    );
+}
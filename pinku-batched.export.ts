@@ -0,0 +1,140 @@
+// Output format and file-naming settings for processed results.
+
+export type OutputFormat = "original" | "image/png" | "image/jpeg" | "image/webp";
+
+/** How animated GIF and APNG sources are saved; "static" keeps only the first frame, like any other image. */
+export type AnimationOutput = "keep" | "gif" | "apng" | "static";
+
+export interface ExportSettings {
+    format: OutputFormat;
+    /** Encoder quality from 0 to 1, used by the lossy formats only. */
+    quality: number;
+    /** File name template; the extension is added automatically. See NAME_TOKENS. */
+    nameTemplate: string;
+    /** Whether JPEG output keeps the source EXIF/XMP (copyright, capture date, ...) or drops it for privacy. */
+    metadata: "strip" | "keep";
+    /** Output for animated sources, which ignore `format` unless this is "static". */
+    animation: AnimationOutput;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+    format: "image/png",
+    quality: 0.92,
+    nameTemplate: "pinku_{name}",
+    metadata: "strip",
+    animation: "keep",
+};
+
+export const NAME_TOKENS: { token: string; description: string }[] = [
+    { token: "{name}", description: "original file name without extension" },
+    { token: "{index}", description: "position in the queue, zero-padded" },
+    { token: "{palette}", description: "palette name" },
+    { token: "{date}", description: "today's date (YYYY-MM-DD)" },
+    { token: "{preset}", description: "resize preset or size; added at the end when resizing and missing" },
+];
+
+const ENCODABLE_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
+const EXTENSIONS: Record<string, string> = {
+    "image/png": "png",
+    "image/jpeg": "jpg",
+    "image/webp": "webp",
+    "image/gif": "gif",
+};
+
+// Characters that are not allowed in file names on common platforms
+const INVALID_NAME_CHARACTERS = /[\\/:*?"<>|\x00-\x1f]/g;
+
+/**
+ * Checks whether a format can use the quality setting.
+ * @param format - The chosen output format.
+ * @returns True for JPEG, WebP and "original" (which may resolve to either).
+ */
+export const isLossyFormat = (format: OutputFormat) => format !== "image/png";
+
+/**
+ * Resolves the MIME type a result should be encoded as.
+ * "original" keeps the source type when a canvas can encode it and falls back to PNG otherwise.
+ * @param format - The chosen output format.
+ * @param sourceType - The MIME type of the source file.
+ * @returns The MIME type to encode with.
+ */
+export function resolveOutputType(format: OutputFormat, sourceType: string): string {
+    if (format !== "original") return format;
+    return ENCODABLE_TYPES.includes(sourceType) ? sourceType : "image/png";
+}
+
+/**
+ * Gets the file extension for an encoded image type.
+ * @param mimeType - The MIME type of the encoded image.
+ * @returns The extension without a leading dot.
+ */
+export const extensionFor = (mimeType: string) => EXTENSIONS[mimeType] ?? "png";
+
+/**
+ * Turns a name into a lowercase, dash-separated file name part.
+ * @param value - The name, e.g. a palette name.
+ * @returns The slug, or "" if nothing usable is left.
+ */
+export const slugify = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+const formatDate = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+export interface OutputNameContext {
+    /** The source path, which may include folders from a dropped directory. */
+    relativePath: string;
+    /** Zero-based position of the file in the queue. */
+    index: number;
+    /** Number of files in the queue, used to pad {index}. */
+    total: number;
+    palette: string;
+    date: Date;
+    /** The MIME type the result was actually encoded as. */
+    mimeType: string;
+    /** Tag of the resize step from resizeTag, empty when images keep their size. */
+    preset?: string;
+}
+
+/**
+ * Builds the output file name from a template, keeping the source folders in front of it.
+ * @param template - The name template, e.g. "pinku_{name}".
+ * @param context - The values for the template tokens.
+ * @returns The output path with the extension that matches the encoded type.
+ */
+export function formatOutputName(template: string, context: OutputNameContext): string {
+    const slash = context.relativePath.lastIndexOf("/");
+    const folder = context.relativePath.slice(0, slash + 1);
+    const fileName = context.relativePath.slice(slash + 1);
+    const dot = fileName.lastIndexOf(".");
+    const name = dot > 0 ? fileName.slice(0, dot) : fileName;
+
+    const tokens: Record<string, string> = {
+        name,
+        index: String(context.index + 1).padStart(String(context.total).length, "0"),
+        palette: slugify(context.palette) || "custom",
+        date: formatDate(context.date),
+        preset: context.preset ?? "",
+    };
+
+    // A resized result always names its preset, so it cannot be mistaken for a full-size one
+    const withPreset = context.preset && !template.includes("{preset}") ? `${template}_{preset}` : template;
+    const stem = withPreset
+        .replace(/\{(\w+)\}/g, (match, token: string) => tokens[token] ?? match)
+        .replace(INVALID_NAME_CHARACTERS, "_")
+        .trim();
+
+    return `${folder}${stem || name}.${extensionFor(context.mimeType)}`;
+}
+
+/**
+ * Derives the file name of an ink separation from the name of its result.
+ * @param outputName - The result's output path from formatOutputName.
+ * @param ink - Zero-based ink index, darkest first.
+ * @returns The separation path, always a PNG.
+ */
+export function separationName(outputName: string, ink: number): string {
+    const dot = outputName.lastIndexOf(".");
+    const stem = dot > outputName.lastIndexOf("/") + 1 ? outputName.slice(0, dot) : outputName;
+    return `${stem}_ink${ink + 1}.png`;
+}
@@ -0,0 +1,83 @@
+import { duotoneStops, type ColorStop, type RGB } from "./pinku-batched.palettes";
+import { LUMINANCE_WEIGHTS } from "./pinku-batched.tone";
+import { linearLuminanceLevel } from "./pinku-batched.colorspace";
+
+/**
+ * Samples a gradient map at a luminance position, interpolating between the surrounding stops.
+ * Positions outside the first and last stop take that stop's color.
+ * @param stops - The gradient stops, in any order.
+ * @param position - The luminance position from 0 to 1.
+ * @returns The RGB array at that position.
+ */
+export function sampleGradient(stops: ColorStop[], position: number): RGB {
+    const sorted = [...stops].sort((a, b) => a.position - b.position);
+    if (position <= sorted[0].position) return sorted[0].color;
+    const last = sorted[sorted.length - 1];
+    if (position >= last.position) return last.color;
+
+    const upperIndex = sorted.findIndex(stop => stop.position >= position);
+    const lower = sorted[upperIndex - 1];
+    const upper = sorted[upperIndex];
+    const span = upper.position - lower.position;
+    const t = span === 0 ? 1 : (position - lower.position) / span;
+    return lower.color.map((channel, i) => (channel * (1 - t)) + (upper.color[i] * t)) as RGB;
+}
+
+/** Look-up tables from luminance (0 to 255) to each output channel. */
+export interface LUT {
+    rLUT: Uint8ClampedArray;
+    gLUT: Uint8ClampedArray;
+    bLUT: Uint8ClampedArray;
+}
+
+/**
+ * Generates Look-Up Tables (LUTs) by sampling an arbitrary gradient map at every luminance level.
+ * @param stops - The gradient stops. At least one stop is required.
+ * @returns An object containing the r, g, and b LUTs.
+ */
+export function generateGradientLUTs(stops: ColorStop[]): LUT {
+    const rLUT = new Uint8ClampedArray(256);
+    const gLUT = new Uint8ClampedArray(256);
+    const bLUT = new Uint8ClampedArray(256);
+
+    for (let i = 0; i < 256; i++) {
+        const [r, g, b] = sampleGradient(stops, i / 255.0);
+        rLUT[i] = r;
+        gLUT[i] = g;
+        bLUT[i] = b;
+    }
+    return { rLUT, gLUT, bLUT };
+}
+
+/**
+ * Generates Look-Up Tables (LUTs) for color mapping based on shadow and highlight colors.
+ * @param shadowColor - The RGB array for the shadow color.
+ * @param highlightColor - The RGB array for the highlight color.
+ * @returns An object containing the r, g, and b LUTs.
+ */
+export function generateLUTs(shadowColor: RGB, highlightColor: RGB): LUT {
+    return generateGradientLUTs(duotoneStops(shadowColor, highlightColor));
+}
+
+/**
+ * Applies the duotone filter to an image's data using the provided LUTs.
+ * @param imageData - The ImageData object from a canvas, or any RGBA pixel buffer such as a decoded RawImage.
+ * @param luts - The Look-Up Tables for r, g, and b channels.
+ * @param weights - The RGB luminance weights, Rec.709 by default.
+ * @param linear - Compute luminance in linear light instead of from the gamma-encoded channels.
+ * @returns The modified ImageData.
+ */
+export function filtering<T extends { data: Uint8ClampedArray }>(imageData: T, luts: LUT, weights: [number, number, number] = LUMINANCE_WEIGHTS.rec709, linear = false): T {
+    const data = imageData.data;
+    const [rWeight, gWeight, bWeight] = weights;
+    for (let i = 0; i < data.length; i += 4) {
+        const r = data[i];
+        const g = data[i + 1];
+        const b = data[i + 2];
+        const luminanceInt = linear ? linearLuminanceLevel(r, g, b, weights) : Math.round((r * rWeight) + (g * gWeight) + (b * bWeight));
+        data[i] = luts.rLUT[luminanceInt];
+        data[i + 1] = luts.gLUT[luminanceInt];
+        data[i + 2] = luts.bLUT[luminanceInt];
+    }
+    return imageData;
+}
@@ -0,0 +1,68 @@
+// Image format detection from file signatures, so files the browser cannot decode are caught
+// before a batch starts instead of failing halfway through it. MIME types from the OS are not
+// trusted: renamed files and iPhone HEIC photos often arrive as "image/jpeg" or with no type at all.
+
+import { isJpeg } from "./pinku-batched.exif";
+import { isGif } from "./pinku-batched.gif";
+
+export interface ImageFormat {
+    /** Short display name, e.g. "HEIC". */
+    name: string;
+    mimeType: string;
+    /** True if browsers can decode it into a canvas, including inside a worker. */
+    supported: boolean;
+}
+
+const format = (name: string, mimeType: string, supported: boolean): ImageFormat => ({ name, mimeType, supported });
+
+// ISO base media brands; HEIF containers that also list "avif" are AVIF images
+const HEIF_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"];
+const AVIF_BRANDS = ["avif", "avis"];
+
+/**
+ * Identifies an image format from the first bytes of a file.
+ * @param bytes - The start of the file; 64 bytes are enough for every format known here.
+ * @returns The format, or null if the signature is not recognized.
+ */
+export function sniffImageFormat(bytes: Uint8Array): ImageFormat | null {
+    const ascii = (start: number, length: number) => String.fromCharCode(...bytes.subarray(start, start + length));
+
+    if (isJpeg(bytes)) return format("JPEG", "image/jpeg", true);
+    if (bytes.length >= 8 && ascii(1, 3) === "PNG") return format("PNG", "image/png", true);
+    if (isGif(bytes)) return format("GIF", "image/gif", true);
+    if (bytes.length >= 12 && ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") return format("WebP", "image/webp", true);
+    if (bytes.length >= 2 && ascii(0, 2) === "BM") return format("BMP", "image/bmp", true);
+    if (bytes.length >= 4 && bytes[0] === 0 && bytes[1] === 0 && bytes[2] === 1 && bytes[3] === 0) return format("ICO", "image/x-icon", true);
+
+    if (bytes.length >= 12 && ascii(4, 4) === "ftyp") {
+        const boxSize = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0);
+        const brands = [ascii(8, 4)];
+        for (let offset = 16; offset + 4 <= Math.min(boxSize, bytes.length); offset += 4) brands.push(ascii(offset, 4));
+        if (brands.some(brand => AVIF_BRANDS.includes(brand))) return format("AVIF", "image/avif", true);
+        if (brands.some(brand => HEIF_BRANDS.includes(brand))) return format("HEIC", "image/heic", false);
+        return null;
+    }
+
+    if (bytes.length >= 4 && (ascii(0, 4) === "II*\0" || ascii(0, 4) === "MM\0*")) return format("TIFF", "image/tiff", false);
+    if ((bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0x0a) || (bytes.length >= 12 && ascii(4, 8) === "JXL \r\n\x87\n")) {
+        return format("JPEG XL", "image/jxl", false);
+    }
+    if (bytes.length >= 4 && ascii(0, 4) === "8BPS") return format("PSD", "image/vnd.adobe.photoshop", false);
+
+    const text = ascii(0, Math.min(bytes.length, 256)).replace(/^\xEF\xBB\xBF/, "").trimStart();
+    if (text.startsWith("<svg") || (text.startsWith("<?xml") && text.includes("<svg"))) return format("SVG", "image/svg+xml", false);
+    return null;
+}
+
+/**
+ * Explains why a file cannot be filtered, in words suitable for the queue.
+ * @param format - The result of sniffImageFormat.
+ * @returns The reason, or null if the format is supported.
+ */
+export function describeUnsupported(format: ImageFormat | null): string | null {
+    if (!format) return "Not a recognized image format";
+    if (format.supported) return null;
+    if (format.name === "HEIC") return "HEIC photos cannot be decoded by most browsers; export them as JPEG first";
+    if (format.name === "SVG") return "SVG is a vector format; export it as PNG first";
+    return `${format.name} images cannot be decoded by the browser; convert them to PNG or JPEG first`;
+}
@@ -0,0 +1,457 @@
+// Pure TypeScript GIF decoder and encoder that keeps every frame of an animation.
+// Frames stay as the rectangles stored in the file, so disposal, offsets and delays survive a round trip.
+
+import type { Animation, AnimationFrame, Disposal } from "./pinku-batched.animation";
+
+const MAX_CODES = 4096;
+
+const DISPOSALS: Disposal[] = ["none", "none", "background", "previous"];
+
+/**
+ * Checks the GIF signature.
+ * @param bytes - The file contents.
+ * @returns True for GIF87a and GIF89a files.
+ */
+export const isGif = (bytes: Uint8Array) =>
+    bytes.length > 6 && String.fromCharCode(...bytes.subarray(0, 6)).match(/^GIF8[79]a$/) !== null;
+
+// --- Block walking ---
+
+interface GifFrameHeader {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    delay: number;
+    disposal: Disposal;
+    transparentIndex: number | null;
+    interlaced: boolean;
+    palette: Uint8Array;
+    minCodeSize: number;
+    /** The LZW data with the sub-block length bytes removed. */
+    data: Uint8Array;
+}
+
+interface GifFile {
+    width: number;
+    height: number;
+    loopCount: number;
+    frames: GifFrameHeader[];
+}
+
+function readSubBlocks(bytes: Uint8Array, start: number): { data: Uint8Array; end: number } {
+    let length = 0;
+    let position = start;
+    while (position < bytes.length && bytes[position] !== 0) {
+        length += bytes[position];
+        position += bytes[position] + 1;
+    }
+    const data = new Uint8Array(length);
+    let offset = 0;
+    for (let cursor = start; cursor < position; cursor += bytes[cursor] + 1) {
+        data.set(bytes.subarray(cursor + 1, cursor + 1 + bytes[cursor]), offset);
+        offset += bytes[cursor];
+    }
+    return { data, end: position + 1 };
+}
+
+/**
+ * Parses the structure of a GIF without decompressing any pixels.
+ * @param bytes - The GIF file contents.
+ * @returns The screen size, loop count and the compressed frames.
+ */
+function parseGif(bytes: Uint8Array): GifFile {
+    if (!isGif(bytes)) throw new Error("Not a GIF file");
+    const readUint16 = (position: number) => bytes[position] | (bytes[position + 1] << 8);
+
+    const width = readUint16(6);
+    const height = readUint16(8);
+    const screenFlags = bytes[10];
+    let position = 13;
+    let globalPalette = new Uint8Array(0);
+    if (screenFlags & 0x80) {
+        const size = 3 * (1 << ((screenFlags & 7) + 1));
+        globalPalette = bytes.slice(position, position + size);
+        position += size;
+    }
+
+    // Without a NETSCAPE extension the animation plays once
+    let loopCount = 1;
+    const frames: GifFrameHeader[] = [];
+    let control = { delay: 0, disposal: "none" as Disposal, transparentIndex: null as number | null };
+
+    while (position < bytes.length) {
+        const block = bytes[position++];
+        if (block === 0x3b) break;
+
+        if (block === 0x21) {
+            const label = bytes[position++];
+            if (label === 0xf9 && bytes[position] >= 4) {
+                const flags = bytes[position + 1];
+                control = {
+                    delay: readUint16(position + 2) * 10,
+                    disposal: DISPOSALS[(flags >> 2) & 7] ?? "none",
+                    transparentIndex: flags & 1 ? bytes[position + 4] : null,
+                };
+            }
+            const { data, end } = readSubBlocks(bytes, position);
+            if (label === 0xff && String.fromCharCode(...data.subarray(0, 11)) === "NETSCAPE2.0" && data[11] === 1) {
+                const repeats = data[12] | (data[13] << 8);
+                loopCount = repeats === 0 ? 0 : repeats + 1;
+            }
+            position = end;
+        } else if (block === 0x2c) {
+            const flags = bytes[position + 8];
+            const header = {
+                x: readUint16(position),
+                y: readUint16(position + 2),
+                width: readUint16(position + 4),
+                height: readUint16(position + 6),
+                interlaced: (flags & 0x40) !== 0,
+            };
+            position += 9;
+            let palette = globalPalette;
+            if (flags & 0x80) {
+                const size = 3 * (1 << ((flags & 7) + 1));
+                palette = bytes.slice(position, position + size);
+                position += size;
+            }
+            const minCodeSize = bytes[position++];
+            const { data, end } = readSubBlocks(bytes, position);
+            position = end;
+            frames.push({ ...header, ...control, palette, minCodeSize, data });
+            control = { delay: 0, disposal: "none", transparentIndex: null };
+        } else {
+            throw new Error(`Corrupt GIF: unexpected block 0x${block.toString(16)}`);
+        }
+    }
+    return { width, height, loopCount, frames };
+}
+
+/**
+ * Reads the frame count and timing of a GIF without decoding it.
+ * @param bytes - The GIF file contents.
+ * @returns The screen size, frame count and total duration in milliseconds.
+ */
+export function probeGif(bytes: Uint8Array) {
+    const { width, height, frames } = parseGif(bytes);
+    return { width, height, frameCount: frames.length, duration: frames.reduce((sum, frame) => sum + frame.delay, 0) };
+}
+
+// --- LZW ---
+
+function lzwDecode(minCodeSize: number, data: Uint8Array, pixelCount: number): Uint8Array {
+    const output = new Uint8Array(pixelCount);
+    const prefix = new Int16Array(MAX_CODES);
+    const suffix = new Uint8Array(MAX_CODES);
+    const lengths = new Uint16Array(MAX_CODES);
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    for (let code = 0; code < clearCode; code++) {
+        suffix[code] = code;
+        lengths[code] = 1;
+    }
+
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let previous = -1;
+    let written = 0;
+    let bitBuffer = 0;
+    let bitCount = 0;
+
+    // The last codes can still be in the bit buffer after the final byte has been read
+    for (let position = 0; written < pixelCount;) {
+        while (bitCount < codeSize && position < data.length) {
+            bitBuffer |= data[position++] << bitCount;
+            bitCount += 8;
+        }
+        if (bitCount < codeSize) break;
+        const code = bitBuffer & ((1 << codeSize) - 1);
+        bitBuffer >>>= codeSize;
+        bitCount -= codeSize;
+
+        if (code === clearCode) {
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+            previous = -1;
+            continue;
+        }
+        if (code === endCode) break;
+
+        // A code not in the table yet can only be the previous string plus its own first character
+        const known = code < nextCode;
+        if (!known && previous === -1) throw new Error("Corrupt GIF image data");
+        const entry = known ? code : previous;
+        const length = lengths[entry];
+        let cursor = entry;
+        for (let i = length - 1; i >= 0; i--) {
+            if (written + i < pixelCount) output[written + i] = suffix[cursor];
+            cursor = prefix[cursor];
+        }
+        const first = output[written] ?? suffix[entry];
+        written += length;
+        if (!known) {
+            if (written < pixelCount) output[written] = first;
+            written++;
+        }
+
+        if (previous !== -1 && nextCode < MAX_CODES) {
+            prefix[nextCode] = previous;
+            suffix[nextCode] = first;
+            lengths[nextCode] = lengths[previous] + 1;
+            nextCode++;
+            if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+        }
+        previous = code;
+    }
+    return output;
+}
+
+function lzwEncode(minCodeSize: number, indices: Uint8Array): Uint8Array {
+    const output: number[] = [];
+    let bitBuffer = 0;
+    let bitCount = 0;
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let table = new Map<number, number>();
+
+    const emit = (code: number) => {
+        bitBuffer |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            output.push(bitBuffer & 0xff);
+            bitBuffer >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    emit(clearCode);
+    if (indices.length === 0) {
+        emit(endCode);
+    } else {
+        let current = indices[0];
+        for (let i = 1; i < indices.length; i++) {
+            const key = (current << 8) | indices[i];
+            const existing = table.get(key);
+            if (existing !== undefined) {
+                current = existing;
+                continue;
+            }
+            emit(current);
+            if (nextCode === MAX_CODES) {
+                emit(clearCode);
+                table = new Map();
+                codeSize = minCodeSize + 1;
+                nextCode = endCode + 1;
+            } else {
+                if (nextCode >= 1 << codeSize) codeSize++;
+                table.set(key, nextCode++);
+            }
+            current = indices[i];
+        }
+        emit(current);
+        emit(endCode);
+    }
+    if (bitCount > 0) output.push(bitBuffer & 0xff);
+    return Uint8Array.from(output);
+}
+
+// --- Decoding ---
+
+/**
+ * Decodes every frame of a GIF to RGBA. Transparent pixels get alpha 0.
+ * @param bytes - The GIF file contents.
+ * @returns The animation, with each frame covering only its own rectangle.
+ */
+export function decodeGif(bytes: Uint8Array): Animation {
+    const { width, height, loopCount, frames } = parseGif(bytes);
+    if (frames.length === 0) throw new Error("GIF has no frames");
+
+    return {
+        width,
+        height,
+        loopCount,
+        frames: frames.map((frame): AnimationFrame => {
+            const pixelCount = frame.width * frame.height;
+            let indices = lzwDecode(frame.minCodeSize, frame.data, pixelCount);
+            if (frame.interlaced) indices = deinterlace(indices, frame.width, frame.height);
+
+            const data = new Uint8ClampedArray(pixelCount * 4);
+            for (let i = 0; i < pixelCount; i++) {
+                const index = indices[i];
+                if (index === frame.transparentIndex) continue;
+                data[i * 4] = frame.palette[index * 3] ?? 0;
+                data[i * 4 + 1] = frame.palette[index * 3 + 1] ?? 0;
+                data[i * 4 + 2] = frame.palette[index * 3 + 2] ?? 0;
+                data[i * 4 + 3] = 255;
+            }
+            return {
+                x: frame.x,
+                y: frame.y,
+                width: frame.width,
+                height: frame.height,
+                delay: frame.delay,
+                disposal: frame.disposal,
+                // GIF frames are always drawn over what is already there
+                blend: "over",
+                data,
+            };
+        }),
+    };
+}
+
+// Interlaced GIFs store rows in four passes: every 8th row from 0, every 8th from 4, every 4th from 2, every 2nd from 1
+function deinterlace(indices: Uint8Array, width: number, height: number): Uint8Array {
+    const output = new Uint8Array(indices.length);
+    let source = 0;
+    for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+        for (let y = start; y < height; y += step) {
+            output.set(indices.subarray(source * width, (source + 1) * width), y * width);
+            source++;
+        }
+    }
+    return output;
+}
+
+// --- Encoding ---
+
+interface ColorBox {
+    colors: { color: number; count: number }[];
+}
+
+const channel = (color: number, shift: number) => (color >> shift) & 0xff;
+
+/**
+ * Reduces the colors of an RGBA frame to a palette with median cut. Frames that already have few
+ * enough colors, like plain duotone output, keep their exact colors.
+ * @param data - The RGBA pixels. Pixels with alpha below 128 are ignored.
+ * @param maxColors - The palette size limit.
+ * @returns The palette as packed 0xRRGGBB values and a lookup from packed color to palette index.
+ */
+export function quantizeColors(data: Uint8ClampedArray, maxColors: number): { palette: number[]; lookup: (color: number) => number } {
+    const counts = new Map<number, number>();
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] < 128) continue;
+        const color = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+        counts.set(color, (counts.get(color) ?? 0) + 1);
+    }
+
+    if (counts.size <= maxColors) {
+        const palette = [...counts.keys()];
+        const indices = new Map(palette.map((color, index) => [color, index]));
+        return { palette, lookup: color => indices.get(color) ?? 0 };
+    }
+
+    const boxes: ColorBox[] = [{ colors: [...counts].map(([color, count]) => ({ color, count })) }];
+    const range = (box: ColorBox, shift: number) => {
+        let min = 255;
+        let max = 0;
+        for (const { color } of box.colors) {
+            const value = channel(color, shift);
+            if (value < min) min = value;
+            if (value > max) max = value;
+        }
+        return max - min;
+    };
+
+    while (boxes.length < maxColors) {
+        // Split the box with the widest channel, at the pixel-weighted median of that channel
+        let best: { box: ColorBox; shift: number; spread: number } | null = null;
+        for (const box of boxes) {
+            if (box.colors.length < 2) continue;
+            for (const shift of [16, 8, 0]) {
+                const spread = range(box, shift);
+                if (!best || spread > best.spread) best = { box, shift, spread };
+            }
+        }
+        if (!best || best.spread === 0) break;
+
+        const { box, shift } = best;
+        box.colors.sort((a, b) => channel(a.color, shift) - channel(b.color, shift));
+        const total = box.colors.reduce((sum, entry) => sum + entry.count, 0);
+        let seen = 0;
+        let split = 1;
+        for (; split < box.colors.length - 1; split++) {
+            seen += box.colors[split - 1].count;
+            if (seen >= total / 2) break;
+        }
+        boxes.splice(boxes.indexOf(box), 1, { colors: box.colors.slice(0, split) }, { colors: box.colors.slice(split) });
+    }
+
+    const palette = boxes.map(({ colors }) => {
+        const total = colors.reduce((sum, entry) => sum + entry.count, 0);
+        const average = (shift: number) => Math.round(colors.reduce((sum, entry) => sum + channel(entry.color, shift) * entry.count, 0) / total);
+        return (average(16) << 16) | (average(8) << 8) | average(0);
+    });
+    const indices = new Map<number, number>();
+    boxes.forEach((box, index) => box.colors.forEach(({ color }) => indices.set(color, index)));
+    return { palette, lookup: color => indices.get(color) ?? 0 };
+}
+
+/**
+ * Encodes an animation as a GIF with a local palette per frame.
+ * "source" blending cannot be expressed in GIF and is written as "over".
+ * @param animation - The frames to encode.
+ * @returns The GIF file contents.
+ */
+export function encodeGif(animation: Animation): Uint8Array<ArrayBuffer> {
+    const output: number[] = [];
+    const uint16 = (value: number) => output.push(value & 0xff, (value >> 8) & 0xff);
+    const pushBlocks = (data: Uint8Array) => {
+        for (let i = 0; i < data.length; i += 255) {
+            const chunk = data.subarray(i, i + 255);
+            output.push(chunk.length, ...chunk);
+        }
+        output.push(0);
+    };
+
+    output.push(..."GIF89a".split("").map(c => c.charCodeAt(0)));
+    uint16(animation.width);
+    uint16(animation.height);
+    output.push(0, 0, 0);
+
+    if (animation.loopCount !== 1) {
+        output.push(0x21, 0xff, 11, ..."NETSCAPE2.0".split("").map(c => c.charCodeAt(0)), 3, 1);
+        uint16(animation.loopCount === 0 ? 0 : animation.loopCount - 1);
+        output.push(0);
+    }
+
+    for (const frame of animation.frames) {
+        const pixelCount = frame.width * frame.height;
+        const hasTransparency = frame.data.some((value, i) => i % 4 === 3 && value < 128);
+        const { palette, lookup } = quantizeColors(frame.data, hasTransparency ? 255 : 256);
+        const transparentIndex = hasTransparency ? palette.length : 0;
+        const paletteBits = Math.max(1, Math.ceil(Math.log2(palette.length + (hasTransparency ? 1 : 0))));
+
+        const indices = new Uint8Array(pixelCount);
+        for (let i = 0; i < pixelCount; i++) {
+            const d = frame.data;
+            indices[i] = d[i * 4 + 3] < 128 ? transparentIndex : lookup((d[i * 4] << 16) | (d[i * 4 + 1] << 8) | d[i * 4 + 2]);
+        }
+
+        const disposal = DISPOSALS.lastIndexOf(frame.disposal);
+        output.push(0x21, 0xf9, 4, ((disposal === -1 ? 1 : disposal) << 2) | (hasTransparency ? 1 : 0));
+        uint16(Math.round(frame.delay / 10));
+        output.push(transparentIndex, 0);
+
+        output.push(0x2c);
+        uint16(frame.x);
+        uint16(frame.y);
+        uint16(frame.width);
+        uint16(frame.height);
+        output.push(0x80 | (paletteBits - 1));
+        for (let i = 0; i < 1 << paletteBits; i++) {
+            const color = palette[i] ?? 0;
+            output.push(channel(color, 16), channel(color, 8), channel(color, 0));
+        }
+
+        const minCodeSize = Math.max(2, paletteBits);
+        output.push(minCodeSize);
+        pushBlocks(lzwEncode(minCodeSize, indices));
+    }
+
+    output.push(0x3b);
+    return Uint8Array.from(output);
+}
@@ -0,0 +1,90 @@
+// The filter pipeline without a browser, shared by the CLI and the HTTP server.
+
+import { filtering, generateGradientLUTs, type LUT } from "./pinku-batched.filter";
+import { resolvePalette, reverseStops } from "./pinku-batched.palettes";
+import { DEFAULT_EXPORT_SETTINGS, formatOutputName } from "./pinku-batched.export";
+import { decodeImageFile, encodeImageFile } from "./pinku-batched.codec";
+
+export type HeadlessFormat = "png" | "jpeg" | "original";
+
+/** Unvalidated settings as they arrive from command-line flags, query strings or JSON. */
+export interface HeadlessParams {
+    palette?: string;
+    reverse?: boolean;
+    format?: string;
+    /** JPEG quality from 1 to 100. */
+    quality?: number;
+    /** File name template, see NAME_TOKENS. */
+    name?: string;
+}
+
+export interface HeadlessOptions {
+    luts: LUT;
+    /** Palette name for {palette}, with " reversed" appended when reversed. */
+    paletteName: string;
+    format: HeadlessFormat;
+    /** JPEG quality from 0 to 1. */
+    quality: number;
+    nameTemplate: string;
+}
+
+export interface HeadlessResult {
+    bytes: Uint8Array<ArrayBuffer>;
+    type: string;
+    width: number;
+    height: number;
+}
+
+/**
+ * Validates headless settings and builds the LUTs once for a whole batch.
+ * @param params - The raw settings.
+ * @returns The resolved options.
+ * @throws Error with a message fit for the user when a setting is invalid.
+ */
+export function resolveHeadlessOptions(params: HeadlessParams): HeadlessOptions {
+    const paletteValue = params.palette ?? "pinku";
+    const palette = resolvePalette(paletteValue);
+    if (!palette) throw new Error(`"${paletteValue}" is neither a built-in palette nor a list of at least two colors`);
+
+    const format = params.format ?? "png";
+    if (format !== "png" && format !== "jpeg" && format !== "original") {
+        throw new Error(`Unknown format "${format}"; use png, jpeg or original`);
+    }
+
+    const quality = params.quality ?? Math.round(DEFAULT_EXPORT_SETTINGS.quality * 100);
+    if (!(quality >= 1 && quality <= 100)) throw new Error("Quality must be between 1 and 100");
+
+    return {
+        luts: generateGradientLUTs(params.reverse ? reverseStops(palette.stops) : palette.stops),
+        paletteName: params.reverse ? `${palette.name} reversed` : palette.name,
+        format,
+        quality: quality / 100,
+        nameTemplate: params.name ?? DEFAULT_EXPORT_SETTINGS.nameTemplate,
+    };
+}
+
+/**
+ * Decodes, filters and re-encodes one PNG or JPEG file.
+ * @param bytes - The source file contents.
+ * @param options - The resolved options.
+ * @returns The encoded result.
+ */
+export function filterImageBytes(bytes: Uint8Array, options: HeadlessOptions): HeadlessResult {
+    const { image, type } = decodeImageFile(bytes);
+    filtering(image, options.luts);
+    const encoded = encodeImageFile(image, options.format === "original" ? type : `image/${options.format}`, options.quality);
+    return { ...encoded, width: image.width, height: image.height };
+}
+
+/**
+ * Names a result with the options' template.
+ * @param relativePath - The source path.
+ * @param index - Zero-based position in the batch.
+ * @param total - Number of files in the batch.
+ * @param result - The encoded result.
+ * @param options - The resolved options.
+ * @param date - The batch date for {date}.
+ * @returns The output path.
+ */
+export const headlessOutputName = (relativePath: string, index: number, total: number, result: HeadlessResult, options: HeadlessOptions, date: Date) =>
+    formatOutputName(options.nameTemplate, { relativePath, index, total, palette: options.paletteName, date, mimeType: result.type });
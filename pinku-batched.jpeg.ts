@@ -0,0 +1,611 @@
+// Pure TypeScript baseline JPEG decoder and encoder for the headless CLI.
+// Decoding covers sequential Huffman JPEGs (SOF0/SOF1) in grayscale, YCbCr or Adobe RGB with any
+// chroma subsampling and restart intervals. Progressive and arithmetic-coded files are rejected.
+
+import type { RawImage } from "./pinku-batched.codec";
+
+// Position in the 8x8 block (row-major) of the n-th coefficient in zigzag order
+const ZIGZAG = [
+    0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+    12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+    35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+    58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+// DCT basis shared by the forward and inverse transforms: DCT_BASIS[x * 8 + u] = C(u) / 2 * cos((2x + 1)uπ / 16)
+const DCT_BASIS = (() => {
+    const basis = new Float64Array(64);
+    for (let x = 0; x < 8; x++) {
+        for (let u = 0; u < 8; u++) {
+            basis[x * 8 + u] = (u === 0 ? Math.SQRT1_2 : 1) / 2 * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+        }
+    }
+    return basis;
+})();
+
+// --- Standard tables from Annex K of the JPEG specification ---
+const LUMINANCE_QUANTIZATION = [
+    16, 11, 10, 16, 24, 40, 51, 61,
+    12, 12, 14, 19, 26, 58, 60, 55,
+    14, 13, 16, 24, 40, 57, 69, 56,
+    14, 17, 22, 29, 51, 87, 80, 62,
+    18, 22, 37, 56, 68, 109, 103, 77,
+    24, 35, 55, 64, 81, 104, 113, 92,
+    49, 64, 78, 87, 103, 121, 120, 101,
+    72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+const CHROMINANCE_QUANTIZATION = [
+    17, 18, 24, 47, 99, 99, 99, 99,
+    18, 21, 26, 66, 99, 99, 99, 99,
+    24, 26, 56, 99, 99, 99, 99, 99,
+    47, 66, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+interface HuffmanSpec {
+    /** Number of codes of each length from 1 to 16 bits. */
+    counts: number[];
+    /** Symbols in order of increasing code length. */
+    symbols: number[];
+}
+
+const DC_LUMINANCE: HuffmanSpec = {
+    counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+    symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const DC_CHROMINANCE: HuffmanSpec = {
+    counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+    symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const AC_LUMINANCE: HuffmanSpec = {
+    counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+    symbols: [
+        0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+        0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+        0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+        0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+        0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+        0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+        0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+        0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+        0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+        0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+        0xf9, 0xfa,
+    ],
+};
+
+const AC_CHROMINANCE: HuffmanSpec = {
+    counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+    symbols: [
+        0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+        0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+        0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+        0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+        0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+        0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+        0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+        0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+        0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+        0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+        0xf9, 0xfa,
+    ],
+};
+
+const clampByte = (value: number) => value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+
+// --- Decoder ---
+
+interface DecodingTable {
+    maxCode: Int32Array;
+    valueOffset: Int32Array;
+    symbols: Uint8Array;
+}
+
+interface FrameComponent {
+    id: number;
+    h: number;
+    v: number;
+    quantizationId: number;
+    /** Decoded samples, padded to whole MCUs. */
+    plane: Uint8ClampedArray;
+    planeWidth: number;
+    /** Blocks that hold real image data, for non-interleaved scans. */
+    blocksWide: number;
+    blocksHigh: number;
+    dcPrediction: number;
+}
+
+function buildDecodingTable(counts: Uint8Array, symbols: Uint8Array): DecodingTable {
+    const maxCode = new Int32Array(18).fill(-1);
+    const valueOffset = new Int32Array(17);
+    let code = 0;
+    let index = 0;
+    for (let length = 1; length <= 16; length++) {
+        const count = counts[length - 1];
+        valueOffset[length] = index - code;
+        code += count;
+        index += count;
+        if (count) maxCode[length] = code - 1;
+        code <<= 1;
+    }
+    maxCode[17] = 0x7fffffff;
+    return { maxCode, valueOffset, symbols };
+}
+
+// Writes the 8x8 samples of a natural-order coefficient block into a plane, level-shifted back to 0..255
+function inverseDct(coefficients: Float64Array, output: Uint8ClampedArray, offset: number, stride: number, temp: Float64Array) {
+    for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+            let sum = 0;
+            for (let u = 0; u < 8; u++) sum += DCT_BASIS[x * 8 + u] * coefficients[y * 8 + u];
+            temp[y * 8 + x] = sum;
+        }
+    }
+    for (let x = 0; x < 8; x++) {
+        for (let y = 0; y < 8; y++) {
+            let sum = 0;
+            for (let v = 0; v < 8; v++) sum += DCT_BASIS[y * 8 + v] * temp[v * 8 + x];
+            output[offset + y * stride + x] = clampByte(sum + 128);
+        }
+    }
+}
+
+/**
+ * Decodes a baseline or extended sequential JPEG to RGBA. EXIF orientation is not applied.
+ * @param bytes - The JPEG file contents.
+ * @returns The decoded pixels.
+ */
+export function decodeJpeg(bytes: Uint8Array): RawImage {
+    const quantizationTables: Uint16Array[] = [];
+    const dcTables: DecodingTable[] = [];
+    const acTables: DecodingTable[] = [];
+    let components: FrameComponent[] = [];
+    let width = 0;
+    let height = 0;
+    let maxH = 1;
+    let maxV = 1;
+    let mcusWide = 0;
+    let mcusHigh = 0;
+    let restartInterval = 0;
+    let adobeTransform: number | null = null;
+
+    const readUint16 = (position: number) => (bytes[position] << 8) | bytes[position + 1];
+    if (readUint16(0) !== 0xffd8) throw new Error("Not a JPEG file");
+
+    let position = 2;
+    while (position < bytes.length) {
+        if (bytes[position] !== 0xff) {
+            position++;
+            continue;
+        }
+        const marker = bytes[position + 1];
+        position += 2;
+        if (marker === 0xff || marker === 0x00 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+            if (marker === 0xff) position--;
+            continue;
+        }
+        if (marker === 0xd9) break;
+
+        const length = readUint16(position);
+        const segment = bytes.subarray(position + 2, position + length);
+        const segmentUint16 = (offset: number) => (segment[offset] << 8) | segment[offset + 1];
+        position += length;
+
+        if (marker === 0xdb) {
+            for (let offset = 0; offset < segment.length;) {
+                const precision = segment[offset] >> 4;
+                const id = segment[offset] & 15;
+                const table = new Uint16Array(64);
+                for (let k = 0; k < 64; k++) {
+                    table[k] = precision ? (segment[offset + 1 + k * 2] << 8) | segment[offset + 2 + k * 2] : segment[offset + 1 + k];
+                }
+                quantizationTables[id] = table;
+                offset += 1 + 64 * (precision ? 2 : 1);
+            }
+        } else if (marker === 0xc4) {
+            for (let offset = 0; offset < segment.length;) {
+                const tableClass = segment[offset] >> 4;
+                const id = segment[offset] & 15;
+                const counts = segment.subarray(offset + 1, offset + 17);
+                const total = counts.reduce((sum, count) => sum + count, 0);
+                const table = buildDecodingTable(counts, segment.slice(offset + 17, offset + 17 + total));
+                (tableClass === 0 ? dcTables : acTables)[id] = table;
+                offset += 17 + total;
+            }
+        } else if (marker === 0xc0 || marker === 0xc1) {
+            if (segment[0] !== 8) throw new Error(`${segment[0]}-bit JPEGs are not supported`);
+            height = segmentUint16(1);
+            width = segmentUint16(3);
+            if (!width || !height) throw new Error("JPEG has no image size");
+            const count = segment[5];
+            components = Array.from({ length: count }, (_, i) => ({
+                id: segment[6 + i * 3],
+                h: segment[7 + i * 3] >> 4,
+                v: segment[7 + i * 3] & 15,
+                quantizationId: segment[8 + i * 3],
+                plane: new Uint8ClampedArray(0),
+                planeWidth: 0,
+                blocksWide: 0,
+                blocksHigh: 0,
+                dcPrediction: 0,
+            }));
+            maxH = Math.max(...components.map(c => c.h));
+            maxV = Math.max(...components.map(c => c.v));
+            mcusWide = Math.ceil(width / (8 * maxH));
+            mcusHigh = Math.ceil(height / (8 * maxV));
+            for (const component of components) {
+                component.planeWidth = mcusWide * component.h * 8;
+                component.plane = new Uint8ClampedArray(component.planeWidth * mcusHigh * component.v * 8);
+                component.blocksWide = Math.ceil(Math.ceil((width * component.h) / maxH) / 8);
+                component.blocksHigh = Math.ceil(Math.ceil((height * component.v) / maxV) / 8);
+            }
+        } else if (marker === 0xc2 || marker === 0xc6 || marker === 0xca || marker === 0xce) {
+            throw new Error("Progressive JPEGs are not supported");
+        } else if ((marker >= 0xc3 && marker <= 0xcf) && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            throw new Error("Lossless and arithmetic-coded JPEGs are not supported");
+        } else if (marker === 0xdd) {
+            restartInterval = segmentUint16(0);
+        } else if (marker === 0xee && String.fromCharCode(...segment.subarray(0, 5)) === "Adobe") {
+            adobeTransform = segment[11];
+        } else if (marker === 0xda) {
+            if (!components.length) throw new Error("JPEG scan appears before the frame header");
+            const scanComponents = Array.from({ length: segment[0] }, (_, i) => {
+                const component = components.find(c => c.id === segment[1 + i * 2]);
+                if (!component) throw new Error("JPEG scan references an unknown component");
+                const tables = segment[2 + i * 2];
+                return { component, dc: dcTables[tables >> 4], ac: acTables[tables & 15] };
+            });
+            position = decodeScan(bytes, position, scanComponents);
+        }
+    }
+
+    // --- Entropy-coded segment ---
+    function decodeScan(data: Uint8Array, start: number, scan: { component: FrameComponent; dc: DecodingTable; ac: DecodingTable }[]): number {
+        let offset = start;
+        let bitBuffer = 0;
+        let bitCount = 0;
+
+        const readBit = () => {
+            if (bitCount === 0) {
+                const byte = data[offset];
+                if (byte === 0xff) {
+                    const next = data[offset + 1];
+                    // A marker ends the data early; missing bits read as zeros
+                    if (next !== 0x00) return 0;
+                    offset += 2;
+                } else {
+                    offset++;
+                }
+                bitBuffer = byte ?? 0;
+                bitCount = 8;
+            }
+            bitCount--;
+            return (bitBuffer >> bitCount) & 1;
+        };
+        const receive = (length: number) => {
+            let value = 0;
+            for (let i = 0; i < length; i++) value = (value << 1) | readBit();
+            return value;
+        };
+        const extend = (value: number, length: number) => value < (1 << (length - 1)) ? value - (1 << length) + 1 : value;
+        const decodeSymbol = (table: DecodingTable) => {
+            let code = readBit();
+            let length = 1;
+            while (code > table.maxCode[length]) {
+                code = (code << 1) | readBit();
+                if (++length > 16) throw new Error("Corrupt JPEG Huffman data");
+            }
+            return table.symbols[table.valueOffset[length] + code];
+        };
+
+        const coefficients = new Float64Array(64);
+        const temp = new Float64Array(64);
+        const decodeBlock = (entry: typeof scan[number], blockRow: number, blockColumn: number) => {
+            const { component, dc, ac } = entry;
+            const quantization = quantizationTables[component.quantizationId];
+            if (!quantization || !dc || !ac) throw new Error("JPEG is missing a table it references");
+            coefficients.fill(0);
+
+            const dcLength = decodeSymbol(dc);
+            component.dcPrediction += dcLength === 0 ? 0 : extend(receive(dcLength), dcLength);
+            coefficients[0] = component.dcPrediction * quantization[0];
+
+            for (let k = 1; k < 64;) {
+                const symbol = decodeSymbol(ac);
+                const size = symbol & 15;
+                const run = symbol >> 4;
+                if (size === 0) {
+                    if (run !== 15) break;
+                    k += 16;
+                    continue;
+                }
+                k += run;
+                if (k > 63) break;
+                coefficients[ZIGZAG[k]] = extend(receive(size), size) * quantization[k];
+                k++;
+            }
+            inverseDct(coefficients, component.plane, (blockRow * 8 * component.planeWidth) + blockColumn * 8, component.planeWidth, temp);
+        };
+
+        const single = scan.length === 1 ? scan[0] : null;
+        const totalUnits = single ? single.component.blocksWide * single.component.blocksHigh : mcusWide * mcusHigh;
+        for (const { component } of scan) component.dcPrediction = 0;
+
+        for (let unit = 0; unit < totalUnits; unit++) {
+            if (restartInterval && unit > 0 && unit % restartInterval === 0) {
+                // Skip to just past the RSTn marker and reset the decoder state
+                bitCount = 0;
+                while (offset < data.length && !(data[offset] === 0xff && data[offset + 1] >= 0xd0 && data[offset + 1] <= 0xd7)) offset++;
+                offset += 2;
+                for (const { component } of scan) component.dcPrediction = 0;
+            }
+
+            if (single) {
+                const blocksWide = single.component.blocksWide;
+                decodeBlock(single, Math.floor(unit / blocksWide), unit % blocksWide);
+                continue;
+            }
+            const mcuRow = Math.floor(unit / mcusWide);
+            const mcuColumn = unit % mcusWide;
+            for (const entry of scan) {
+                for (let v = 0; v < entry.component.v; v++) {
+                    for (let h = 0; h < entry.component.h; h++) {
+                        decodeBlock(entry, mcuRow * entry.component.v + v, mcuColumn * entry.component.h + h);
+                    }
+                }
+            }
+        }
+
+        // Resume marker parsing at the next real marker
+        while (offset < data.length && !(data[offset] === 0xff && data[offset + 1] !== 0x00 && !(data[offset + 1] >= 0xd0 && data[offset + 1] <= 0xd7))) offset++;
+        return offset;
+    }
+
+    if (!components.length) throw new Error("JPEG has no frame header");
+    if (components.length === 4) throw new Error("CMYK JPEGs are not supported");
+
+    const data = new Uint8ClampedArray(width * height * 4);
+    // Nearest-neighbour upsampling of subsampled components
+    const sample = (component: FrameComponent, x: number, y: number) =>
+        component.plane[Math.floor((y * component.v) / maxV) * component.planeWidth + Math.floor((x * component.h) / maxH)];
+    const isRgb = components.length === 3 && adobeTransform === 0;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const target = (y * width + x) * 4;
+            if (components.length < 3) {
+                const gray = sample(components[0], x, y);
+                data[target] = gray;
+                data[target + 1] = gray;
+                data[target + 2] = gray;
+            } else if (isRgb) {
+                data[target] = sample(components[0], x, y);
+                data[target + 1] = sample(components[1], x, y);
+                data[target + 2] = sample(components[2], x, y);
+            } else {
+                const luma = sample(components[0], x, y);
+                const cb = sample(components[1], x, y) - 128;
+                const cr = sample(components[2], x, y) - 128;
+                data[target] = clampByte(luma + 1.402 * cr);
+                data[target + 1] = clampByte(luma - 0.344136 * cb - 0.714136 * cr);
+                data[target + 2] = clampByte(luma + 1.772 * cb);
+            }
+            data[target + 3] = 255;
+        }
+    }
+
+    return { width, height, data };
+}
+
+// --- Encoder ---
+
+interface EncodingTable {
+    codes: Uint16Array;
+    lengths: Uint8Array;
+}
+
+function buildEncodingTable({ counts, symbols }: HuffmanSpec): EncodingTable {
+    const codes = new Uint16Array(256);
+    const lengths = new Uint8Array(256);
+    let code = 0;
+    let index = 0;
+    for (let length = 1; length <= 16; length++) {
+        for (let i = 0; i < counts[length - 1]; i++) {
+            codes[symbols[index]] = code++;
+            lengths[symbols[index]] = length;
+            index++;
+        }
+        code <<= 1;
+    }
+    return { codes, lengths };
+}
+
+// Scales a base table the same way libjpeg does, so quality 75 means the same thing everywhere
+function scaleQuantization(table: number[], quality: number): Uint8Array {
+    const clamped = Math.min(100, Math.max(1, Math.round(quality)));
+    const scale = clamped < 50 ? 5000 / clamped : 200 - clamped * 2;
+    return Uint8Array.from(table, value => Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))));
+}
+
+function createByteWriter() {
+    let buffer = new Uint8Array(1 << 16);
+    let length = 0;
+    const ensure = (extra: number) => {
+        if (length + extra <= buffer.length) return;
+        const grown = new Uint8Array(Math.max(buffer.length * 2, length + extra));
+        grown.set(buffer.subarray(0, length));
+        buffer = grown;
+    };
+    return {
+        byte(value: number) {
+            ensure(1);
+            buffer[length++] = value;
+        },
+        bytes(values: ArrayLike<number>) {
+            ensure(values.length);
+            buffer.set(values, length);
+            length += values.length;
+        },
+        uint16(value: number) {
+            ensure(2);
+            buffer[length++] = value >> 8;
+            buffer[length++] = value & 0xff;
+        },
+        result: () => buffer.slice(0, length),
+    };
+}
+
+/**
+ * Encodes RGBA pixels as a baseline JPEG. Alpha is dropped. Chroma is kept at full resolution,
+ * because duotone output has sharp color edges that 4:2:0 subsampling would smear.
+ * @param image - The pixels to encode.
+ * @param quality - The quality from 0 to 1, as for canvas.toBlob.
+ * @returns The JPEG file contents.
+ */
+export function encodeJpeg(image: RawImage, quality = 0.92): Uint8Array<ArrayBuffer> {
+    const { width, height, data } = image;
+    const luminanceTable = scaleQuantization(LUMINANCE_QUANTIZATION, quality * 100);
+    const chrominanceTable = scaleQuantization(CHROMINANCE_QUANTIZATION, quality * 100);
+    const writer = createByteWriter();
+
+    writer.uint16(0xffd8);
+    // JFIF APP0, version 1.1, no density and no thumbnail
+    writer.uint16(0xffe0);
+    writer.uint16(16);
+    writer.bytes([0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+
+    writer.uint16(0xffdb);
+    writer.uint16(2 + 65 * 2);
+    [luminanceTable, chrominanceTable].forEach((table, id) => {
+        writer.byte(id);
+        for (let k = 0; k < 64; k++) writer.byte(table[ZIGZAG[k]]);
+    });
+
+    writer.uint16(0xffc0);
+    writer.uint16(17);
+    writer.byte(8);
+    writer.uint16(height);
+    writer.uint16(width);
+    writer.bytes([3, 1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1]);
+
+    const specs: [number, HuffmanSpec][] = [[0x00, DC_LUMINANCE], [0x10, AC_LUMINANCE], [0x01, DC_CHROMINANCE], [0x11, AC_CHROMINANCE]];
+    writer.uint16(0xffc4);
+    writer.uint16(2 + specs.reduce((sum, [, spec]) => sum + 17 + spec.symbols.length, 0));
+    for (const [id, spec] of specs) {
+        writer.byte(id);
+        writer.bytes(spec.counts);
+        writer.bytes(spec.symbols);
+    }
+
+    writer.uint16(0xffda);
+    writer.uint16(12);
+    writer.bytes([3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]);
+
+    // --- Entropy-coded data ---
+    let bitBuffer = 0;
+    let bitCount = 0;
+    const writeBits = (code: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) {
+            bitBuffer = (bitBuffer << 1) | ((code >> i) & 1);
+            if (++bitCount === 8) {
+                writer.byte(bitBuffer);
+                // Byte stuffing keeps 0xFF in the data from being read as a marker
+                if (bitBuffer === 0xff) writer.byte(0);
+                bitBuffer = 0;
+                bitCount = 0;
+            }
+        }
+    };
+    const writeValue = (value: number) => {
+        const magnitude = Math.abs(value);
+        const size = magnitude === 0 ? 0 : 32 - Math.clz32(magnitude);
+        return { size, bits: value < 0 ? (value - 1) & ((1 << size) - 1) : value };
+    };
+
+    const tables = [
+        { dc: buildEncodingTable(DC_LUMINANCE), ac: buildEncodingTable(AC_LUMINANCE), quantization: luminanceTable },
+        { dc: buildEncodingTable(DC_CHROMINANCE), ac: buildEncodingTable(AC_CHROMINANCE), quantization: chrominanceTable },
+    ];
+    const predictions = [0, 0, 0];
+    const block = new Float64Array(64);
+    const temp = new Float64Array(64);
+    const quantized = new Int32Array(64);
+
+    const encodeBlock = (component: number) => {
+        const { dc, ac, quantization } = tables[component === 0 ? 0 : 1];
+
+        // Forward DCT, separable: rows first, then columns
+        for (let y = 0; y < 8; y++) {
+            for (let u = 0; u < 8; u++) {
+                let sum = 0;
+                for (let x = 0; x < 8; x++) sum += DCT_BASIS[x * 8 + u] * block[y * 8 + x];
+                temp[y * 8 + u] = sum;
+            }
+        }
+        for (let u = 0; u < 8; u++) {
+            for (let v = 0; v < 8; v++) {
+                let sum = 0;
+                for (let y = 0; y < 8; y++) sum += DCT_BASIS[y * 8 + v] * temp[y * 8 + u];
+                quantized[v * 8 + u] = Math.round(sum / quantization[v * 8 + u]);
+            }
+        }
+
+        const difference = writeValue(quantized[0] - predictions[component]);
+        predictions[component] = quantized[0];
+        writeBits(dc.codes[difference.size], dc.lengths[difference.size]);
+        writeBits(difference.bits, difference.size);
+
+        let run = 0;
+        for (let k = 1; k < 64; k++) {
+            const coefficient = quantized[ZIGZAG[k]];
+            if (coefficient === 0) {
+                run++;
+                continue;
+            }
+            while (run > 15) {
+                writeBits(ac.codes[0xf0], ac.lengths[0xf0]);
+                run -= 16;
+            }
+            const { size, bits } = writeValue(coefficient);
+            const symbol = (run << 4) | size;
+            writeBits(ac.codes[symbol], ac.lengths[symbol]);
+            writeBits(bits, size);
+            run = 0;
+        }
+        if (run > 0) writeBits(ac.codes[0x00], ac.lengths[0x00]);
+    };
+
+    for (let blockY = 0; blockY < height; blockY += 8) {
+        for (let blockX = 0; blockX < width; blockX += 8) {
+            for (let component = 0; component < 3; component++) {
+                for (let y = 0; y < 8; y++) {
+                    // Edge blocks repeat the last row and column
+                    const row = Math.min(height - 1, blockY + y) * width;
+                    for (let x = 0; x < 8; x++) {
+                        const source = (row + Math.min(width - 1, blockX + x)) * 4;
+                        const r = data[source];
+                        const g = data[source + 1];
+                        const b = data[source + 2];
+                        block[y * 8 + x] = component === 0
+                            ? 0.299 * r + 0.587 * g + 0.114 * b - 128
+                            : component === 1
+                                ? -0.168736 * r - 0.331264 * g + 0.5 * b
+                                : 0.5 * r - 0.418688 * g - 0.081312 * b;
+                    }
+                }
+                encodeBlock(component);
+            }
+        }
+    }
+
+    // Pad the last byte with one bits, as the specification requires
+    if (bitCount > 0) writeBits(0x7f, 8 - bitCount);
+    writer.uint16(0xffd9);
+    return writer.result();
+}
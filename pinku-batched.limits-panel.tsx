@@ -0,0 +1,61 @@
+import { DEFAULT_IMAGE_LIMITS, type ImageLimits } from "./pinku-batched.limits";
+
+export interface LimitsPanelProps {
+    limits: ImageLimits;
+    onChange: (limits: ImageLimits) => void;
+    /** Number of queued images over the limits, for the summary line. */
+    oversizedCount: number;
+}
+
+const NumberField = ({ label, value, min, max, onChange }: {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    onChange: (value: number) => void;
+}) => (
+    <label className="flex flex-col gap-1.5">
+        <span className="text-[#a4d7ba]">{label}</span>
+        <input
+            type="number"
+            min={min}
+            max={max}
+            value={value}
+            onChange={(e) => {
+                const number = Number(e.target.value);
+                if (Number.isFinite(number) && number >= min) onChange(Math.min(max, number));
+            }}
+            className="bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30 tabular-nums"
+        />
+    </label>
+);
+
+export default function LimitsPanel({ limits, onChange, oversizedCount }: LimitsPanelProps) {
+    const update = (changes: Partial<ImageLimits>) => onChange({ ...limits, ...changes });
+
+    return (
+        <div className="bg-black/20 rounded-xl p-4 mb-4 text-sm">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <NumberField label="Max size (megapixels)" min={1} max={500} value={limits.maxMegapixels} onChange={(maxMegapixels) => update({ maxMegapixels })} />
+                <NumberField label="Max side (pixels)" min={256} max={65535} value={limits.maxDimension} onChange={(maxDimension) => update({ maxDimension })} />
+                <label className="flex flex-col gap-1.5">
+                    <span className="text-[#a4d7ba]">Oversized images</span>
+                    <select
+                        value={limits.oversize}
+                        onChange={(e) => update({ oversize: e.target.value as ImageLimits["oversize"] })}
+                        className="bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30"
+                    >
+                        <option value="downscale">Downscale to fit</option>
+                        <option value="warn">Keep full size (may fail)</option>
+                    </select>
+                </label>
+                <NumberField label="Images decoded at once" min={1} max={16} value={limits.concurrency} onChange={(concurrency) => update({ concurrency })} />
+            </div>
+            <p className={`text-xs mt-3 ${oversizedCount > 0 ? 'text-amber-300' : 'text-[#a4d7ba]/80'}`}>
+                {oversizedCount > 0
+                    ? `${oversizedCount} image${oversizedCount !== 1 ? 's are' : ' is'} over the limits and will be ${limits.oversize === "downscale" ? "downscaled" : "processed at full size, which can run out of memory"}.`
+                    : `Large images are filtered in tiles. Defaults: ${DEFAULT_IMAGE_LIMITS.maxMegapixels} MP, ${DEFAULT_IMAGE_LIMITS.maxDimension} px, ${DEFAULT_IMAGE_LIMITS.concurrency} at once.`}
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,182 @@
+// Size limits that keep very large images from exhausting memory or the browser's canvas limits.
+// Image sizes are read from the file headers, so a batch can be checked before anything is decoded.
+
+import { isJpeg } from "./pinku-batched.exif";
+import { probeAnimation, type AnimationInfo } from "./pinku-batched.animation";
+import { isGif } from "./pinku-batched.gif";
+import { isApng } from "./pinku-batched.apng";
+import { sniffImageFormat, type ImageFormat } from "./pinku-batched.formats";
+
+export interface ImageLimits {
+    /** Images above this many megapixels are downscaled or flagged, depending on `oversize`. */
+    maxMegapixels: number;
+    /** Longest allowed side in pixels. Most browsers cannot create canvases above 16384. */
+    maxDimension: number;
+    /** "downscale" shrinks oversized images to fit; "warn" only flags them and processes them at full size. */
+    oversize: "downscale" | "warn";
+    /** Images decoded at the same time, on top of the CPU count limit. */
+    concurrency: number;
+}
+
+export const DEFAULT_IMAGE_LIMITS: ImageLimits = {
+    maxMegapixels: 40,
+    maxDimension: 16384,
+    oversize: "downscale",
+    concurrency: 2,
+};
+
+export interface ImageSize {
+    width: number;
+    height: number;
+}
+
+export interface SizeCheck {
+    megapixels: number;
+    /** True if the image is over either limit. */
+    exceeds: boolean;
+    /** Factor that brings the image within both limits; 1 if it already fits. */
+    scale: number;
+    /** The size after downscaling, or the original size if it fits. */
+    target: ImageSize;
+}
+
+/** Number of pixels filtered per tile, which bounds the pixel copies held at once to 16 MB. */
+export const TILE_PIXELS = 4 * 1024 * 1024;
+
+// JPEG start-of-frame markers; C4, C8 and CC share the range but are not frames
+const isStartOfFrame = (marker: number) => marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+/**
+ * Reads the pixel size of a PNG, JPEG, GIF or WebP file from its header, in stored (not EXIF-rotated) orientation.
+ * Rotation does not change the pixel count or the longest side, which are all the limits look at.
+ * @param bytes - The start of the file; the first few hundred kilobytes are enough for almost every JPEG.
+ * @returns The size, or null for other formats or if the header was not found.
+ */
+export function readImageSize(bytes: Uint8Array): ImageSize | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const ascii = (start: number, length: number) => String.fromCharCode(...bytes.subarray(start, start + length));
+
+    if (bytes.length >= 24 && ascii(1, 3) === "PNG") {
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+    if (bytes.length >= 10 && ascii(0, 4) === "GIF8") {
+        return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    }
+    if (bytes.length >= 30 && ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") {
+        const chunk = ascii(12, 4);
+        if (chunk === "VP8 ") return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+        if (chunk === "VP8L") {
+            const bits = view.getUint32(21, true);
+            return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+        if (chunk === "VP8X") {
+            const readUint24 = (start: number) => bytes[start] | (bytes[start + 1] << 8) | (bytes[start + 2] << 16);
+            return { width: readUint24(24) + 1, height: readUint24(27) + 1 };
+        }
+        return null;
+    }
+    if (isJpeg(bytes)) {
+        for (let offset = 2; offset + 9 <= bytes.length;) {
+            if (bytes[offset] !== 0xff) return null;
+            const marker = bytes[offset + 1];
+            // Fill bytes and markers without a length
+            if (marker === 0xff) {
+                offset++;
+                continue;
+            }
+            if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+                offset += 2;
+                continue;
+            }
+            if (isStartOfFrame(marker)) return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+            if (marker === 0xda || marker === 0xd9) return null;
+            offset += 2 + view.getUint16(offset + 2);
+        }
+    }
+    return null;
+}
+
+/**
+ * Gets the size of an image as it is shown, for decoders that apply the EXIF orientation themselves.
+ * @param size - The size in stored orientation, from readImageSize.
+ * @param orientation - The EXIF orientation from 1 to 8.
+ * @returns The size with width and height swapped for orientations 5 to 8, which turn the image on its side.
+ */
+export const orientImageSize = (size: ImageSize, orientation: number): ImageSize =>
+    orientation >= 5 ? { width: size.height, height: size.width } : size;
+
+/**
+ * Checks an image size against the limits.
+ * @param size - The image size.
+ * @param limits - The configured limits.
+ * @returns The megapixels, whether a limit is exceeded and the size that would fit.
+ */
+export function checkImageSize(size: ImageSize, limits: Pick<ImageLimits, "maxMegapixels" | "maxDimension">): SizeCheck {
+    const pixels = size.width * size.height;
+    const scale = Math.min(
+        1,
+        Math.sqrt((limits.maxMegapixels * 1_000_000) / Math.max(1, pixels)),
+        limits.maxDimension / Math.max(1, size.width, size.height),
+    );
+    return {
+        megapixels: pixels / 1_000_000,
+        exceeds: scale < 1,
+        scale,
+        target: scale < 1
+            ? { width: Math.max(1, Math.floor(size.width * scale)), height: Math.max(1, Math.floor(size.height * scale)) }
+            : size,
+    };
+}
+
+/**
+ * Checks an animation against the limits. The screen has to fit like a still image, and since every frame is
+ * decoded at full screen size before it is filtered, all frames together have to stay within the megapixel limit.
+ * @param info - The animation info from probeAnimation.
+ * @param limits - The configured limits.
+ * @returns The check of the screen, with the megapixels of all frames and whether either limit is exceeded.
+ */
+export function checkAnimationSize(info: AnimationInfo, limits: Pick<ImageLimits, "maxMegapixels" | "maxDimension">): SizeCheck {
+    const screen = checkImageSize(info, limits);
+    const megapixels = (info.width * info.height * info.frameCount) / 1_000_000;
+    return { ...screen, megapixels, exceeds: screen.exceeds || megapixels > limits.maxMegapixels };
+}
+
+/**
+ * Works out the size an image should be decoded at.
+ * @param size - The stored size from readImageSize, or null if it is unknown.
+ * @param limits - The configured limits.
+ * @returns The reduced size, or null to decode at full size.
+ */
+export function resolveDecodeSize(size: ImageSize | null, limits: ImageLimits): ImageSize | null {
+    if (!size || limits.oversize !== "downscale") return null;
+    const check = checkImageSize(size, limits);
+    return check.exceeds ? check.target : null;
+}
+
+// Bytes read to find the size; JPEG headers can sit behind large EXIF thumbnails
+const HEADER_BYTES = 1024 * 1024;
+
+export interface FileInfo {
+    /** The format from the file signature, or null if it is not an image format known here. */
+    format: ImageFormat | null;
+    size: ImageSize | null;
+    /** Set for animated GIF and APNG files with more than one frame. */
+    animation: AnimationInfo | null;
+}
+
+/**
+ * Reads the format, size and animation info of a queued file without decoding it.
+ * Only GIF and APNG files are read in full, to count their frames.
+ * @param file - The image file.
+ * @returns The file info.
+ */
+export async function inspectFile(file: Blob): Promise<FileInfo> {
+    const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    const format = sniffImageFormat(header);
+    const size = readImageSize(header);
+    if (!isGif(header) && !isApng(header)) return { format, size, animation: null };
+
+    const bytes = file.size > header.length ? new Uint8Array(await file.arrayBuffer()) : header;
+    const animation = probeAnimation(bytes);
+    return { format, size, animation: animation && animation.frameCount > 1 ? animation : null };
+}
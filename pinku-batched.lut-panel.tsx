@@ -0,0 +1,109 @@
+import { useRef, useState, type ChangeEvent } from "react";
+import { Download, FileUp, XCircle } from "lucide-react";
+import { CUBE_SIZES, formatCube1D, formatCube3D, parseCube, type CubeLut } from "./pinku-batched.cube";
+import { generateGradientLUTs } from "./pinku-batched.filter";
+import { LUMINANCE_WEIGHTS, type LuminanceFormula } from "./pinku-batched.tone";
+import { slugify } from "./pinku-batched.export";
+import type { ColorStop } from "./pinku-batched.palettes";
+
+export interface LutPanelProps {
+    /** Effective gradient stops (already reversed if needed), which is what gets exported. */
+    stops: ColorStop[];
+    paletteName: string;
+    /** The luminance formula of the current tone settings; 3D exports are built with it. */
+    luminance: LuminanceFormula;
+    /** Whether luminance is computed in linear light. */
+    linearLuminance: boolean;
+    /** The imported LUT, or null to use the gradient map. */
+    cube: CubeLut | null;
+    onCubeChange: (cube: CubeLut | null) => void;
+}
+
+export default function LutPanel({ stops, paletteName, luminance, linearLuminance, cube, onCubeChange }: LutPanelProps) {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [exportSize, setExportSize] = useState<number>(33); // 0 means a 1D LUT
+    const [importError, setImportError] = useState<string | null>(null);
+
+    const handleExport = () => {
+        const luts = generateGradientLUTs(stops);
+        const text = exportSize === 0
+            ? formatCube1D(luts, paletteName)
+            : formatCube3D(luts, LUMINANCE_WEIGHTS[luminance], exportSize, paletteName, linearLuminance);
+        const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = `pinku_${slugify(paletteName) || "custom"}${exportSize === 0 ? "_1d" : ""}.cube`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    };
+
+    const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+        try {
+            const parsed = parseCube(await file.text());
+            onCubeChange({ ...parsed, title: parsed.title || file.name.replace(/\.cube$/i, "") });
+            setImportError(null);
+        } catch (error) {
+            setImportError(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    return (
+        <div className="bg-black/20 rounded-xl p-4 mb-4 text-sm grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="flex flex-col gap-1.5">
+                <span className="text-[#a4d7ba]">Export palette as .cube</span>
+                <div className="flex gap-2">
+                    <select
+                        value={exportSize}
+                        onChange={(e) => setExportSize(Number(e.target.value))}
+                        className="flex-1 bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30"
+                        aria-label="LUT type"
+                    >
+                        {CUBE_SIZES.map(size => (
+                            <option key={size} value={size}>3D, {size}×{size}×{size}</option>
+                        ))}
+                        <option value={0}>1D, 256 entries (grayscale footage)</option>
+                    </select>
+                    <button
+                        onClick={handleExport}
+                        className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-[#1e5034] hover:bg-[#2a6f47] transition-colors"
+                    >
+                        <Download size={16} />
+                        Download
+                    </button>
+                </div>
+                <p className="text-xs text-[#a4d7ba]/80">The export includes the reverse setting, the interpolation and the luminance settings.</p>
+            </div>
+
+            <div className="flex flex-col gap-1.5">
+                <span className="text-[#a4d7ba]">Import a 3D .cube LUT</span>
+                {cube ? (
+                    <div className="flex items-center gap-2 bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#27e47a]/50">
+                        <span className="flex-1 truncate">{cube.title} <span className="text-[#a4d7ba]">({cube.size}³)</span></span>
+                        <button onClick={() => onCubeChange(null)} className="text-[#a4d7ba] hover:text-white" aria-label="Remove the imported LUT">
+                            <XCircle size={16} />
+                        </button>
+                    </div>
+                ) : (
+                    <button
+                        onClick={() => inputRef.current?.click()}
+                        className="flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-[#1e5034] hover:bg-[#2a6f47] transition-colors"
+                    >
+                        <FileUp size={16} />
+                        Choose .cube File
+                    </button>
+                )}
+                <input ref={inputRef} type="file" accept=".cube" className="hidden" onChange={handleImport} />
+                <p className={`text-xs ${importError ? 'text-red-300' : 'text-[#a4d7ba]/80'}`}>
+                    {importError ?? (cube
+                        ? "The LUT replaces the gradient map and render mode; tone, blend and masks still apply."
+                        : "An imported LUT is applied to every image instead of the gradient map.")}
+                </p>
+            </div>
+        </div>
+    );
+}
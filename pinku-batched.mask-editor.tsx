@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState, type CSSProperties, type PointerEvent } from "react";
+import { Brush, Check, CircleDashed, Contrast, Eraser, SquareDashed, Trash2 } from "lucide-react";
+import { createMask, fillShape, invertMask, isEmptyMask, paintStroke, type ImageMask, type MaskRect, type MaskShape } from "./pinku-batched.mask";
+
+type MaskTool = "brush" | "eraser" | MaskShape;
+
+const TOOLS: { value: MaskTool; label: string; icon: typeof Brush }[] = [
+    { value: "brush", label: "Brush", icon: Brush },
+    { value: "eraser", label: "Eraser", icon: Eraser },
+    { value: "rectangle", label: "Rectangle selection", icon: SquareDashed },
+    { value: "ellipse", label: "Ellipse selection", icon: CircleDashed },
+];
+
+// Masked areas are tinted so they stand out on both light and dark images
+const OVERLAY_COLOR = [249, 159, 210];
+
+const copyMask = (mask: ImageMask): ImageMask => ({ ...mask, data: mask.data.slice() });
+
+export interface MaskEditorProps {
+    /** The current mask, or null if the image has none yet. */
+    mask: ImageMask | null;
+    /** The upright size of the image, used to size a new mask. */
+    imageWidth: number;
+    imageHeight: number;
+    /** Positions the overlay exactly over the displayed image. */
+    style: CSSProperties;
+    /** Called after every stroke or action; null once the mask keeps nothing. */
+    onChange: (mask: ImageMask | null) => void;
+    onClose: () => void;
+}
+
+export default function MaskEditor({ mask, imageWidth, imageHeight, style, onChange, onClose }: MaskEditorProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const workingRef = useRef<ImageMask>(mask ? copyMask(mask) : createMask(imageWidth, imageHeight));
+    const dragRef = useRef<{ x: number; y: number; erase: boolean } | null>(null);
+    const [tool, setTool] = useState<MaskTool>("brush");
+    const [size, setSize] = useState<number>(5);
+    const [feather, setFeather] = useState<number>(50);
+    const [selection, setSelection] = useState<MaskRect | null>(null);
+
+    const draw = () => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (!canvas || !ctx) return;
+        const { width, height, data } = workingRef.current;
+        canvas.width = width;
+        canvas.height = height;
+        const overlay = ctx.createImageData(width, height);
+        for (let p = 0, i = 0; p < data.length; p++, i += 4) {
+            overlay.data[i] = OVERLAY_COLOR[0];
+            overlay.data[i + 1] = OVERLAY_COLOR[1];
+            overlay.data[i + 2] = OVERLAY_COLOR[2];
+            overlay.data[i + 3] = data[p] * 0.6;
+        }
+        ctx.putImageData(overlay, 0, 0);
+    };
+
+    // Follow the mask from outside, e.g. when another image is shown
+    useEffect(() => {
+        workingRef.current = mask ? copyMask(mask) : createMask(imageWidth, imageHeight);
+        draw();
+    }, [mask, imageWidth, imageHeight]);
+
+    const commit = () => {
+        draw();
+        onChange(isEmptyMask(workingRef.current) ? null : copyMask(workingRef.current));
+    };
+
+    const toMaskPoint = (e: PointerEvent<HTMLCanvasElement>) => {
+        const bounds = e.currentTarget.getBoundingClientRect();
+        const { width, height } = workingRef.current;
+        return { x: ((e.clientX - bounds.left) / bounds.width) * width, y: ((e.clientY - bounds.top) / bounds.height) * height };
+    };
+
+    const brushRadius = () => {
+        const { width, height } = workingRef.current;
+        return (Math.max(width, height) * size) / 200;
+    };
+
+    const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+        e.stopPropagation(); // Keep the preview from panning underneath
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const point = toMaskPoint(e);
+        // Alt subtracts with the selection tools, the way most editors do
+        dragRef.current = { ...point, erase: tool === "eraser" || e.altKey };
+        if (tool === "brush" || tool === "eraser") {
+            paintStroke(workingRef.current, point, point, brushRadius(), feather / 100, tool === "eraser");
+            draw();
+        } else {
+            setSelection({ ...point, width: 0, height: 0 });
+        }
+    };
+
+    const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        const point = toMaskPoint(e);
+        if (tool === "brush" || tool === "eraser") {
+            paintStroke(workingRef.current, drag, point, brushRadius(), feather / 100, tool === "eraser");
+            dragRef.current = { ...drag, ...point };
+            draw();
+        } else {
+            setSelection({ x: drag.x, y: drag.y, width: point.x - drag.x, height: point.y - drag.y });
+        }
+    };
+
+    const handlePointerUp = () => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        dragRef.current = null;
+        if ((tool === "rectangle" || tool === "ellipse") && selection) {
+            fillShape(workingRef.current, tool, selection, feather / 100, drag.erase);
+            setSelection(null);
+        }
+        commit();
+    };
+
+    const { width: maskWidth, height: maskHeight } = workingRef.current;
+
+    return (
+        <>
+            <div className="absolute left-1/2 top-1/2 max-w-none" style={style}>
+                <canvas
+                    ref={canvasRef}
+                    className={`absolute inset-0 w-full h-full ${tool === "brush" || tool === "eraser" ? 'cursor-crosshair' : 'cursor-cell'}`}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    aria-label="Mask, drag to paint"
+                />
+                {selection && (
+                    <div
+                        className={`absolute border-2 border-dashed border-white pointer-events-none ${tool === "ellipse" ? 'rounded-[50%]' : ''}`}
+                        style={{
+                            left: `${(Math.min(selection.x, selection.x + selection.width) / maskWidth) * 100}%`,
+                            top: `${(Math.min(selection.y, selection.y + selection.height) / maskHeight) * 100}%`,
+                            width: `${(Math.abs(selection.width) / maskWidth) * 100}%`,
+                            height: `${(Math.abs(selection.height) / maskHeight) * 100}%`,
+                        }}
+                    />
+                )}
+            </div>
+
+            <div
+                className="absolute bottom-3 left-1/2 -translate-x-1/2 flex flex-wrap items-center justify-center gap-3 bg-black/80 text-white text-sm rounded-xl px-4 py-2"
+                onPointerDown={(e) => e.stopPropagation()}
+            >
+                <div className="flex gap-1" role="group" aria-label="Mask tool">
+                    {TOOLS.map(({ value, label, icon: Icon }) => (
+                        <button
+                            key={value}
+                            onClick={() => setTool(value)}
+                            className={`p-2 rounded-lg transition-colors ${tool === value ? 'bg-white/30' : 'bg-white/10 hover:bg-white/20'}`}
+                            aria-label={label}
+                            aria-pressed={tool === value}
+                            title={value === "rectangle" || value === "ellipse" ? `${label} (hold Alt to subtract)` : label}
+                        >
+                            <Icon size={16} />
+                        </button>
+                    ))}
+                </div>
+                <label className="flex items-center gap-2">
+                    <span className="text-white/70">Size</span>
+                    <input type="range" min={1} max={25} value={size} onChange={(e) => setSize(Number(e.target.value))} className="w-24 accent-[#27e47a]" />
+                    <span className="w-8 tabular-nums">{size}%</span>
+                </label>
+                <label className="flex items-center gap-2">
+                    <span className="text-white/70">Feather</span>
+                    <input type="range" min={0} max={100} value={feather} onChange={(e) => setFeather(Number(e.target.value))} className="w-24 accent-[#27e47a]" />
+                    <span className="w-8 tabular-nums">{feather}%</span>
+                </label>
+                <div className="flex gap-1">
+                    <button
+                        onClick={() => { invertMask(workingRef.current); commit(); }}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20"
+                    >
+                        <Contrast size={16} />
+                        Invert
+                    </button>
+                    <button
+                        onClick={() => { workingRef.current.data.fill(0); commit(); }}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20"
+                    >
+                        <Trash2 size={16} />
+                        Clear
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-[#27e47a] hover:bg-[#22c56e] text-[#010c05] font-bold"
+                    >
+                        <Check size={16} />
+                        Done
+                    </button>
+                </div>
+            </div>
+        </>
+    );
+}
@@ -0,0 +1,190 @@
+// Per-image masks that keep parts of an image in their original colors, such as faces or logos.
+// A mask covers the upright source image at a reduced resolution and is scaled to the output when applied.
+
+export interface ImageMask {
+    width: number;
+    height: number;
+    /** Coverage per pixel: 0 filters the pixel as usual, 255 keeps its original color. */
+    data: Uint8Array;
+}
+
+export type MaskShape = "rectangle" | "ellipse";
+
+/** Area in mask pixels, from one corner to the opposite one. */
+export interface MaskRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Longest side of a mask; feathered edges hide the upscaling, and masks stay small enough to hand to workers. */
+export const MASK_MAX_DIMENSION = 1024;
+
+/**
+ * Creates an empty mask sized to an image's aspect ratio.
+ * @param imageWidth - The upright image width.
+ * @param imageHeight - The upright image height.
+ * @returns A mask that keeps nothing.
+ */
+export function createMask(imageWidth: number, imageHeight: number): ImageMask {
+    const scale = Math.min(1, MASK_MAX_DIMENSION / Math.max(imageWidth, imageHeight));
+    const width = Math.max(1, Math.round(imageWidth * scale));
+    const height = Math.max(1, Math.round(imageHeight * scale));
+    return { width, height, data: new Uint8Array(width * height) };
+}
+
+/**
+ * Checks whether a mask keeps any pixel, so an untouched mask can be dropped.
+ * @param mask - The mask.
+ * @returns True if every pixel is filtered as usual.
+ */
+export const isEmptyMask = (mask: ImageMask) => mask.data.every(value => value === 0);
+
+// Painting keeps the strongest coverage and erasing the weakest, so overlapping dabs do not build up
+const paint = (data: Uint8Array, index: number, coverage: number, erase: boolean) => {
+    const value = Math.round(coverage * 255);
+    data[index] = erase ? Math.min(data[index], 255 - value) : Math.max(data[index], value);
+};
+
+// Coverage from 1 inside `inner` down to 0 at the edge, for a distance normalized so the edge is at 1
+const falloff = (distance: number, inner: number) =>
+    distance <= inner ? 1 : distance >= 1 ? 0 : (1 - distance) / (1 - inner);
+
+/**
+ * Paints a brush stroke segment with round, optionally soft dabs.
+ * @param mask - The mask, modified in place.
+ * @param from - The segment start in mask pixels.
+ * @param to - The segment end in mask pixels.
+ * @param radius - The brush radius in mask pixels.
+ * @param feather - The soft part of the brush, from 0 (hard edge) to 1 (soft all the way to the center).
+ * @param erase - True to remove coverage instead of adding it.
+ */
+export function paintStroke(
+    mask: ImageMask,
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    radius: number,
+    feather: number,
+    erase = false,
+) {
+    const { width, height, data } = mask;
+    const inner = 1 - Math.min(1, Math.max(0, feather));
+    const r = Math.max(0.5, radius);
+    const left = Math.max(0, Math.floor(Math.min(from.x, to.x) - r));
+    const right = Math.min(width - 1, Math.ceil(Math.max(from.x, to.x) + r));
+    const top = Math.max(0, Math.floor(Math.min(from.y, to.y) - r));
+    const bottom = Math.min(height - 1, Math.ceil(Math.max(from.y, to.y) + r));
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const lengthSquared = dx * dx + dy * dy;
+
+    for (let y = top; y <= bottom; y++) {
+        for (let x = left; x <= right; x++) {
+            const px = x + 0.5;
+            const py = y + 0.5;
+            // Distance to the closest point of the segment, which is the same as sweeping the dab along it
+            const t = lengthSquared > 0 ? Math.min(1, Math.max(0, ((px - from.x) * dx + (py - from.y) * dy) / lengthSquared)) : 0;
+            const distance = Math.hypot(px - (from.x + t * dx), py - (from.y + t * dy)) / r;
+            const coverage = falloff(distance, inner);
+            if (coverage > 0) paint(data, y * width + x, coverage, erase);
+        }
+    }
+}
+
+/**
+ * Fills a rectangle or ellipse selection.
+ * @param mask - The mask, modified in place.
+ * @param shape - The selection shape.
+ * @param rect - The bounding box in mask pixels; negative sizes are allowed for boxes dragged up or left.
+ * @param feather - The soft part of the edge, from 0 (hard) to 1 (soft all the way to the center).
+ * @param erase - True to remove coverage instead of adding it.
+ */
+export function fillShape(mask: ImageMask, shape: MaskShape, rect: MaskRect, feather: number, erase = false) {
+    const { width, height, data } = mask;
+    const inner = 1 - Math.min(1, Math.max(0, feather));
+    const x0 = Math.min(rect.x, rect.x + rect.width);
+    const y0 = Math.min(rect.y, rect.y + rect.height);
+    const rx = Math.abs(rect.width) / 2;
+    const ry = Math.abs(rect.height) / 2;
+    if (rx < 0.5 || ry < 0.5) return;
+    const cx = x0 + rx;
+    const cy = y0 + ry;
+
+    for (let y = Math.max(0, Math.floor(y0)); y < Math.min(height, Math.ceil(y0 + ry * 2)); y++) {
+        for (let x = Math.max(0, Math.floor(x0)); x < Math.min(width, Math.ceil(x0 + rx * 2)); x++) {
+            const nx = Math.abs(x + 0.5 - cx) / rx;
+            const ny = Math.abs(y + 0.5 - cy) / ry;
+            // A rectangle's soft edge is as wide on every side, measured against its shorter half-side
+            const distance = shape === "ellipse"
+                ? Math.hypot(nx, ny)
+                : 1 - Math.min((1 - nx) * rx, (1 - ny) * ry) / Math.min(rx, ry);
+            const coverage = falloff(distance, inner);
+            if (coverage > 0) paint(data, y * width + x, coverage, erase);
+        }
+    }
+}
+
+/**
+ * Swaps kept and filtered areas, so a selection can mean "filter only this".
+ * @param mask - The mask, modified in place.
+ */
+export function invertMask(mask: ImageMask) {
+    for (let i = 0; i < mask.data.length; i++) mask.data[i] = 255 - mask.data[i];
+}
+
+/**
+ * Scales part of a mask to rows of an output image, with bilinear sampling.
+ * @param mask - The mask.
+ * @param region - The part of the image the output shows, as fractions of its width and height.
+ * @param width - The output width.
+ * @param height - The output height.
+ * @param top - The first output row to sample.
+ * @param rows - The number of rows to sample.
+ * @returns The coverage of those rows, one byte per pixel.
+ */
+export function sampleMask(
+    mask: ImageMask,
+    region: MaskRect,
+    width: number,
+    height: number,
+    top: number,
+    rows: number,
+): Uint8Array {
+    const coverage = new Uint8Array(width * rows);
+    const at = (x: number, y: number) =>
+        mask.data[Math.min(mask.height - 1, Math.max(0, y)) * mask.width + Math.min(mask.width - 1, Math.max(0, x))];
+
+    const columns = new Float32Array(width);
+    for (let x = 0; x < width; x++) columns[x] = (region.x + ((x + 0.5) / width) * region.width) * mask.width - 0.5;
+
+    for (let row = 0; row < rows; row++) {
+        const my = (region.y + ((top + row + 0.5) / height) * region.height) * mask.height - 0.5;
+        const y = Math.floor(my);
+        const fy = my - y;
+        for (let x = 0; x < width; x++) {
+            const mx = Math.floor(columns[x]);
+            const fx = columns[x] - mx;
+            const upper = at(mx, y) * (1 - fx) + at(mx + 1, y) * fx;
+            const lower = at(mx, y + 1) * (1 - fx) + at(mx + 1, y + 1) * fx;
+            coverage[row * width + x] = Math.round(upper * (1 - fy) + lower * fy);
+        }
+    }
+    return coverage;
+}
+
+/**
+ * Brings back the original color of masked pixels. Alpha is left as it is.
+ * @param filtered - The filtered pixels, modified in place.
+ * @param source - The same pixels before filtering.
+ * @param coverage - The mask coverage per pixel, from sampleMask.
+ */
+export function applyMask(filtered: Uint8ClampedArray, source: Uint8ClampedArray, coverage: Uint8Array) {
+    for (let p = 0, i = 0; p < coverage.length; p++, i += 4) {
+        const keep = coverage[p] / 255;
+        if (keep === 0) continue;
+        filtered[i] += (source[i] - filtered[i]) * keep;
+        filtered[i + 1] += (source[i + 1] - filtered[i + 1]) * keep;
+        filtered[i + 2] += (source[i + 2] - filtered[i + 2]) * keep;
+    }
+}
@@ -0,0 +1,304 @@
+import { useEffect, useRef, useState, type KeyboardEvent, type PointerEvent } from "react";
+import { ArrowRightLeft, Save, Trash2 } from "lucide-react";
+import { generateGradientLUTs, sampleGradient } from "./pinku-batched.filter";
+import { BUILT_IN_PALETTES, loadUserPalettes, parseColor, reverseStops, saveUserPalettes, toCssGradient, toHex, type ColorStop, type Palette, type RGB } from "./pinku-batched.palettes";
+import { INTERPOLATION_SPACES, interpolateStops, type InterpolationSpace } from "./pinku-batched.colorspace";
+
+const sameColor = (a: RGB, b: RGB) => a.every((channel, i) => channel === b[i]);
+
+const sameStops = (a: ColorStop[], b: ColorStop[]) => {
+    if (a.length !== b.length) return false;
+    const sortedA = [...a].sort((x, y) => x.position - y.position);
+    const sortedB = [...b].sort((x, y) => x.position - y.position);
+    return sortedA.every((stop, i) => stop.position === sortedB[i].position && sameColor(stop.color, sortedB[i].color));
+};
+
+// --- Gradient swatch drawn straight from the LUTs, so it matches the output exactly ---
+const GradientSwatch = ({ stops, className = "h-6" }: { stops: ColorStop[]; className?: string; }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext("2d");
+        if (!ctx) return;
+        const { rLUT, gLUT, bLUT } = generateGradientLUTs(stops);
+        const imageData = ctx.createImageData(256, 1);
+        for (let i = 0; i < 256; i++) {
+            imageData.data[i * 4] = rLUT[i];
+            imageData.data[i * 4 + 1] = gLUT[i];
+            imageData.data[i * 4 + 2] = bLUT[i];
+            imageData.data[i * 4 + 3] = 255;
+        }
+        ctx.putImageData(imageData, 0, 0);
+    }, [stops]);
+
+    return <canvas ref={canvasRef} width={256} height={1} className={`w-full ${className} rounded-md border border-[#a4d7ba]/40`} />;
+};
+
+// --- Color picker with a free-form hex/RGB/HSL text field ---
+const ColorField = ({ label, color, onChange }: { label: string; color: RGB; onChange: (color: RGB) => void; }) => {
+    const [draft, setDraft] = useState<string>(toHex(color));
+    const [isInvalid, setIsInvalid] = useState<boolean>(false);
+
+    useEffect(() => {
+        setDraft(toHex(color));
+        setIsInvalid(false);
+    }, [color]);
+
+    const commit = () => {
+        const parsed = parseColor(draft);
+        if (parsed) {
+            onChange(parsed);
+        } else {
+            setIsInvalid(true);
+        }
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === "Enter") commit();
+    };
+
+    return (
+        <label className="flex items-center gap-2 text-sm">
+            <span className="w-20 text-[#a4d7ba]">{label}</span>
+            <input
+                type="color"
+                value={toHex(color)}
+                onChange={(e) => onChange(parseColor(e.target.value) ?? color)}
+                className="w-9 h-9 rounded cursor-pointer bg-transparent"
+                aria-label={`${label} color picker`}
+            />
+            <input
+                type="text"
+                value={draft}
+                onChange={(e) => { setDraft(e.target.value); setIsInvalid(false); }}
+                onBlur={commit}
+                onKeyDown={handleKeyDown}
+                placeholder="#rrggbb, rgb(), hsl()"
+                className={`flex-1 min-w-0 bg-[#010c05]/50 rounded-md px-2 py-1.5 font-mono text-xs border ${isInvalid ? 'border-red-500' : 'border-[#a4d7ba]/30'}`}
+                aria-label={`${label} color value`}
+                aria-invalid={isInvalid}
+            />
+        </label>
+    );
+};
+
+// --- Gradient map editor: click the bar to add a stop, drag handles to move them ---
+const GradientEditor = ({ stops, onChange }: { stops: ColorStop[]; onChange: (stops: ColorStop[]) => void; }) => {
+    const [selectedIndex, setSelectedIndex] = useState<number>(0);
+    const barRef = useRef<HTMLDivElement>(null);
+    const draggingIndex = useRef<number | null>(null);
+    const activeIndex = Math.min(selectedIndex, stops.length - 1);
+    const selected = stops[activeIndex];
+
+    const positionFromPointer = (clientX: number) => {
+        const rect = barRef.current!.getBoundingClientRect();
+        return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    };
+
+    const updateStop = (index: number, stop: Partial<ColorStop>) => {
+        onChange(stops.map((existing, i) => i === index ? { ...existing, ...stop } : existing));
+    };
+
+    const handleBarPointerDown = (e: PointerEvent<HTMLDivElement>) => {
+        if (e.target !== e.currentTarget) return;
+        const position = positionFromPointer(e.clientX);
+        onChange([...stops, { position, color: sampleGradient(stops, position).map(Math.round) as RGB }]);
+        setSelectedIndex(stops.length);
+    };
+
+    const handleStopPointerDown = (e: PointerEvent<HTMLButtonElement>, index: number) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        draggingIndex.current = index;
+        setSelectedIndex(index);
+    };
+
+    const handleStopPointerMove = (e: PointerEvent<HTMLButtonElement>) => {
+        if (draggingIndex.current === null) return;
+        updateStop(draggingIndex.current, { position: positionFromPointer(e.clientX) });
+    };
+
+    const handleDeleteStop = () => {
+        if (stops.length <= 2) return;
+        onChange(stops.filter((_, i) => i !== activeIndex));
+        setSelectedIndex(0);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div
+                ref={barRef}
+                className="relative h-8 rounded-md border border-[#a4d7ba]/40 cursor-copy"
+                style={{ background: toCssGradient(stops) }}
+                onPointerDown={handleBarPointerDown}
+                title="Click to add a color stop"
+            >
+                {stops.map((stop, index) => (
+                    <button
+                        key={index}
+                        onPointerDown={(e) => handleStopPointerDown(e, index)}
+                        onPointerMove={handleStopPointerMove}
+                        onPointerUp={() => { draggingIndex.current = null; }}
+                        className={`absolute top-1/2 w-4 h-10 -translate-x-1/2 -translate-y-1/2 rounded-sm border-2 cursor-ew-resize touch-none ${stop === selected ? 'border-white' : 'border-black/60'}`}
+                        style={{ left: `${stop.position * 100}%`, background: toHex(stop.color) }}
+                        aria-label={`Color stop at ${Math.round(stop.position * 100)}%`}
+                    />
+                ))}
+            </div>
+
+            {selected && (
+                <div className="flex flex-wrap items-center gap-3">
+                    <div className="flex-1 min-w-[16rem]">
+                        <ColorField label="Stop color" color={selected.color} onChange={(color) => updateStop(activeIndex, { color })} />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm">
+                        <span className="text-[#a4d7ba]">Position</span>
+                        <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={Math.round(selected.position * 100)}
+                            onChange={(e) => updateStop(activeIndex, { position: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })}
+                            className="w-16 bg-[#010c05]/50 rounded-md px-2 py-1.5 text-xs border border-[#a4d7ba]/30"
+                        />
+                        <span className="text-[#a4d7ba]">%</span>
+                    </label>
+                    <button
+                        onClick={handleDeleteStop}
+                        disabled={stops.length <= 2}
+                        className="flex items-center gap-1.5 text-sm px-3 py-1.5 rounded-lg bg-[#1e5034] hover:bg-red-500/60 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        aria-label="Delete selected color stop"
+                    >
+                        <Trash2 size={14} />
+                        Delete Stop
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export interface PalettePanelProps {
+    stops: ColorStop[];
+    isReversed: boolean;
+    /** Receives the preset name when a preset is picked, or no name after a manual edit. */
+    onChange: (stops: ColorStop[], name?: string) => void;
+    onToggleReverse: () => void;
+    /** The color space the gradient is blended in. */
+    interpolation: InterpolationSpace;
+    onInterpolationChange: (interpolation: InterpolationSpace) => void;
+}
+
+export default function PalettePanel({ stops, isReversed, onChange, onToggleReverse, interpolation, onInterpolationChange }: PalettePanelProps) {
+    const [userPalettes, setUserPalettes] = useState<Palette[]>(() => loadUserPalettes());
+    const [presetName, setPresetName] = useState<string>("");
+    const palettes = [...BUILT_IN_PALETTES, ...userPalettes];
+    const displayedStops = isReversed ? reverseStops(stops) : stops;
+
+    const handleSavePreset = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        const updated = [...userPalettes, { id: `user-${Date.now()}`, name, stops }];
+        setUserPalettes(updated);
+        saveUserPalettes(updated);
+        onChange(stops, name);
+        setPresetName("");
+    };
+    const handleDeletePreset = (id: string) => {
+        const updated = userPalettes.filter(palette => palette.id !== id);
+        setUserPalettes(updated);
+        saveUserPalettes(updated);
+    };
+
+    return (
+        <div className="bg-black/20 rounded-xl p-4 mb-4 space-y-4">
+            <div className="flex flex-wrap gap-2">
+                {palettes.map(palette => {
+                    const isActive = sameStops(palette.stops, stops);
+                    return (
+                        <div key={palette.id} className={`flex items-center rounded-lg border transition-colors ${isActive ? 'border-[#27e47a] bg-[#27e47a]/10' : 'border-[#a4d7ba]/30 hover:border-[#a4d7ba]/60'}`}>
+                            <button
+                                onClick={() => onChange(palette.stops, palette.name)}
+                                className="flex items-center gap-2 px-3 py-1.5 text-sm"
+                            >
+                                <span
+                                    className="w-8 h-4 rounded-sm"
+                                    style={{ background: toCssGradient(palette.stops) }}
+                                />
+                                {palette.name}
+                            </button>
+                            {!palette.builtIn && (
+                                <button
+                                    onClick={() => handleDeletePreset(palette.id)}
+                                    className="pr-2 text-[#a4d7ba] hover:text-red-400 transition-colors"
+                                    aria-label={`Delete preset ${palette.name}`}
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <GradientEditor stops={stops} onChange={(edited) => onChange(edited)} />
+
+            <div className="flex items-center gap-3">
+                <div className="flex-1">
+                    <GradientSwatch stops={interpolateStops(displayedStops, interpolation)} />
+                </div>
+                <button
+                    onClick={onToggleReverse}
+                    title="Reverse shadow and highlight colors"
+                    className={`flex items-center gap-2 text-sm px-4 py-2 rounded-lg transition-colors ${isReversed ? 'bg-[#2a6f47]' : 'bg-[#1e5034] hover:bg-[#2a6f47]'}`}
+                >
+                    <ArrowRightLeft size={16} />
+                    <span>{isReversed ? "Reversed" : "Reverse"}</span>
+                </button>
+            </div>
+
+            <div className="space-y-1.5">
+                <span className="text-sm text-[#a4d7ba]">Interpolation: compare the midtones, where blending in sRGB turns muddy</span>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {INTERPOLATION_SPACES.map(space => {
+                        const resampled = interpolateStops(displayedStops, space.value);
+                        return (
+                            <button
+                                key={space.value}
+                                onClick={() => onInterpolationChange(space.value)}
+                                aria-pressed={interpolation === space.value}
+                                className={`flex items-center gap-2 text-sm px-2 py-1.5 rounded-lg border transition-colors ${interpolation === space.value ? 'border-[#27e47a] bg-[#27e47a]/10' : 'border-[#a4d7ba]/30 hover:border-[#a4d7ba]/60'}`}
+                            >
+                                <span className="w-24 text-left">{space.label}</span>
+                                <span className="flex-1"><GradientSwatch stops={resampled} className="h-4" /></span>
+                                <span
+                                    className="w-4 h-4 rounded border border-[#a4d7ba]/40"
+                                    style={{ backgroundColor: toHex(sampleGradient(resampled, 0.5).map(Math.round) as RGB) }}
+                                    title="Midtone (50%)"
+                                ></span>
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === "Enter") handleSavePreset(); }}
+                    placeholder="Preset name"
+                    className="flex-1 min-w-0 bg-[#010c05]/50 rounded-md px-3 py-2 text-sm border border-[#a4d7ba]/30"
+                />
+                <button
+                    onClick={handleSavePreset}
+                    disabled={!presetName.trim()}
+                    className="flex items-center gap-2 text-sm px-4 py-2 rounded-lg bg-[#1e5034] hover:bg-[#2a6f47] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <Save size={16} />
+                    Save Preset
+                </button>
+            </div>
+        </div>
+    );
+}
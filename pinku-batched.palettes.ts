@@ -0,0 +1,194 @@
+// Palette definitions, color parsing and the localStorage-backed preset library.
+
+/** An sRGB color as [red, green, blue], each channel from 0 to 255. */
+export type RGB = [number, number, number];
+
+export const GREEN_SHADOW: RGB = [22, 80, 39];
+export const PINK_HIGHLIGHT: RGB = [249, 159, 210];
+
+export interface ColorStop {
+    /** Luminance position of the stop, from 0 (black) to 1 (white). */
+    position: number;
+    color: RGB;
+}
+
+export interface Palette {
+    id: string;
+    name: string;
+    stops: ColorStop[];
+    builtIn?: boolean;
+}
+
+/**
+ * Builds the two stops of a classic shadow/highlight duotone.
+ * @param shadow - The RGB array mapped to black.
+ * @param highlight - The RGB array mapped to white.
+ * @returns The gradient stops.
+ */
+export const duotoneStops = (shadow: RGB, highlight: RGB): ColorStop[] => [
+    { position: 0, color: shadow },
+    { position: 1, color: highlight },
+];
+
+/**
+ * Mirrors a gradient so that its shadows and highlights swap places.
+ * @param stops - The gradient stops.
+ * @returns The reversed gradient stops.
+ */
+export const reverseStops = (stops: ColorStop[]): ColorStop[] =>
+    stops.map(stop => ({ position: 1 - stop.position, color: stop.color }));
+
+export const BUILT_IN_PALETTES: Palette[] = [
+    { id: "pinku", name: "Pinku", stops: duotoneStops(GREEN_SHADOW, PINK_HIGHLIGHT), builtIn: true },
+    { id: "riso-blue-pink", name: "Riso Blue & Fluoro Pink", stops: duotoneStops([0, 120, 191], [255, 72, 176]), builtIn: true },
+    { id: "sepia", name: "Sepia", stops: duotoneStops([43, 26, 14], [240, 222, 180]), builtIn: true },
+    { id: "midnight", name: "Midnight", stops: duotoneStops([16, 18, 56], [120, 220, 232]), builtIn: true },
+    { id: "sunset", name: "Sunset", stops: duotoneStops([70, 18, 84], [255, 190, 92]), builtIn: true },
+    {
+        id: "pinku-tritone", name: "Pinku Tritone", builtIn: true,
+        stops: [{ position: 0, color: GREEN_SHADOW }, { position: 0.5, color: [39, 228, 122] }, { position: 1, color: PINK_HIGHLIGHT }],
+    },
+    {
+        id: "heatmap", name: "Heatmap", builtIn: true,
+        stops: [{ position: 0, color: [12, 7, 60] }, { position: 0.4, color: [196, 38, 88] }, { position: 0.75, color: [252, 150, 40] }, { position: 1, color: [252, 250, 200] }],
+    },
+];
+
+const STORAGE_KEY = "pinku-batched:palettes";
+
+const clampChannel = (value: number) => Math.min(255, Math.max(0, Math.round(value)));
+
+/**
+ * Converts an HSL color to RGB.
+ * @param h - Hue in degrees.
+ * @param s - Saturation from 0 to 1.
+ * @param l - Lightness from 0 to 1.
+ * @returns The RGB array.
+ */
+function hslToRgb(h: number, s: number, l: number): RGB {
+    const hue = ((h % 360) + 360) % 360;
+    const chroma = (1 - Math.abs(2 * l - 1)) * s;
+    const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+    const m = l - chroma / 2;
+    const [r, g, b] =
+        hue < 60 ? [chroma, x, 0] :
+        hue < 120 ? [x, chroma, 0] :
+        hue < 180 ? [0, chroma, x] :
+        hue < 240 ? [0, x, chroma] :
+        hue < 300 ? [x, 0, chroma] :
+        [chroma, 0, x];
+    return [clampChannel((r + m) * 255), clampChannel((g + m) * 255), clampChannel((b + m) * 255)];
+}
+
+/**
+ * Parses a color written as hex (#rgb / #rrggbb), rgb(r, g, b) or hsl(h, s%, l%).
+ * @param input - The color string typed by the user.
+ * @returns The RGB array, or null if the string is not a recognised color.
+ */
+export function parseColor(input: string): RGB | null {
+    const value = input.trim().toLowerCase();
+
+    const hex = value.match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/);
+    if (hex) {
+        const digits = hex[1].length === 3 ? hex[1].split("").map(d => d + d).join("") : hex[1];
+        return [0, 2, 4].map(offset => parseInt(digits.slice(offset, offset + 2), 16)) as RGB;
+    }
+
+    const rgb = value.match(/^rgb\(\s*(\d{1,3})\s*[, ]\s*(\d{1,3})\s*[, ]\s*(\d{1,3})\s*\)$/);
+    if (rgb) {
+        const channels = rgb.slice(1, 4).map(Number) as RGB;
+        return channels.every(channel => channel <= 255) ? channels : null;
+    }
+
+    const hsl = value.match(/^hsl\(\s*(-?\d+(?:\.\d+)?)(?:deg)?\s*[, ]\s*(\d+(?:\.\d+)?)%\s*[, ]\s*(\d+(?:\.\d+)?)%\s*\)$/);
+    if (hsl) {
+        const [h, s, l] = hsl.slice(1, 4).map(Number);
+        if (s > 100 || l > 100) return null;
+        return hslToRgb(h, s / 100, l / 100);
+    }
+
+    return null;
+}
+
+/**
+ * Formats an RGB array as a #rrggbb hex string.
+ * @param color - The RGB array.
+ * @returns The hex string.
+ */
+export function toHex(color: number[]): string {
+    return "#" + color.map(channel => clampChannel(channel).toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Builds a CSS linear-gradient that approximates the gradient map, for swatches and chips.
+ * @param stops - The gradient stops.
+ * @returns The CSS background value.
+ */
+export function toCssGradient(stops: ColorStop[]): string {
+    const sorted = [...stops].sort((a, b) => a.position - b.position);
+    return `linear-gradient(to right, ${sorted.map(stop => `${toHex(stop.color)} ${(stop.position * 100).toFixed(1)}%`).join(", ")})`;
+}
+
+/**
+ * Resolves a palette given by name, e.g. on the command line or in an API request.
+ * @param value - A built-in palette id or name, or comma-separated colors from shadow to highlight.
+ * @returns The gradient stops and a display name, or null if the value is neither.
+ */
+export function resolvePalette(value: string): { stops: ColorStop[]; name: string } | null {
+    const key = value.trim().toLowerCase();
+    const builtIn = BUILT_IN_PALETTES.find(palette => palette.id === key || palette.name.toLowerCase() === key);
+    if (builtIn) return { stops: builtIn.stops, name: builtIn.name };
+
+    // Split on commas that are not inside rgb()/hsl()
+    const colors = value.split(/,(?![^(]*\))/).map(part => parseColor(part));
+    if (colors.length < 2 || colors.some(color => color === null)) return null;
+    return {
+        stops: colors.map((color, i) => ({ position: i / (colors.length - 1), color: color! })),
+        name: "custom",
+    };
+}
+
+const isColor = (value: unknown): value is RGB =>
+    Array.isArray(value) && value.length === 3 && value.every(channel => typeof channel === "number");
+
+const isStop = (value: unknown): value is ColorStop => {
+    if (!value || typeof value !== "object") return false;
+    const { position, color } = value as Partial<ColorStop>;
+    return typeof position === "number" && isColor(color);
+};
+
+/**
+ * Reads the user-created palettes from localStorage, skipping anything malformed.
+ * Presets saved before gradient stops existed are converted from their shadow/highlight pair.
+ * @returns The saved palettes, or an empty list if none are stored.
+ */
+export function loadUserPalettes(): Palette[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+        if (!Array.isArray(stored)) return [];
+        return stored.flatMap((p): Palette[] => {
+            if (!p || typeof p.id !== "string" || typeof p.name !== "string") return [];
+            if (Array.isArray(p.stops) && p.stops.length >= 2 && p.stops.every(isStop)) {
+                return [{ id: p.id, name: p.name, stops: p.stops }];
+            }
+            if (isColor(p.shadow) && isColor(p.highlight)) {
+                return [{ id: p.id, name: p.name, stops: duotoneStops(p.shadow, p.highlight) }];
+            }
+            return [];
+        });
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Writes the user-created palettes to localStorage.
+ * @param palettes - The palettes to persist. Built-in palettes should not be included.
+ */
+export function saveUserPalettes(palettes: Palette[]) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(palettes.map(({ builtIn, ...palette }) => palette)));
+    } catch (error) {
+        console.error("Failed to save palettes:", error);
+    }
+}
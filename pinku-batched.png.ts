@@ -0,0 +1,241 @@
+// Pure TypeScript PNG decoder and encoder for the headless CLI. Only zlib comes from the runtime.
+
+import { deflateSync, inflateSync } from "node:zlib";
+import { crc32 } from "./pinku-batched.zip";
+import type { RawImage } from "./pinku-batched.codec";
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Channels per pixel for each PNG color type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Adam7 passes as [xStart, yStart, xStep, yStep]
+const ADAM7: [number, number, number, number][] = [
+    [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2],
+];
+
+interface Header {
+    width: number;
+    height: number;
+    bitDepth: number;
+    colorType: number;
+    interlace: number;
+}
+
+/**
+ * Checks the 8-byte PNG signature.
+ * @param bytes - The file contents.
+ * @returns True if the bytes start like a PNG file.
+ */
+export const isPng = (bytes: Uint8Array) => SIGNATURE.every((byte, i) => bytes[i] === byte);
+
+const paeth = (a: number, b: number, c: number) => {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+// Reverses the per-row filters of one (sub)image; `bpp` is the byte distance to the left neighbour
+function unfilter(data: Uint8Array, offset: number, stride: number, rows: number, bpp: number): Uint8Array {
+    const out = new Uint8Array(stride * rows);
+    for (let y = 0; y < rows; y++) {
+        const filter = data[offset + y * (stride + 1)];
+        const src = offset + y * (stride + 1) + 1;
+        const row = y * stride;
+        const prev = row - stride;
+        for (let x = 0; x < stride; x++) {
+            const left = x >= bpp ? out[row + x - bpp] : 0;
+            const up = y > 0 ? out[prev + x] : 0;
+            const upLeft = y > 0 && x >= bpp ? out[prev + x - bpp] : 0;
+            const value = data[src + x];
+            switch (filter) {
+                case 0: out[row + x] = value; break;
+                case 1: out[row + x] = value + left; break;
+                case 2: out[row + x] = value + up; break;
+                case 3: out[row + x] = value + ((left + up) >> 1); break;
+                case 4: out[row + x] = value + paeth(left, up, upLeft); break;
+                default: throw new Error(`Unknown PNG filter type ${filter}`);
+            }
+        }
+    }
+    return out;
+}
+
+/**
+ * Decodes a PNG of any standard color type, bit depth and interlacing to 8-bit RGBA.
+ * 16-bit samples are reduced to their high byte.
+ * @param bytes - The PNG file contents.
+ * @returns The decoded pixels.
+ */
+export function decodePng(bytes: Uint8Array): RawImage {
+    if (!isPng(bytes)) throw new Error("Not a PNG file");
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    let header: Header | null = null;
+    let palette: Uint8Array | null = null;
+    let transparency: Uint8Array | null = null;
+    const idat: Uint8Array[] = [];
+
+    for (let offset = 8; offset + 8 <= bytes.length;) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const body = bytes.subarray(offset + 8, offset + 8 + length);
+        offset += 12 + length;
+
+        if (type === "IHDR") {
+            const headerView = new DataView(body.buffer, body.byteOffset, body.byteLength);
+            header = {
+                width: headerView.getUint32(0),
+                height: headerView.getUint32(4),
+                bitDepth: body[8],
+                colorType: body[9],
+                interlace: body[12],
+            };
+        } else if (type === "PLTE") {
+            palette = body;
+        } else if (type === "tRNS") {
+            transparency = body;
+        } else if (type === "IDAT") {
+            idat.push(body);
+        } else if (type === "IEND") {
+            break;
+        }
+    }
+
+    if (!header) throw new Error("PNG is missing its IHDR chunk");
+    const { width, height, bitDepth, colorType } = header;
+    const channels = CHANNELS[colorType];
+    if (!channels) throw new Error(`Unsupported PNG color type ${colorType}`);
+    if (colorType === 3 && !palette) throw new Error("Palette PNG is missing its PLTE chunk");
+
+    const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0));
+    idat.reduce((position, chunk) => (compressed.set(chunk, position), position + chunk.length), 0);
+    const raw = new Uint8Array(inflateSync(compressed));
+
+    const data = new Uint8ClampedArray(width * height * 4);
+    const bitsPerPixel = channels * bitDepth;
+    const bpp = Math.max(1, bitsPerPixel >> 3);
+    const maxSample = (1 << bitDepth) - 1;
+
+    // Reads sample `index` of a row as an unscaled value
+    const readSample = (row: Uint8Array, start: number, index: number) => {
+        if (bitDepth === 8) return row[start + index];
+        if (bitDepth === 16) return (row[start + index * 2] << 8) | row[start + index * 2 + 1];
+        const bit = index * bitDepth;
+        return (row[start + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+    };
+    const to8Bit = (value: number) => bitDepth === 16 ? value >> 8 : bitDepth === 8 ? value : Math.round((value * 255) / maxSample);
+
+    // For gray and RGB, tRNS holds a single color key as 16-bit samples
+    const colorKey = transparency && (colorType === 0 || colorType === 2)
+        ? Array.from({ length: channels }, (_, i) => (transparency![i * 2] << 8) | transparency![i * 2 + 1])
+        : null;
+
+    const samples: number[] = new Array(channels);
+    const passes = header.interlace === 1 ? ADAM7 : [[0, 0, 1, 1] as [number, number, number, number]];
+    let offset = 0;
+    for (const [xStart, yStart, xStep, yStep] of passes) {
+        const passWidth = Math.ceil((width - xStart) / xStep);
+        const passHeight = Math.ceil((height - yStart) / yStep);
+        if (passWidth <= 0 || passHeight <= 0) continue;
+
+        const stride = Math.ceil((passWidth * bitsPerPixel) / 8);
+        const pixels = unfilter(raw, offset, stride, passHeight, bpp);
+        offset += (stride + 1) * passHeight;
+
+        for (let y = 0; y < passHeight; y++) {
+            for (let x = 0; x < passWidth; x++) {
+                const target = (((yStart + y * yStep) * width) + xStart + x * xStep) * 4;
+                const first = x * channels;
+                for (let c = 0; c < channels; c++) samples[c] = readSample(pixels, y * stride, first + c);
+
+                if (colorType === 3) {
+                    const index = samples[0];
+                    data[target] = palette![index * 3];
+                    data[target + 1] = palette![index * 3 + 1];
+                    data[target + 2] = palette![index * 3 + 2];
+                    data[target + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+                    continue;
+                }
+
+                const isKeyed = colorKey?.every((key, c) => key === samples[c]) ?? false;
+                if (colorType === 0 || colorType === 4) {
+                    const gray = to8Bit(samples[0]);
+                    data[target] = gray;
+                    data[target + 1] = gray;
+                    data[target + 2] = gray;
+                    data[target + 3] = colorType === 4 ? to8Bit(samples[1]) : isKeyed ? 0 : 255;
+                } else {
+                    data[target] = to8Bit(samples[0]);
+                    data[target + 1] = to8Bit(samples[1]);
+                    data[target + 2] = to8Bit(samples[2]);
+                    data[target + 3] = colorType === 6 ? to8Bit(samples[3]) : isKeyed ? 0 : 255;
+                }
+            }
+        }
+    }
+
+    return { width, height, data };
+}
+
+function writeChunk(type: string, body: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(body.length + 12);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, body.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(body, 8);
+    view.setUint32(8 + body.length, crc32(chunk.subarray(4, 8 + body.length)));
+    return chunk;
+}
+
+/**
+ * Encodes 8-bit RGBA pixels as a non-interlaced PNG, choosing the row filter with the smallest residuals.
+ * @param image - The pixels to encode.
+ * @returns The PNG file contents.
+ */
+export function encodePng(image: RawImage): Uint8Array<ArrayBuffer> {
+    const { width, height, data } = image;
+    const stride = width * 4;
+    const filtered = new Uint8Array((stride + 1) * height);
+    const candidate = new Uint8Array(stride);
+
+    for (let y = 0; y < height; y++) {
+        const row = y * stride;
+        let bestScore = Infinity;
+        for (let filter = 0; filter <= 4; filter++) {
+            let score = 0;
+            for (let x = 0; x < stride; x++) {
+                const left = x >= 4 ? data[row + x - 4] : 0;
+                const up = y > 0 ? data[row + x - stride] : 0;
+                const upLeft = y > 0 && x >= 4 ? data[row + x - stride - 4] : 0;
+                const predictor = filter === 0 ? 0 : filter === 1 ? left : filter === 2 ? up : filter === 3 ? (left + up) >> 1 : paeth(left, up, upLeft);
+                const value = (data[row + x] - predictor) & 0xff;
+                candidate[x] = value;
+                score += value < 128 ? value : 256 - value;
+            }
+            if (score < bestScore) {
+                bestScore = score;
+                filtered[y * (stride + 1)] = filter;
+                filtered.set(candidate, y * (stride + 1) + 1);
+            }
+        }
+    }
+
+    const ihdr = new Uint8Array(13);
+    const view = new DataView(ihdr.buffer);
+    view.setUint32(0, width);
+    view.setUint32(4, height);
+    ihdr.set([8, 6, 0, 0, 0], 8);
+
+    const chunks = [
+        new Uint8Array(SIGNATURE),
+        writeChunk("IHDR", ihdr),
+        writeChunk("IDAT", new Uint8Array(deflateSync(filtered))),
+        writeChunk("IEND", new Uint8Array(0)),
+    ];
+    const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    chunks.reduce((position, chunk) => (output.set(chunk, position), position + chunk.length), 0);
+    return output;
+}
@@ -0,0 +1,147 @@
+import { processImage, supportsOffscreenProcessing, type FilterOptions, type ProcessResult } from "./pinku-batched.process";
+import type { WorkerRequest, WorkerResponse } from "./pinku-batched.worker";
+
+export type JobState = "queued" | "processing" | "done" | "failed";
+
+/** The state of one queued image, shown on its card. */
+export interface JobStatus {
+    state: JobState;
+    /** Why the image failed, in words suitable for the queue. */
+    error?: string;
+}
+
+export interface BatchOptions {
+    /** Aborting stops the batch: workers are terminated and the promise rejects with an AbortError. */
+    signal?: AbortSignal;
+    /** Called as soon as each image finishes, in completion order. */
+    onResult: (index: number, result: ProcessResult) => void;
+    /** Called when an image fails; the rest of the batch carries on. */
+    onError: (index: number, error: Error) => void;
+    /** Called when an image is handed to a worker or starts on the main thread. */
+    onStart?: (index: number) => void;
+    /** Settings that differ per image, such as the focal point, merged over the shared options. */
+    perFile?: (index: number) => Partial<FilterOptions>;
+}
+
+/**
+ * Picks the number of images processed at once, bounded by the CPU count, the batch size and the
+ * decode limit, since every image in flight holds its full canvas in memory.
+ * @param fileCount - The number of images in the batch.
+ * @param maxConcurrent - The configured limit on images decoded at once.
+ * @returns The pool size.
+ */
+export const getPoolSize = (fileCount: number, maxConcurrent = Infinity) =>
+    Math.max(1, Math.min(navigator.hardwareConcurrency || 4, fileCount, maxConcurrent));
+
+/**
+ * Filters a batch of images with a pool of Web Workers, falling back to the main thread
+ * when workers or OffscreenCanvas are not available.
+ * @param files - The source images.
+ * @param options - The filter settings shared by every image.
+ * @param batch - The abort signal, per-image callbacks and per-image settings.
+ * @returns A promise that resolves once every image has been processed or has failed.
+ */
+export function processBatch(files: Blob[], options: FilterOptions, { signal, onResult, onError, onStart, perFile }: BatchOptions): Promise<void> {
+    const optionsFor = (index: number): FilterOptions => perFile ? { ...options, ...perFile(index) } : options;
+
+    return new Promise((resolve, reject) => {
+        const pending = files.map((_, index) => index);
+        const inFlight = new Map<Worker, number>();
+        let completed = 0;
+        let settled = false;
+        let onMainThread = false;
+
+        const terminateWorkers = () => {
+            inFlight.forEach((_, worker) => worker.terminate());
+            inFlight.clear();
+        };
+
+        const finish = (error?: unknown) => {
+            if (settled) return;
+            settled = true;
+            terminateWorkers();
+            signal?.removeEventListener("abort", handleAbort);
+            if (error) {
+                reject(error);
+            } else {
+                resolve();
+            }
+        };
+
+        const handleAbort = () => finish(new DOMException("The batch was cancelled", "AbortError"));
+
+        const handleDone = (index: number, outcome: { result: ProcessResult } | { error: Error }) => {
+            if (settled) return;
+            completed++;
+            if ("result" in outcome) {
+                onResult(index, outcome.result);
+            } else {
+                onError(index, outcome.error);
+            }
+            if (completed === files.length) finish();
+        };
+
+        const runOnMainThread = async () => {
+            while (!settled && pending.length > 0) {
+                const index = pending.shift()!;
+                onStart?.(index);
+                try {
+                    handleDone(index, { result: await processImage(files[index], optionsFor(index)) });
+                } catch (error) {
+                    handleDone(index, { error: error instanceof Error ? error : new Error(String(error)) });
+                }
+            }
+        };
+
+        const startMainThread = () => {
+            if (onMainThread) return;
+            onMainThread = true;
+            for (let i = 0; i < poolSize; i++) runOnMainThread();
+        };
+
+        const dispatch = (worker: Worker) => {
+            if (settled) return;
+            const index = pending.shift();
+            if (index === undefined) {
+                worker.terminate();
+                inFlight.delete(worker);
+                return;
+            }
+            inFlight.set(worker, index);
+            onStart?.(index);
+            const request: WorkerRequest = { id: index, file: files[index], options: optionsFor(index) };
+            worker.postMessage(request);
+        };
+
+        // A worker script that cannot load (e.g. under the dev server, which does not bundle it)
+        // puts its image back in the queue and moves the rest of the batch to the main thread.
+        const handleWorkerFailure = () => {
+            if (settled) return;
+            pending.unshift(...inFlight.values());
+            terminateWorkers();
+            startMainThread();
+        };
+
+        if (signal?.aborted) return handleAbort();
+        signal?.addEventListener("abort", handleAbort);
+        if (files.length === 0) return finish();
+
+        const poolSize = getPoolSize(files.length, options.limits.concurrency);
+
+        if (typeof Worker === "undefined" || !supportsOffscreenProcessing()) {
+            startMainThread();
+            return;
+        }
+
+        for (let i = 0; i < poolSize; i++) {
+            const worker = new Worker(new URL("./pinku-batched.worker.js", import.meta.url), { type: "module" });
+            worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+                const { id, result, error } = event.data;
+                handleDone(id, result ? { result } : { error: new Error(error ?? "Worker returned no image") });
+                dispatch(worker);
+            };
+            worker.onerror = handleWorkerFailure;
+            dispatch(worker);
+        }
+    });
+}
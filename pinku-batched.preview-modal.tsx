@@ -0,0 +1,310 @@
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent, type PointerEvent, type WheelEvent } from "react";
+import { ChevronLeft, ChevronRight, Columns2, Maximize, Minus, Paintbrush, Plus, XCircle } from "lucide-react";
+import MaskEditor from "./pinku-batched.mask-editor";
+import type { ImageMask } from "./pinku-batched.mask";
+import { DEFAULT_RESIZE_SETTINGS, planResize, type FocalPoint } from "./pinku-batched.resize";
+
+export interface PreviewItem {
+    url: string;
+    name: string;
+    /** The unfiltered source, when the item is a processed result that can be compared. */
+    original?: Blob;
+    /** The focal point the result was cropped around, so the original can be cropped to match. */
+    focus?: FocalPoint;
+    /** The mask painted for a queued image, if any. */
+    mask?: ImageMask | null;
+}
+
+type CompareMode = "split" | "original" | "filtered";
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 8;
+const FOCUSABLE = 'button:not([disabled]), [href], input, select, textarea, [tabindex]:not([tabindex="-1"])';
+
+export interface ImagePreviewModalProps {
+    items: PreviewItem[];
+    index: number | null;
+    onIndexChange: (index: number) => void;
+    onClose: () => void;
+    /** Enables the mask editor; only queued images can be masked. */
+    onMaskChange?: (index: number, mask: ImageMask | null) => void;
+}
+
+// --- Image Preview Modal Component ---
+export default function ImagePreviewModal({ items, index, onIndexChange, onClose, onMaskChange }: ImagePreviewModalProps) {
+    const item = index !== null ? items[index] : undefined;
+    const dialogRef = useRef<HTMLDivElement>(null);
+    const stageRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ kind: "split" | "pan"; startX: number; startY: number; panX: number; panY: number } | null>(null);
+    const [mode, setMode] = useState<CompareMode>("split");
+    const [split, setSplit] = useState<number>(50);
+    const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+    const [originalSize, setOriginalSize] = useState<{ width: number; height: number } | null>(null);
+    const [zoom, setZoom] = useState<number | null>(null); // null means "fit to screen"
+    const [pan, setPan] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
+    const [isMasking, setIsMasking] = useState<boolean>(false);
+
+    const originalUrl = useMemo(() => item?.original ? URL.createObjectURL(item.original) : null, [item?.original]);
+
+    useEffect(() => {
+        return () => {
+            if (originalUrl) URL.revokeObjectURL(originalUrl);
+        };
+    }, [originalUrl]);
+
+    // Reset the view whenever another image is shown
+    useEffect(() => {
+        setNaturalSize(null);
+        setOriginalSize(null);
+        setZoom(null);
+        setPan({ x: 0, y: 0 });
+    }, [item?.url]);
+
+    // Move focus into the dialog while it is open and give it back afterwards
+    const isOpen = item !== undefined;
+    useEffect(() => {
+        if (!isOpen) {
+            setIsMasking(false);
+            return;
+        }
+        const previouslyFocused = document.activeElement as HTMLElement | null;
+        dialogRef.current?.focus();
+        return () => previouslyFocused?.focus();
+    }, [isOpen]);
+
+    if (!item || index === null) return null;
+
+    const canCompare = originalUrl !== null;
+    const hasPrevious = index > 0;
+    const hasNext = index < items.length - 1;
+
+    const getFitZoom = () => {
+        const stage = stageRef.current;
+        if (!stage || !naturalSize) return 1;
+        return Math.min(1, stage.clientWidth / naturalSize.width, stage.clientHeight / naturalSize.height);
+    };
+    const scale = zoom ?? getFitZoom();
+
+    const setZoomLevel = (next: number | null) => {
+        setZoom(next === null ? null : Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, next)));
+        if (next === null) setPan({ x: 0, y: 0 });
+    };
+
+    const showPrevious = () => hasPrevious && onIndexChange(index - 1);
+    const showNext = () => hasNext && onIndexChange(index + 1);
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+        if (e.key === "Escape") {
+            e.preventDefault();
+            onClose();
+        } else if (e.key === "ArrowLeft") {
+            e.preventDefault();
+            showPrevious();
+        } else if (e.key === "ArrowRight") {
+            e.preventDefault();
+            showNext();
+        } else if (e.key === "Tab") {
+            const focusable = Array.from(dialogRef.current?.querySelectorAll<HTMLElement>(FOCUSABLE) ?? []);
+            const first = focusable.at(0);
+            const last = focusable.at(-1);
+            if (!first || !last) return;
+            if (e.shiftKey && (document.activeElement === first || document.activeElement === dialogRef.current)) {
+                e.preventDefault();
+                last.focus();
+            } else if (!e.shiftKey && document.activeElement === last) {
+                e.preventDefault();
+                first.focus();
+            }
+        }
+    };
+
+    const handleStagePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+        const isDivider = (e.target as HTMLElement).dataset.divider !== undefined;
+        if (!isDivider && zoom === null) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { kind: isDivider ? "split" : "pan", startX: e.clientX, startY: e.clientY, panX: pan.x, panY: pan.y };
+    };
+
+    const handleStagePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        if (drag.kind === "split") {
+            const rect = e.currentTarget.getBoundingClientRect();
+            setSplit(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+        } else {
+            setPan({ x: drag.panX + e.clientX - drag.startX, y: drag.panY + e.clientY - drag.startY });
+        }
+    };
+
+    const handleWheel = (e: WheelEvent<HTMLDivElement>) => {
+        setZoomLevel(scale * (e.deltaY < 0 ? 1.15 : 1 / 1.15));
+    };
+
+    const imageStyle = naturalSize ? {
+        width: naturalSize.width * scale,
+        height: naturalSize.height * scale,
+        transform: `translate(calc(-50% + ${pan.x}px), calc(-50% + ${pan.y}px))`,
+    } : { transform: "translate(-50%, -50%)", maxWidth: "100%", maxHeight: "100%" };
+
+    // A cover crop changes the aspect ratio, so the original is cropped the same way and scaled into the result's box
+    const originalStyle = naturalSize && originalSize ? (() => {
+        const cover = { ...DEFAULT_RESIZE_SETTINGS, mode: "cover" as const, width: naturalSize.width, height: naturalSize.height };
+        const crop = planResize(originalSize.width, originalSize.height, cover, item.focus)?.crop
+            ?? { x: 0, y: 0, width: originalSize.width, height: originalSize.height };
+        const scaleX = (naturalSize.width * scale) / crop.width;
+        const scaleY = (naturalSize.height * scale) / crop.height;
+        return {
+            width: originalSize.width * scaleX,
+            height: originalSize.height * scaleY,
+            left: -crop.x * scaleX,
+            top: -crop.y * scaleY,
+        };
+    })() : null;
+
+    const showOriginalLayer = canCompare && mode !== "filtered";
+    const clipPath = mode === "split" ? `inset(0 ${100 - split}% 0 0)` : undefined;
+
+    return (
+        <div
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-label={`Preview of ${item.name}`}
+            tabIndex={-1}
+            className="fixed inset-0 bg-black/80 flex flex-col z-50 p-4 animate-fade-in outline-none"
+            onClick={onClose}
+            onKeyDown={handleKeyDown}
+        >
+            <div className="flex items-center justify-between gap-2 mb-3 text-white" onClick={(e) => e.stopPropagation()}>
+                <p className="text-sm truncate">
+                    {item.name} <span className="text-white/60">({index + 1}/{items.length})</span>
+                </p>
+                <div className="flex items-center gap-2">
+                    {onMaskChange && (
+                        <button
+                            onClick={() => setIsMasking(!isMasking)}
+                            className={`flex items-center gap-1.5 text-sm px-3 py-1.5 rounded-lg transition-colors ${isMasking ? 'bg-white/30' : 'bg-white/10 hover:bg-white/20'}`}
+                            aria-pressed={isMasking}
+                        >
+                            <Paintbrush size={16} />
+                            {item.mask ? "Edit Mask" : "Mask"}
+                        </button>
+                    )}
+                    {canCompare && (
+                        <>
+                            <button
+                                onClick={() => setMode(mode === "split" ? "filtered" : "split")}
+                                className={`flex items-center gap-1.5 text-sm px-3 py-1.5 rounded-lg transition-colors ${mode === "split" ? 'bg-white/30' : 'bg-white/10 hover:bg-white/20'}`}
+                                aria-pressed={mode === "split"}
+                            >
+                                <Columns2 size={16} />
+                                Split
+                            </button>
+                            <button
+                                onClick={() => setMode(mode === "original" ? "filtered" : "original")}
+                                className="text-sm px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+                            >
+                                {mode === "original" ? "Showing Original" : "Showing Filtered"}
+                            </button>
+                        </>
+                    )}
+                    <button onClick={() => setZoomLevel(scale / 1.25)} className="p-2 rounded-lg bg-white/10 hover:bg-white/20" aria-label="Zoom out">
+                        <Minus size={16} />
+                    </button>
+                    <button onClick={() => setZoomLevel(1)} className="text-sm px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 tabular-nums" aria-label="Zoom to 100%">
+                        {Math.round(scale * 100)}%
+                    </button>
+                    <button onClick={() => setZoomLevel(scale * 1.25)} className="p-2 rounded-lg bg-white/10 hover:bg-white/20" aria-label="Zoom in">
+                        <Plus size={16} />
+                    </button>
+                    <button onClick={() => setZoomLevel(null)} className="p-2 rounded-lg bg-white/10 hover:bg-white/20" aria-label="Fit to screen">
+                        <Maximize size={16} />
+                    </button>
+                    <button
+                        className="text-white bg-black/50 rounded-full p-2 hover:bg-black/75 transition-colors"
+                        onClick={onClose}
+                        aria-label="Close image preview"
+                    >
+                        <XCircle size={24} />
+                    </button>
+                </div>
+            </div>
+
+            <div className="relative flex-1 min-h-0 flex items-center gap-2">
+                <button
+                    onClick={(e) => { e.stopPropagation(); showPrevious(); }}
+                    disabled={!hasPrevious}
+                    className="text-white bg-black/50 rounded-full p-2 hover:bg-black/75 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                    aria-label="Previous image"
+                >
+                    <ChevronLeft size={28} />
+                </button>
+
+                <div
+                    ref={stageRef}
+                    className={`relative flex-1 h-full overflow-hidden select-none touch-none ${zoom !== null ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                    onClick={(e) => e.stopPropagation()} // Prevent closing modal when clicking the image
+                    onPointerDown={handleStagePointerDown}
+                    onPointerMove={handleStagePointerMove}
+                    onPointerUp={() => { dragRef.current = null; }}
+                    onWheel={handleWheel}
+                >
+                    <div className="absolute inset-0">
+                        <img
+                            src={item.url}
+                            alt={item.name}
+                            draggable={false}
+                            onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                            className="absolute left-1/2 top-1/2 max-w-none"
+                            style={imageStyle}
+                        />
+                    </div>
+                    {showOriginalLayer && (
+                        <div className="absolute inset-0" style={{ clipPath }}>
+                            <div className="absolute left-1/2 top-1/2 overflow-hidden" style={imageStyle}>
+                                <img
+                                    src={originalUrl!}
+                                    alt={`Original ${item.name}`}
+                                    draggable={false}
+                                    onLoad={(e) => setOriginalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                                    className="absolute max-w-none"
+                                    style={originalStyle ?? { visibility: "hidden" }}
+                                />
+                            </div>
+                        </div>
+                    )}
+                    {isMasking && onMaskChange && naturalSize && (
+                        <MaskEditor
+                            mask={item.mask ?? null}
+                            imageWidth={naturalSize.width}
+                            imageHeight={naturalSize.height}
+                            style={imageStyle}
+                            onChange={(mask) => onMaskChange(index, mask)}
+                            onClose={() => setIsMasking(false)}
+                        />
+                    )}
+                    {canCompare && mode === "split" && (
+                        <div
+                            data-divider
+                            className="absolute top-0 bottom-0 w-1 -translate-x-1/2 bg-white/90 cursor-ew-resize shadow-[0_0_8px_rgba(0,0,0,0.6)]"
+                            style={{ left: `${split}%` }}
+                        >
+                            <div data-divider className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white text-black flex items-center justify-center">
+                                <Columns2 size={16} className="pointer-events-none" />
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <button
+                    onClick={(e) => { e.stopPropagation(); showNext(); }}
+                    disabled={!hasNext}
+                    className="text-white bg-black/50 rounded-full p-2 hover:bg-black/75 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                    aria-label="Next image"
+                >
+                    <ChevronRight size={28} />
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,414 @@
+import { filtering, generateGradientLUTs } from "./pinku-batched.filter";
+import { embedJpegSegments, getOrientationTransform, isJpeg, readJpegMetadata } from "./pinku-batched.exif";
+import { resolveOutputType, type AnimationOutput, type OutputFormat } from "./pinku-batched.export";
+import { toHex, type ColorStop } from "./pinku-batched.palettes";
+import { applyInks, computeLuminance, ditherImage, getInkColors, getInkCount, quantizeLuminance, renderSeparation, type DitherSettings } from "./pinku-batched.dither";
+import { applyToneCurve, computeAutoLevels, computeHistogram, generateToneCurve, isNeutralTone, LUMINANCE_WEIGHTS, type ToneSettings } from "./pinku-batched.tone";
+import { probeAnimation, type Animation, type AnimationFrame, type AnimationInfo } from "./pinku-batched.animation";
+import { decodeGif, encodeGif } from "./pinku-batched.gif";
+import { encodeApng, readApng } from "./pinku-batched.apng";
+import { checkAnimationSize, orientImageSize, readImageSize, resolveDecodeSize, TILE_PIXELS, type ImageLimits, type ImageSize } from "./pinku-batched.limits";
+import { blendPixels, flattenAlpha, isPlainBlend, type BlendSettings } from "./pinku-batched.blend";
+import { applyMask, sampleMask, type ImageMask, type MaskRect } from "./pinku-batched.mask";
+import { applyCube, type CubeLut } from "./pinku-batched.cube";
+import { describeUnsupported, sniffImageFormat } from "./pinku-batched.formats";
+import { planResize, type FocalPoint, type ResizePlan, type ResizeSettings } from "./pinku-batched.resize";
+
+// Everything in this module runs both on the main thread and inside pinku-batched.worker.ts,
+// so it must stay free of React and of direct `document` access when OffscreenCanvas exists.
+
+export interface FilterOptions {
+    /** Gradient stops, already mirrored if the palette is reversed. */
+    stops: ColorStop[];
+    tone: ToneSettings;
+    dither: DitherSettings;
+    format: OutputFormat;
+    /** Encoder quality from 0 to 1 for JPEG and WebP. */
+    quality: number;
+    /** Copy the source EXIF/XMP segments into JPEG output instead of stripping them. */
+    keepMetadata: boolean;
+    /** Output for animated GIF and APNG sources; see AnimationOutput. */
+    animation: AnimationOutput;
+    limits: ImageLimits;
+    /** Resize and crop applied before filtering; animations keep their size. */
+    resize: ResizeSettings;
+    /** Focal point of this image for cover crops. */
+    focus: FocalPoint;
+    /** Strength, blend mode and transparency handling of the gradient map. */
+    blend: BlendSettings;
+    /** Areas of this image that keep their original colors, or null to filter all of it. Still images only. */
+    mask: ImageMask | null;
+    /** An imported 3D LUT that replaces the gradient map and render mode, or null. */
+    cube: CubeLut | null;
+}
+
+export interface ProcessResult {
+    blob: Blob;
+    /** One grayscale PNG per ink, darkest first, when a dither mode with separations is used. */
+    separations: Blob[];
+}
+
+export interface FilterResult {
+    imageData: ImageData;
+    /** Ink index per pixel for the dither modes; null for the smooth gradient. */
+    inkMap: Uint8Array | null;
+}
+
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+/**
+ * Checks whether images can be decoded and drawn without the DOM, which is what the worker pool needs.
+ * @returns True if OffscreenCanvas and createImageBitmap are both available.
+ */
+export const supportsOffscreenProcessing = () =>
+    typeof OffscreenCanvas !== "undefined" && typeof createImageBitmap !== "undefined";
+
+function createCanvas(width: number, height: number): AnyCanvas {
+    if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(width, height);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+}
+
+interface DecodedImage {
+    image: ImageBitmap | HTMLImageElement;
+    /** Orientation still to be applied when drawing; 1 once the decoder has already rotated the pixels. */
+    orientation: number;
+    /** Scale still to be applied when drawing; 1 once the decoder has already resized the pixels. */
+    scale: number;
+}
+
+/**
+ * Decodes an image, optionally straight to a smaller size so the full-size pixels are never held.
+ * @param file - The encoded image.
+ * @param orientation - The EXIF orientation still to apply.
+ * @param size - The size to decode at, in stored orientation, or null for the full size.
+ * @returns The decoded image.
+ */
+async function decodeImage(file: Blob, orientation = 1, size: ImageSize | null = null): Promise<DecodedImage> {
+    // Decoders that apply the orientation themselves resize the upright image
+    const uprightSize = size && orientImageSize(size, orientation);
+    if (typeof createImageBitmap !== "undefined") {
+        const resize = (target: ImageSize | null): ImageBitmapOptions =>
+            target ? { resizeWidth: target.width, resizeHeight: target.height, resizeQuality: "high" } : {};
+        // Engines that ignore the resize options leave the scaling to drawToCanvas
+        const decoded = (image: ImageBitmap, orientation: number, target: ImageSize | null) =>
+            ({ image, orientation, scale: target ? target.width / image.width : 1 });
+        if (orientation !== 1) {
+            try {
+                return decoded(await createImageBitmap(file, { ...resize(size), imageOrientation: "none" }), orientation, size);
+            } catch {
+                // Older engines reject "none"; their default decode applies the orientation itself
+            }
+        }
+        return decoded(await createImageBitmap(file, resize(uprightSize)), 1, uprightSize);
+    }
+
+    const image = document.createElement("img");
+    const objectUrl = URL.createObjectURL(file);
+    try {
+        await new Promise<void>((resolve, reject) => {
+            image.onload = () => resolve();
+            image.onerror = reject;
+            image.src = objectUrl;
+        });
+        // <img> always honours EXIF orientation, so there is nothing left to apply
+        return { image, orientation: 1, scale: uprightSize ? uprightSize.width / image.width : 1 };
+    } finally {
+        URL.revokeObjectURL(objectUrl);
+    }
+}
+
+// Browsers that cannot encode the requested type return PNG instead, so callers should read blob.type
+function canvasToBlob(canvas: AnyCanvas, type: string, quality?: number): Promise<Blob> {
+    if ("convertToBlob" in canvas) return canvas.convertToBlob({ type, quality });
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Canvas could not be encoded")), type, quality);
+    });
+}
+
+function drawToCanvas({ image, orientation, scale }: DecodedImage) {
+    const imageWidth = Math.max(1, Math.round(image.width * scale));
+    const imageHeight = Math.max(1, Math.round(image.height * scale));
+    const { width, height, matrix } = getOrientationTransform(orientation, imageWidth, imageHeight);
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext("2d") as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+    if (!ctx) throw new Error("Could not get a 2D canvas context");
+
+    ctx.setTransform(...matrix);
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(image, 0, 0, imageWidth, imageHeight);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    if ("close" in image) image.close();
+    return { canvas, ctx };
+}
+
+/**
+ * Crops and scales a canvas. Large reductions are done in halving steps, which averages every source
+ * pixel instead of skipping most of them the way a single drawImage call does.
+ * @param source - The canvas with the upright image.
+ * @param plan - The crop and output size from planResize.
+ * @returns A new canvas of the output size.
+ */
+function resampleCanvas(source: AnyCanvas, plan: ResizePlan) {
+    const draw = (from: AnyCanvas, rect: ResizePlan["crop"], width: number, height: number) => {
+        const canvas = createCanvas(width, height);
+        const ctx = canvas.getContext("2d") as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+        if (!ctx) throw new Error("Could not get a 2D canvas context");
+        ctx.imageSmoothingQuality = "high";
+        ctx.drawImage(from, rect.x, rect.y, rect.width, rect.height, 0, 0, width, height);
+        return { canvas, ctx };
+    };
+
+    let current = source;
+    let rect = plan.crop;
+    while (rect.width / 2 >= plan.width && rect.height / 2 >= plan.height) {
+        const { canvas } = draw(current, rect, Math.round(rect.width / 2), Math.round(rect.height / 2));
+        current = canvas;
+        rect = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+    }
+    return draw(current, rect, plan.width, plan.height);
+}
+
+/**
+ * Re-encodes an image in another format, e.g. to PNG for the clipboard.
+ * @param blob - The encoded image.
+ * @param type - The MIME type to encode as.
+ * @returns The re-encoded image.
+ */
+export async function reencodeImage(blob: Blob, type: string): Promise<Blob> {
+    const { canvas } = drawToCanvas(await decodeImage(blob));
+    return canvasToBlob(canvas, type);
+}
+
+/**
+ * Runs the tone adjustments and then the gradient map, an imported LUT or the chosen dither mode over an image's pixels,
+ * and composites the result over the source. Auto levels are measured per image, so every image gets its own curve.
+ * @param imageData - The ImageData object from a canvas.
+ * @param options - The filter settings.
+ * @returns The modified ImageData and, for dither modes, the ink map.
+ */
+export function applyFilterOptions(imageData: ImageData, options: Pick<FilterOptions, "stops" | "tone" | "dither" | "blend" | "cube">): FilterResult {
+    const { tone, stops, dither, blend, cube } = options;
+    const weights = LUMINANCE_WEIGHTS[tone.luminance];
+    let curve: Uint8ClampedArray | null = null;
+
+    if (blend.alpha === "flatten") flattenAlpha(imageData.data, blend.background);
+    const source = isPlainBlend(blend) ? null : new Uint8ClampedArray(imageData.data);
+
+    if (!isNeutralTone(tone)) {
+        const levels = tone.autoLevels ? computeAutoLevels(computeHistogram(imageData, weights, tone.linearLuminance)) : {};
+        curve = generateToneCurve({ ...tone, ...levels });
+    }
+
+    let inkMap: Uint8Array | null = null;
+    if (cube) {
+        applyCube(imageData.data, cube, curve);
+    } else if (dither.mode !== "gradient") {
+        inkMap = ditherImage(imageData, { stops, weights, linear: tone.linearLuminance, curve, settings: dither });
+    } else {
+        const luts = generateGradientLUTs(stops);
+        filtering(imageData, curve ? applyToneCurve(luts, curve) : luts, weights, tone.linearLuminance);
+    }
+
+    if (source) blendPixels(imageData.data, source, blend);
+    return { imageData, inkMap };
+}
+
+/**
+ * Decodes an image upright and returns its pixels, optionally scaled down for previews.
+ * @param file - The source image.
+ * @param maxDimension - The longest side of the result; the image is never scaled up.
+ * @returns The decoded pixels.
+ */
+export async function loadImageData(file: Blob, maxDimension = Infinity): Promise<ImageData> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const metadata = isJpeg(bytes) ? readJpegMetadata(bytes) : null;
+    const size = readImageSize(bytes);
+    const decodeScale = size ? Math.min(1, maxDimension / Math.max(size.width, size.height)) : 1;
+    const decodeSize = size && decodeScale < 1
+        ? { width: Math.max(1, Math.round(size.width * decodeScale)), height: Math.max(1, Math.round(size.height * decodeScale)) }
+        : null;
+    const { canvas } = drawToCanvas(await decodeImage(file, metadata?.orientation, decodeSize));
+
+    // Formats without a readable header are still full size here
+    const scale = Math.min(1, maxDimension / Math.max(canvas.width, canvas.height));
+    const target = createCanvas(Math.max(1, Math.round(canvas.width * scale)), Math.max(1, Math.round(canvas.height * scale)));
+    const ctx = target.getContext("2d") as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+    if (!ctx) throw new Error("Could not get a 2D canvas context");
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(canvas, 0, 0, target.width, target.height);
+    return ctx.getImageData(0, 0, target.width, target.height);
+}
+
+/**
+ * Runs the filter over a canvas a strip at a time, so only one tile of pixels is copied out at once.
+ * Auto levels are measured over the whole image first, and the dither modes quantize the whole
+ * luminance plane, so the result is the same as filtering the image in one piece.
+ * @param ctx - The context of the canvas holding the decoded image.
+ * @param width - The canvas width.
+ * @param height - The canvas height.
+ * @param options - The filter settings.
+ * @param maskRegion - The part of the source image the canvas shows, as fractions, for placing the mask.
+ * @returns The ink map for dither modes; null for the smooth gradient.
+ */
+function filterInTiles(
+    ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    options: Pick<FilterOptions, "stops" | "tone" | "dither" | "blend" | "cube" | "mask">,
+    maskRegion: MaskRect = { x: 0, y: 0, width: 1, height: 1 },
+): Uint8Array | null {
+    const { tone, stops, dither, blend, cube, mask } = options;
+    const weights = LUMINANCE_WEIGHTS[tone.luminance];
+    const rows = Math.max(1, Math.floor(TILE_PIXELS / Math.max(1, width)));
+    const forEachTile = (visit: (tile: ImageData, y: number) => void) => {
+        for (let y = 0; y < height; y += rows) visit(ctx.getImageData(0, y, width, Math.min(rows, height - y)), y);
+    };
+    // Maps one tile, then composites it over its own source pixels and writes it back
+    const mapTile = (tile: ImageData, y: number, map: (tile: ImageData) => void) => {
+        const source = isPlainBlend(blend) && !mask ? null : new Uint8ClampedArray(tile.data);
+        map(tile);
+        if (source && !isPlainBlend(blend)) blendPixels(tile.data, source, blend);
+        if (source && mask) applyMask(tile.data, source, sampleMask(mask, maskRegion, width, height, y, tile.height));
+        ctx.putImageData(tile, 0, y);
+    };
+
+    if (blend.alpha === "flatten") {
+        ctx.save();
+        ctx.globalCompositeOperation = "destination-over";
+        ctx.fillStyle = toHex(blend.background);
+        ctx.fillRect(0, 0, width, height);
+        ctx.restore();
+    }
+
+    let curve: Uint8ClampedArray | null = null;
+    if (!isNeutralTone(tone)) {
+        const histogram = new Uint32Array(256);
+        if (tone.autoLevels) forEachTile(tile => computeHistogram(tile, weights, tone.linearLuminance).forEach((count, level) => histogram[level] += count));
+        curve = generateToneCurve({ ...tone, ...(tone.autoLevels ? computeAutoLevels(histogram) : {}) });
+    }
+
+    if (cube) {
+        forEachTile((tile, y) => mapTile(tile, y, () => applyCube(tile.data, cube, curve)));
+        return null;
+    }
+
+    if (dither.mode === "gradient") {
+        const luts = generateGradientLUTs(stops);
+        const mapped = curve ? applyToneCurve(luts, curve) : luts;
+        forEachTile((tile, y) => mapTile(tile, y, () => filtering(tile, mapped, weights, tone.linearLuminance)));
+        return null;
+    }
+
+    // Error diffusion and the halftone grid need neighbouring rows, so the luminance plane stays whole
+    const luminance = new Float32Array(width * height);
+    forEachTile((tile, y) => computeLuminance(tile.data, weights, curve, luminance, y * width, tone.linearLuminance));
+    const inkMap = quantizeLuminance(luminance, width, height, dither);
+    const inks = getInkColors(stops, getInkCount(dither));
+    forEachTile((tile, y) => mapTile(tile, y, () => applyInks(tile.data, inkMap.subarray(y * width, (y + tile.height) * width), inks)));
+    return inkMap;
+}
+
+async function encodeSeparations(inkMap: Uint8Array, width: number, height: number, inkCount: number): Promise<Blob[]> {
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext("2d") as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+    if (!ctx) throw new Error("Could not get a 2D canvas context");
+
+    const separations: Blob[] = [];
+    const imageData = ctx.createImageData(width, height);
+    for (let ink = 0; ink < inkCount; ink++) {
+        ctx.putImageData(renderSeparation(inkMap, ink, imageData), 0, 0);
+        separations.push(await canvasToBlob(canvas, "image/png"));
+    }
+    return separations;
+}
+
+async function decodeAnimation(bytes: Uint8Array, format: AnimationInfo["format"]): Promise<Animation> {
+    if (format === "gif") return decodeGif(bytes);
+
+    const { frames, ...animation } = readApng(bytes);
+    const decoded: AnimationFrame[] = [];
+    for (const { png, ...frame } of frames) {
+        const { canvas, ctx } = drawToCanvas(await decodeImage(new Blob([png], { type: "image/png" })));
+        decoded.push({ ...frame, data: ctx.getImageData(0, 0, canvas.width, canvas.height).data });
+    }
+    return { ...animation, frames: decoded };
+}
+
+/**
+ * Filters every frame of an animated GIF or APNG and encodes the result as an animation again.
+ * Auto levels are measured over all frames together so the animation does not flicker. Transparency is never
+ * flattened here: in delta frames it means "keep the previous frame", so filling it would corrupt the animation.
+ * @param bytes - The source file contents.
+ * @param info - The animation info from probeAnimation.
+ * @param options - The filter settings for this batch.
+ * @returns The animated GIF or APNG.
+ */
+async function processAnimation(bytes: Uint8Array, info: AnimationInfo, options: FilterOptions): Promise<Blob> {
+    const animation = await decodeAnimation(bytes, info.format);
+    const frames = animation.frames.map(frame => new ImageData(frame.data as Uint8ClampedArray<ArrayBuffer>, frame.width, frame.height));
+
+    let tone = options.tone;
+    if (tone.autoLevels && !isNeutralTone(tone)) {
+        const weights = LUMINANCE_WEIGHTS[tone.luminance];
+        const histogram = new Uint32Array(256);
+        frames.forEach(frame => computeHistogram(frame, weights, tone.linearLuminance).forEach((count, level) => histogram[level] += count));
+        tone = { ...tone, ...computeAutoLevels(histogram), autoLevels: false };
+    }
+    const blend = { ...options.blend, alpha: "keep" as const };
+    frames.forEach(frame => applyFilterOptions(frame, { ...options, tone, blend }));
+
+    const output = options.animation === "keep" ? info.format : options.animation;
+    if (output === "apng") return new Blob([await encodeApng(animation)], { type: "image/png" });
+    return new Blob([encodeGif(animation)], { type: "image/gif" });
+}
+
+/**
+ * Decodes an image upright, runs the filter over every pixel and encodes the result.
+ * Animated GIF and APNG sources keep every frame unless options.animation is "static", and images
+ * over the size limits are decoded straight to a smaller size when options.limits asks for it. Animations cannot be
+ * downscaled, so oversized ones are rejected then.
+ * Still images are then cropped and scaled by options.resize before they are filtered, and options.mask
+ * brings back the original colors wherever it is painted.
+ * @param file - The source image.
+ * @param options - The filter settings for this batch.
+ * @returns The filtered image and any ink separations.
+ * @throws Error with a readable reason if the file is not in a format the browser can decode, or is an oversized animation.
+ */
+export async function processImage(file: Blob, options: FilterOptions): Promise<ProcessResult> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const unsupported = describeUnsupported(sniffImageFormat(bytes));
+    if (unsupported) throw new Error(unsupported);
+    const animation = options.animation === "static" ? null : probeAnimation(bytes);
+    if (animation && animation.frameCount > 1) {
+        const check = checkAnimationSize(animation, options.limits);
+        if (check.exceeds && options.limits.oversize === "downscale") {
+            throw new Error(`The animation has ${animation.frameCount} frames of ${animation.width}×${animation.height} (${check.megapixels.toFixed(0)} MP in total), which is over the size limits; export its first frame only or raise the limits`);
+        }
+        return { blob: await processAnimation(bytes, animation, options), separations: [] };
+    }
+
+    const metadata = isJpeg(bytes) ? readJpegMetadata(bytes) : null;
+
+    const decodeSize = resolveDecodeSize(readImageSize(bytes), options.limits);
+    let { canvas, ctx } = drawToCanvas(await decodeImage(file, metadata?.orientation, decodeSize));
+    const plan = planResize(canvas.width, canvas.height, options.resize, options.focus);
+    const maskRegion = plan
+        ? { x: plan.crop.x / canvas.width, y: plan.crop.y / canvas.height, width: plan.crop.width / canvas.width, height: plan.crop.height / canvas.height }
+        : undefined;
+    if (plan) ({ canvas, ctx } = resampleCanvas(canvas, plan));
+    const inkMap = filterInTiles(ctx, canvas.width, canvas.height, options, maskRegion);
+    let blob = await canvasToBlob(canvas, resolveOutputType(options.format, file.type), options.quality);
+
+    if (options.keepMetadata && metadata?.segments.length && blob.type === "image/jpeg") {
+        const output = embedJpegSegments(new Uint8Array(await blob.arrayBuffer()), metadata.segments);
+        blob = new Blob([output], { type: "image/jpeg" });
+    }
+
+    const separations = inkMap && options.dither.separations
+        ? await encodeSeparations(inkMap, canvas.width, canvas.height, getInkCount(options.dither))
+        : [];
+    return { blob, separations };
+}
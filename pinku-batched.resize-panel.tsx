@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useState, type PointerEvent } from "react";
+import { Crosshair } from "lucide-react";
+import { CENTER, planResize, RESIZE_PRESETS, type FocalPoint, type ResizeMode, type ResizeSettings } from "./pinku-batched.resize";
+import type { QueuedFile } from "./pinku-batched.drop";
+
+const MODE_OPTIONS: { value: ResizeMode; label: string }[] = [
+    { value: "none", label: "Keep original size" },
+    { value: "fit", label: "Fit within (never enlarges)" },
+    { value: "cover", label: "Crop to exact size" },
+];
+
+// --- Focal point editor: drag on the image to choose what a cover crop keeps ---
+const FocusEditor = ({ file, settings, focus, onChange }: {
+    file: File;
+    settings: ResizeSettings;
+    focus: FocalPoint;
+    onChange: (focus: FocalPoint) => void;
+}) => {
+    const url = useMemo(() => URL.createObjectURL(file), [file]);
+    const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+
+    useEffect(() => {
+        setNaturalSize(null);
+        return () => URL.revokeObjectURL(url);
+    }, [url]);
+
+    const plan = naturalSize ? planResize(naturalSize.width, naturalSize.height, settings, focus) : null;
+
+    const moveFocus = (e: PointerEvent<HTMLDivElement>) => {
+        const bounds = e.currentTarget.getBoundingClientRect();
+        onChange({
+            x: Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width)),
+            y: Math.min(1, Math.max(0, (e.clientY - bounds.top) / bounds.height)),
+        });
+    };
+
+    return (
+        <div
+            className="relative inline-block max-w-full cursor-crosshair select-none touch-none overflow-hidden rounded-lg"
+            onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                moveFocus(e);
+            }}
+            onPointerMove={(e) => {
+                if (e.currentTarget.hasPointerCapture(e.pointerId)) moveFocus(e);
+            }}
+        >
+            <img
+                src={url}
+                alt={file.name}
+                draggable={false}
+                onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                className="block max-h-64 max-w-full"
+            />
+            {plan && naturalSize && (
+                <div
+                    className="absolute border-2 border-[#27e47a] pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                    style={{
+                        left: `${(plan.crop.x / naturalSize.width) * 100}%`,
+                        top: `${(plan.crop.y / naturalSize.height) * 100}%`,
+                        width: `${(plan.crop.width / naturalSize.width) * 100}%`,
+                        height: `${(plan.crop.height / naturalSize.height) * 100}%`,
+                    }}
+                />
+            )}
+            <Crosshair
+                size={20}
+                className="absolute text-[#f99fd2] pointer-events-none -translate-x-1/2 -translate-y-1/2 drop-shadow"
+                style={{ left: `${focus.x * 100}%`, top: `${focus.y * 100}%` }}
+            />
+        </div>
+    );
+};
+
+export interface ResizePanelProps {
+    settings: ResizeSettings;
+    onChange: (settings: ResizeSettings) => void;
+    files: QueuedFile[];
+    /** Focal points of the images that have one; the rest use the center. */
+    focalPoints: Map<File, FocalPoint>;
+    onFocalPointChange: (file: File, focus: FocalPoint) => void;
+}
+
+export default function ResizePanel({ settings, onChange, files, focalPoints, onFocalPointChange }: ResizePanelProps) {
+    const [focusIndex, setFocusIndex] = useState<number>(0);
+    const focusFile = files[Math.min(focusIndex, files.length - 1)];
+    const update = (changes: Partial<ResizeSettings>) => onChange({ ...settings, ...changes });
+
+    const choosePreset = (id: string) => {
+        const preset = RESIZE_PRESETS.find(p => p.id === id);
+        if (!preset) return update({ preset: null });
+        update({ preset: preset.id, mode: "cover", width: preset.width, height: preset.height });
+    };
+
+    return (
+        <div className="bg-black/20 rounded-xl p-4 mb-4 grid grid-cols-1 md:grid-cols-[1fr_auto] gap-4 text-sm">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 content-start">
+                <label className="flex flex-col gap-1.5">
+                    <span className="text-[#a4d7ba]">Resize</span>
+                    <select
+                        value={settings.mode}
+                        onChange={(e) => update({ mode: e.target.value as ResizeMode })}
+                        className="bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30"
+                    >
+                        {MODE_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1.5">
+                    <span className="text-[#a4d7ba]">Preset</span>
+                    <select
+                        value={settings.preset ?? ""}
+                        onChange={(e) => choosePreset(e.target.value)}
+                        className="bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30"
+                    >
+                        <option value="">Custom size</option>
+                        {RESIZE_PRESETS.map(preset => (
+                            <option key={preset.id} value={preset.id}>{preset.label}</option>
+                        ))}
+                    </select>
+                </label>
+                {(["width", "height"] as const).map(side => (
+                    <label key={side} className={`flex flex-col gap-1.5 ${settings.mode === "none" ? 'opacity-50' : ''}`}>
+                        <span className="text-[#a4d7ba] capitalize">{side} (px)</span>
+                        <input
+                            type="number"
+                            min={0}
+                            max={16384}
+                            value={settings[side]}
+                            disabled={settings.mode === "none"}
+                            onChange={(e) => {
+                                const value = Math.round(Number(e.target.value));
+                                if (Number.isFinite(value) && value >= 0) update({ [side]: Math.min(16384, value), preset: null });
+                            }}
+                            className="bg-[#010c05]/50 rounded-md px-3 py-2 border border-[#a4d7ba]/30 tabular-nums"
+                        />
+                    </label>
+                ))}
+                <p className="sm:col-span-2 text-xs text-[#a4d7ba]/80">
+                    {settings.mode === "fit" && "Leave a side at 0 to leave it unconstrained. "}
+                    {settings.mode === "cover" && "Drag on the image to choose what the crop keeps. "}
+                    Resized outputs get the preset or size in their name. Animations keep their size.
+                </p>
+            </div>
+
+            {settings.mode === "cover" && focusFile && (
+                <div className="space-y-2 md:max-w-sm">
+                    <FocusEditor
+                        file={focusFile.file}
+                        settings={settings}
+                        focus={focalPoints.get(focusFile.file) ?? CENTER}
+                        onChange={(focus) => onFocalPointChange(focusFile.file, focus)}
+                    />
+                    <div className="flex gap-2">
+                        <select
+                            value={Math.min(focusIndex, files.length - 1)}
+                            onChange={(e) => setFocusIndex(Number(e.target.value))}
+                            className="flex-1 min-w-0 bg-[#010c05]/50 rounded-md px-2 py-1.5 text-xs border border-[#a4d7ba]/30"
+                            aria-label="Image whose focal point is edited"
+                        >
+                            {files.map((file, index) => (
+                                <option key={index} value={index}>{file.relativePath}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={() => onFocalPointChange(focusFile.file, CENTER)}
+                            className="text-xs px-3 py-1.5 rounded-lg bg-[#1e5034] hover:bg-[#2a6f47] transition-colors"
+                        >
+                            Center
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
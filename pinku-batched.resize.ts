@@ -0,0 +1,107 @@
+// Resize and crop step that runs before the filter, for outputs that go to fixed slots
+// such as avatars, Open Graph cards and stories.
+
+export type ResizeMode = "none" | "fit" | "cover";
+
+export interface ResizeSettings {
+    /** "fit" shrinks to fit within the box; "cover" scales and crops to exactly the box size. */
+    mode: ResizeMode;
+    /** Box width in pixels; 0 leaves the width unconstrained in "fit" mode. */
+    width: number;
+    /** Box height in pixels; 0 leaves the height unconstrained in "fit" mode. */
+    height: number;
+    /** Id of the chosen entry in RESIZE_PRESETS, or null for a custom size. */
+    preset: string | null;
+}
+
+/** The point of an image, from 0 to 1 on each axis, that a cover crop keeps as close to its center as it can. */
+export interface FocalPoint {
+    x: number;
+    y: number;
+}
+
+export interface ResizePreset {
+    id: string;
+    label: string;
+    width: number;
+    height: number;
+}
+
+export interface ResizePlan {
+    /** The part of the source image that is kept, in source pixels. */
+    crop: { x: number; y: number; width: number; height: number };
+    width: number;
+    height: number;
+}
+
+export const RESIZE_PRESETS: ResizePreset[] = [
+    { id: "1x1", label: "1:1 square (1080×1080)", width: 1080, height: 1080 },
+    { id: "16x9", label: "16:9 landscape (1920×1080)", width: 1920, height: 1080 },
+    { id: "9x16", label: "9:16 story (1080×1920)", width: 1080, height: 1920 },
+    { id: "4x5", label: "4:5 portrait (1080×1350)", width: 1080, height: 1350 },
+    { id: "1200x630", label: "Open Graph (1200×630)", width: 1200, height: 630 },
+    { id: "avatar", label: "Avatar (400×400)", width: 400, height: 400 },
+];
+
+export const DEFAULT_RESIZE_SETTINGS: ResizeSettings = {
+    mode: "none",
+    width: 1920,
+    height: 1080,
+    preset: null,
+};
+
+export const CENTER: FocalPoint = { x: 0.5, y: 0.5 };
+
+/**
+ * Works out the crop and output size for an image.
+ * "fit" never scales up; "cover" always produces exactly the requested size.
+ * @param sourceWidth - The upright image width.
+ * @param sourceHeight - The upright image height.
+ * @param settings - The resize settings.
+ * @param focus - The focal point for cover crops.
+ * @returns The plan, or null if the image stays as it is.
+ */
+export function planResize(sourceWidth: number, sourceHeight: number, settings: ResizeSettings, focus: FocalPoint = CENTER): ResizePlan | null {
+    const full = { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+
+    if (settings.mode === "fit") {
+        const scale = Math.min(
+            1,
+            settings.width > 0 ? settings.width / sourceWidth : 1,
+            settings.height > 0 ? settings.height / sourceHeight : 1,
+        );
+        if (scale >= 1) return null;
+        return { crop: full, width: Math.max(1, Math.round(sourceWidth * scale)), height: Math.max(1, Math.round(sourceHeight * scale)) };
+    }
+
+    if (settings.mode === "cover" && settings.width > 0 && settings.height > 0) {
+        const scale = Math.max(settings.width / sourceWidth, settings.height / sourceHeight);
+        const cropWidth = Math.min(sourceWidth, settings.width / scale);
+        const cropHeight = Math.min(sourceHeight, settings.height / scale);
+        const clamp = (value: number, max: number) => Math.min(Math.max(0, value), max);
+        return {
+            crop: {
+                x: clamp(focus.x * sourceWidth - cropWidth / 2, sourceWidth - cropWidth),
+                y: clamp(focus.y * sourceHeight - cropHeight / 2, sourceHeight - cropHeight),
+                width: cropWidth,
+                height: cropHeight,
+            },
+            width: settings.width,
+            height: settings.height,
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Builds the tag that is added to output names so resized results can be told apart.
+ * @param settings - The resize settings.
+ * @returns The preset id, the custom size such as "800x600" or "fit-800x600", or "" without resizing.
+ */
+export function resizeTag(settings: ResizeSettings): string {
+    if (settings.mode === "none") return "";
+    if (settings.preset && RESIZE_PRESETS.some(preset => preset.id === settings.preset)) return settings.preset;
+    const size = `${settings.width || "any"}x${settings.height || "any"}`;
+    return settings.mode === "fit" ? `fit-${size}` : size;
+}
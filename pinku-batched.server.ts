@@ -0,0 +1,256 @@
+#!/usr/bin/env bun
+// Serves the SPA and a small HTTP API around the same filter the page and the CLI use.
+//
+//   GET  /api/health         → { status: "ok", ... }
+//   POST /api/filter         → one filtered image
+//   POST /api/filter/archive → a ZIP of filtered images
+//
+// Settings (palette, reverse, format, quality, name) come from the query string, or from a JSON
+// "options" field of a multipart upload, which takes precedence.
+
+import homepage from "./pinku-batched.html";
+import { createZip, dedupeNames } from "./pinku-batched.zip";
+import { DECODABLE_TYPES, sniffImageType } from "./pinku-batched.codec";
+import { checkImageSize, DEFAULT_IMAGE_LIMITS, readImageSize } from "./pinku-batched.limits";
+import { filterImageBytes, headlessOutputName, resolveHeadlessOptions, type HeadlessOptions, type HeadlessParams } from "./pinku-batched.headless";
+
+const PORT = Number(process.env.PORT ?? 3000);
+const MAX_FILE_BYTES = 25 * 1024 * 1024;
+const MAX_ARCHIVE_FILES = 50;
+const MAX_REQUEST_BYTES = 200 * 1024 * 1024;
+// Decoded pixels take 4 bytes each, so a small file with a huge header would otherwise exhaust memory
+const MAX_IMAGE_SIZE = { maxMegapixels: DEFAULT_IMAGE_LIMITS.maxMegapixels, maxDimension: DEFAULT_IMAGE_LIMITS.maxDimension };
+const startedAt = Date.now();
+
+const errorResponse = (status: number, error: string) => Response.json({ error }, { status });
+const methodNotAllowed = () => errorResponse(405, "Use POST with an image upload");
+
+// An error that handleErrors turns into a response with this status
+const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+interface Upload {
+    name: string;
+    bytes: Uint8Array;
+}
+
+/**
+ * Reduces a client-supplied file name to its last path segment, so output and archive names cannot climb out of
+ * the archive root with "../" or absolute paths.
+ * @param name - The multipart file name.
+ * @returns A plain file name, or "image" if nothing usable is left.
+ */
+function uploadName(name: string): string {
+    const base = name.split(/[\\/]/).filter(segment => segment && segment !== "." && segment !== "..").pop() ?? "";
+    return base.replace(/[\x00-\x1f]/g, "") || "image";
+}
+
+// The JSON "options" field can hold anything, so every setting is type-checked before it reaches the filter
+const OPTION_TYPES: Record<keyof HeadlessParams, "string" | "boolean" | "number"> = {
+    palette: "string",
+    reverse: "boolean",
+    format: "string",
+    quality: "number",
+    name: "string",
+};
+
+/**
+ * Reads the settings from the query string and an optional JSON "options" form field.
+ * @param url - The request URL.
+ * @param form - The parsed multipart body, if any.
+ * @returns The raw settings.
+ * @throws Error if "options" is not a JSON object or holds a setting of the wrong type.
+ */
+function readParams(url: URL, form: FormData | null): HeadlessParams {
+    const query = url.searchParams;
+    const params: HeadlessParams = {
+        palette: query.get("palette") ?? undefined,
+        reverse: query.has("reverse") ? query.get("reverse") !== "false" && query.get("reverse") !== "0" : undefined,
+        format: query.get("format") ?? undefined,
+        quality: query.has("quality") ? Number(query.get("quality")) : undefined,
+        name: query.get("name") ?? undefined,
+    };
+
+    const json = form?.get("options");
+    if (typeof json !== "string") return params;
+    let options: unknown;
+    try {
+        options = JSON.parse(json);
+    } catch {
+        throw new Error('The "options" field is not valid JSON');
+    }
+    if (!options || typeof options !== "object" || Array.isArray(options)) throw new Error('The "options" field must be a JSON object');
+
+    const checked: Record<string, unknown> = {};
+    for (const [key, type] of Object.entries(OPTION_TYPES)) {
+        const value = (options as Record<string, unknown>)[key];
+        if (value === undefined) continue;
+        if (typeof value !== type || (type === "number" && !Number.isFinite(value))) {
+            throw new Error(`"${key}" in "options" must be ${type === "number" ? "a finite number" : `a ${type}`}`);
+        }
+        checked[key] = value;
+    }
+    return { ...params, ...(checked as HeadlessParams) };
+}
+
+/**
+ * Collects the uploaded images from a multipart body, or treats a raw image body as a single upload.
+ * @param request - The request.
+ * @returns The uploads and the parsed form, if the body was multipart.
+ */
+async function readUploads(request: Request): Promise<{ uploads: Upload[]; form: FormData | null }> {
+    const contentType = request.headers.get("content-type") ?? "";
+    if (contentType.startsWith("multipart/form-data")) {
+        let form: FormData;
+        try {
+            form = await request.formData();
+        } catch {
+            throw httpError(400, "The multipart body could not be parsed");
+        }
+        const files = ([...form.values()] as unknown[]).filter((value): value is File => value instanceof File);
+        const uploads = await Promise.all(files.map(async file => ({ name: uploadName(file.name), bytes: new Uint8Array(await file.arrayBuffer()) })));
+        return { uploads, form };
+    }
+    const bytes = new Uint8Array(await request.arrayBuffer());
+    return { uploads: bytes.length ? [{ name: "image", bytes }] : [], form: null };
+}
+
+/**
+ * Checks one upload against the size limits and the decodable formats. The pixel size is read from the header,
+ * so oversized images are rejected before anything is decoded.
+ * @param upload - The upload.
+ * @returns An error response, or null if the upload can be filtered.
+ */
+function validateUpload(upload: Upload): Response | null {
+    if (upload.bytes.length > MAX_FILE_BYTES) {
+        return errorResponse(413, `${upload.name} is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB`);
+    }
+    if (!sniffImageType(upload.bytes)) {
+        return errorResponse(415, `${upload.name} is not a supported image; send ${DECODABLE_TYPES.join(" or ")}`);
+    }
+    const size = readImageSize(upload.bytes);
+    if (!size) return errorResponse(415, `${upload.name} has no readable image size`);
+    const check = checkImageSize(size, MAX_IMAGE_SIZE);
+    if (check.exceeds) {
+        return errorResponse(413, `${upload.name} is ${size.width}×${size.height}; images may be at most ${MAX_IMAGE_SIZE.maxMegapixels} megapixels and ${MAX_IMAGE_SIZE.maxDimension} pixels on a side`);
+    }
+    return null;
+}
+
+/**
+ * Builds a Content-Disposition header that keeps non-ASCII file names intact (RFC 6266), with an ASCII fallback
+ * for clients that do not read filename*.
+ * @param type - "inline" or "attachment".
+ * @param name - The file name.
+ * @returns The header value.
+ */
+function contentDisposition(type: "inline" | "attachment", name: string): string {
+    const fallback = name.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+    const encoded = encodeURIComponent(name).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+    return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+// Decoder errors such as "Progressive JPEGs are not supported" describe the input, so they are the client's to fix
+function filterUpload(upload: Upload, options: HeadlessOptions) {
+    try {
+        return filterImageBytes(upload.bytes, options);
+    } catch (error) {
+        throw httpError(415, `${upload.name}: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+async function parseRequest(request: Request) {
+    const length = Number(request.headers.get("content-length") ?? 0);
+    if (length > MAX_REQUEST_BYTES) throw httpError(413, "Request body is too large");
+
+    const { uploads, form } = await readUploads(request);
+    try {
+        return { uploads, options: resolveHeadlessOptions(readParams(new URL(request.url), form)) };
+    } catch (error) {
+        throw httpError(400, error instanceof Error ? error.message : String(error));
+    }
+}
+
+// Turns errors from httpError into JSON error responses, and anything else into a 500
+async function handleErrors(handler: () => Promise<Response>): Promise<Response> {
+    try {
+        return await handler();
+    } catch (error) {
+        const status = (error as { status?: number }).status;
+        if (status) return errorResponse(status, (error as Error).message);
+        console.error("Unexpected error while filtering:", error);
+        return errorResponse(500, "The image could not be filtered");
+    }
+}
+
+const server = Bun.serve({
+    port: PORT,
+    maxRequestBodySize: MAX_REQUEST_BYTES,
+    development: process.env.NODE_ENV !== "production",
+
+    routes: {
+        "/": homepage,
+
+        "/api/health": {
+            GET: () => Response.json({
+                status: "ok",
+                uptime: Math.round((Date.now() - startedAt) / 1000),
+                formats: DECODABLE_TYPES,
+                limits: { fileBytes: MAX_FILE_BYTES, requestBytes: MAX_REQUEST_BYTES, archiveFiles: MAX_ARCHIVE_FILES, ...MAX_IMAGE_SIZE },
+            }),
+        },
+
+        "/api/filter": {
+            GET: methodNotAllowed,
+            POST: request => handleErrors(async () => {
+                const { uploads, options } = await parseRequest(request);
+                if (uploads.length !== 1) return errorResponse(400, "Send exactly one image; use /api/filter/archive for several");
+                const invalid = validateUpload(uploads[0]);
+                if (invalid) return invalid;
+
+                const result = filterUpload(uploads[0], options);
+                const name = headlessOutputName(uploads[0].name, 0, 1, result, options, new Date());
+                return new Response(result.bytes, {
+                    headers: {
+                        "Content-Type": result.type,
+                        "Content-Disposition": contentDisposition("inline", name),
+                    },
+                });
+            }),
+        },
+
+        "/api/filter/archive": {
+            GET: methodNotAllowed,
+            POST: request => handleErrors(async () => {
+                const { uploads, options } = await parseRequest(request);
+                if (uploads.length === 0) return errorResponse(400, "Send at least one image as multipart/form-data");
+                if (uploads.length > MAX_ARCHIVE_FILES) return errorResponse(413, `Send at most ${MAX_ARCHIVE_FILES} images per archive`);
+                for (const upload of uploads) {
+                    const invalid = validateUpload(upload);
+                    if (invalid) return invalid;
+                }
+
+                const date = new Date();
+                const results = uploads.map(upload => filterUpload(upload, options));
+                const names = dedupeNames(results.map((result, index) => headlessOutputName(uploads[index].name, index, uploads.length, result, options, date)));
+                const archive = await createZip(results.map((result, index) => ({
+                    name: names[index],
+                    data: new Blob([result.bytes], { type: result.type }),
+                })));
+                return new Response(archive, {
+                    headers: {
+                        "Content-Type": "application/zip",
+                        "Content-Disposition": contentDisposition("attachment", "pinku_images.zip"),
+                    },
+                });
+            }),
+        },
+
+        "/api/*": () => errorResponse(404, "Unknown API route"),
+    },
+
+    fetch() {
+        return errorResponse(404, "Not found");
+    },
+});
+
+console.log(`🌸 pinku-batched listening on ${server.url}`);
@@ -0,0 +1,45 @@
+import { Database, Trash2 } from "lucide-react";
+import type { StorageUsage } from "./pinku-batched.session";
+
+const formatBytes = (bytes: number) =>
+    bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(1)} GB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export interface SessionPanelProps {
+    /** Storage used by this site, or null if the browser does not report it. */
+    usage: StorageUsage | null;
+    /** Why the last save failed, e.g. because storage is full. */
+    error: string | null;
+    onClear: () => void;
+}
+
+export default function SessionPanel({ usage, error, onClear }: SessionPanelProps) {
+    const share = usage && usage.quota > 0 ? Math.min(100, (usage.usage / usage.quota) * 100) : 0;
+
+    return (
+        <div className="bg-black/20 rounded-xl p-4 mb-4 text-sm flex flex-col sm:flex-row sm:items-center gap-3">
+            <Database size={18} className="text-[#a4d7ba] flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+                <p className={error ? 'text-amber-300' : 'text-[#a4d7ba]'}>
+                    {error ?? "The queue, results and settings are saved in this browser and restored after a reload."}
+                </p>
+                {usage && (
+                    <div className="flex items-center gap-2 mt-1.5">
+                        <div className="flex-1 max-w-xs bg-[#010c05]/50 rounded-full h-1.5">
+                            <div className="bg-[#27e47a] h-1.5 rounded-full" style={{ width: `${share}%` }}></div>
+                        </div>
+                        <span className="text-xs text-[#a4d7ba]/80 tabular-nums">
+                            {formatBytes(usage.usage)} of {formatBytes(usage.quota)} used
+                        </span>
+                    </div>
+                )}
+            </div>
+            <button
+                onClick={onClear}
+                className="flex items-center justify-center gap-1.5 text-xs px-3 py-1.5 rounded-lg bg-[#1e5034] hover:bg-[#2a6f47] transition-colors"
+            >
+                <Trash2 size={14} />
+                Clear Stored Session
+            </button>
+        </div>
+    );
+}
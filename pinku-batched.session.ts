@@ -0,0 +1,240 @@
+// IndexedDB-backed session: the queue, the processed results and the settings survive a reload or a tab crash.
+// Files and results are written once and then only reordered or deleted, so saving after every change stays cheap.
+
+import type { ColorStop } from "./pinku-batched.palettes";
+import type { ToneSettings } from "./pinku-batched.tone";
+import type { DitherSettings } from "./pinku-batched.dither";
+import type { BlendSettings } from "./pinku-batched.blend";
+import type { ExportSettings } from "./pinku-batched.export";
+import type { ImageLimits } from "./pinku-batched.limits";
+import type { FocalPoint, ResizeSettings } from "./pinku-batched.resize";
+import type { ImageMask } from "./pinku-batched.mask";
+import type { QueuedFile } from "./pinku-batched.drop";
+import type { CubeLut } from "./pinku-batched.cube";
+import type { InterpolationSpace } from "./pinku-batched.colorspace";
+
+export interface SessionSettings {
+    stops: ColorStop[];
+    paletteName: string;
+    isReversed: boolean;
+    interpolation: InterpolationSpace;
+    tone: ToneSettings;
+    dither: DitherSettings;
+    blend: BlendSettings;
+    export: ExportSettings;
+    limits: ImageLimits;
+    resize: ResizeSettings;
+    cube: CubeLut | null;
+}
+
+/** A processed image as it is stored; object URLs are created again on load. */
+export interface SessionResult {
+    blob: Blob;
+    name: string;
+    originalName: string;
+    originalFile: File;
+    separations: { name: string; blob: Blob }[];
+}
+
+export interface StoredSession {
+    /** Stored settings; fields added in later versions may be missing. */
+    settings: Partial<SessionSettings> | null;
+    files: QueuedFile[];
+    focalPoints: Map<File, FocalPoint>;
+    masks: Map<File, ImageMask>;
+    results: SessionResult[];
+}
+
+export interface StorageUsage {
+    /** Bytes used by this origin, including the session. */
+    usage: number;
+    /** Bytes the browser allows this origin to use. */
+    quota: number;
+}
+
+const DB_NAME = "pinku-batched";
+const DB_VERSION = 1;
+const STORES = ["settings", "files", "results"] as const;
+
+interface QueueRecord {
+    /** File ids in queue order. */
+    order: string[];
+    focalPoints: Record<string, FocalPoint>;
+    masks: Record<string, ImageMask>;
+}
+
+// --- Ids: queued files and result blobs keep the id they were first saved under ---
+const ids = new WeakMap<object, string>();
+let nextId = 0;
+
+const idOf = (value: object) => {
+    let id = ids.get(value);
+    if (!id) {
+        id = `${Date.now().toString(36)}-${(nextId++).toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+        ids.set(value, id);
+    }
+    return id;
+};
+
+// --- IndexedDB helpers ---
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+const completion = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException("The transaction was aborted", "AbortError"));
+});
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (typeof indexedDB === "undefined") return Promise.reject(new Error("This browser has no IndexedDB"));
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const open = indexedDB.open(DB_NAME, DB_VERSION);
+        open.onupgradeneeded = () => {
+            for (const name of STORES) {
+                if (!open.result.objectStoreNames.contains(name)) open.result.createObjectStore(name);
+            }
+        };
+        open.onsuccess = () => resolve(open.result);
+        open.onerror = () => reject(open.error);
+    }).catch(error => {
+        database = null;
+        throw error;
+    });
+    return database;
+}
+
+// Keeps the first of several entries with the same id, e.g. a file that was queued twice
+const uniqueBy = <T>(items: T[], keyOf: (item: T) => string) => {
+    const seen = new Set<string>();
+    return items.filter(item => {
+        const key = keyOf(item);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+// Writes new entries of a keyed list and deletes the ones that are gone; existing blobs are not written again
+async function syncStore<T>(store: IDBObjectStore, items: T[], keyOf: (item: T) => string) {
+    const stored = new Set((await request(store.getAllKeys())).map(String));
+    const current = new Set(items.map(keyOf));
+    items.forEach(item => stored.has(keyOf(item)) || store.put(item, keyOf(item)));
+    stored.forEach(id => current.has(id) || store.delete(id));
+}
+
+/**
+ * Reads the stored session.
+ * @returns The session, or null if nothing is stored.
+ * @throws Error if IndexedDB is unavailable or the database cannot be opened.
+ */
+export async function loadSession(): Promise<StoredSession | null> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES, "readonly");
+    const settingsStore = transaction.objectStore("settings");
+    const [settings, queue, resultOrder, fileKeys, fileRecords, resultKeys, resultRecords] = await Promise.all([
+        request<Partial<SessionSettings> | undefined>(settingsStore.get("settings")),
+        request<QueueRecord | undefined>(settingsStore.get("queue")),
+        request<string[] | undefined>(settingsStore.get("results")),
+        request(transaction.objectStore("files").getAllKeys()),
+        request<QueuedFile[]>(transaction.objectStore("files").getAll()),
+        request(transaction.objectStore("results").getAllKeys()),
+        request<SessionResult[]>(transaction.objectStore("results").getAll()),
+    ]);
+    if (!settings && fileRecords.length === 0 && resultRecords.length === 0) return null;
+
+    // Stored files and blobs take their ids back, so saving the restored session writes nothing new
+    const byId = <T>(keys: IDBValidKey[], records: T[], identity: (record: T) => object) =>
+        new Map(keys.map((key, i) => {
+            ids.set(identity(records[i]), String(key));
+            return [String(key), records[i]] as const;
+        }));
+    const files = byId(fileKeys, fileRecords, entry => entry.file);
+    const results = byId(resultKeys, resultRecords, result => result.blob);
+
+    const pick = <T>(order: string[] | undefined, records: Map<string, T>) =>
+        (order ?? [...records.keys()]).flatMap(id => records.has(id) ? [records.get(id)!] : []);
+    const queued = pick(queue?.order, files);
+    const perFile = <T>(values: Record<string, T> | undefined) => new Map(queued.flatMap(({ file }) => {
+        const value = values?.[idOf(file)];
+        return value ? [[file, value] as const] : [];
+    }));
+
+    return {
+        settings: settings ?? null,
+        files: queued,
+        focalPoints: perFile(queue?.focalPoints),
+        masks: perFile(queue?.masks),
+        results: pick(resultOrder, results),
+    };
+}
+
+/**
+ * Stores the chosen settings.
+ * @param settings - The current settings.
+ */
+export async function saveSettings(settings: SessionSettings) {
+    const db = await openDatabase();
+    const transaction = db.transaction("settings", "readwrite");
+    transaction.objectStore("settings").put(settings, "settings");
+    await completion(transaction);
+}
+
+/**
+ * Stores the queue, including the focal points and masks of its files.
+ * @param files - The queued files in order.
+ * @param focalPoints - Focal points by file.
+ * @param masks - Masks by file.
+ */
+export async function saveQueue(files: QueuedFile[], focalPoints: Map<File, FocalPoint>, masks: Map<File, ImageMask>) {
+    const db = await openDatabase();
+    const transaction = db.transaction(["files", "settings"], "readwrite");
+    const unique = uniqueBy(files, ({ file }) => idOf(file));
+    const record: QueueRecord = { order: unique.map(({ file }) => idOf(file)), focalPoints: {}, masks: {} };
+    unique.forEach(({ file }) => {
+        const focus = focalPoints.get(file);
+        const mask = masks.get(file);
+        if (focus) record.focalPoints[idOf(file)] = focus;
+        if (mask) record.masks[idOf(file)] = mask;
+    });
+    transaction.objectStore("settings").put(record, "queue");
+    await syncStore(transaction.objectStore("files"), unique.map(({ file, relativePath }) => ({ file, relativePath })), ({ file }) => idOf(file));
+    await completion(transaction);
+}
+
+/**
+ * Stores the processed results.
+ * @param results - The results in display order.
+ */
+export async function saveResults(results: SessionResult[]) {
+    const db = await openDatabase();
+    const transaction = db.transaction(["results", "settings"], "readwrite");
+    const unique = uniqueBy(results, ({ blob }) => idOf(blob));
+    transaction.objectStore("settings").put(unique.map(({ blob }) => idOf(blob)), "results");
+    await syncStore(transaction.objectStore("results"), unique, ({ blob }) => idOf(blob));
+    await completion(transaction);
+}
+
+/**
+ * Deletes everything stored for the session.
+ */
+export async function clearSession() {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES, "readwrite");
+    STORES.forEach(name => transaction.objectStore(name).clear());
+    await completion(transaction);
+}
+
+/**
+ * Asks the browser how much storage this origin uses.
+ * @returns The usage and quota, or null if the browser does not say.
+ */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+}
@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from "react";
+import { RotateCcw } from "lucide-react";
+import { applyFilterOptions, loadImageData } from "./pinku-batched.process";
+import { DEFAULT_TONE_SETTINGS, type LuminanceFormula, type ToneSettings } from "./pinku-batched.tone";
+import type { ColorStop } from "./pinku-batched.palettes";
+import type { DitherSettings } from "./pinku-batched.dither";
+import type { BlendSettings } from "./pinku-batched.blend";
+import type { CubeLut } from "./pinku-batched.cube";
+import type { QueuedFile } from "./pinku-batched.drop";
+
+const PREVIEW_SIZE = 480;
+
+const LUMINANCE_OPTIONS: { value: LuminanceFormula; label: string }[] = [
+    { value: "rec709", label: "Rec.709" },
+    { value: "rec601", label: "Rec.601" },
+    { value: "average", label: "Average" },
+];
+
+const Slider = ({ label, value, min, max, step = 1, disabled, display, onChange }: {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step?: number;
+    disabled?: boolean;
+    display?: string;
+    onChange: (value: number) => void;
+}) => (
+    <label className={`flex flex-col gap-1 text-sm ${disabled ? 'opacity-50' : ''}`}>
+        <span className="flex justify-between text-[#a4d7ba]">
+            <span>{label}</span>
+            <span className="tabular-nums text-[#ececec]">{display ?? value}</span>
+        </span>
+        <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            disabled={disabled}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="accent-[#27e47a]"
+        />
+    </label>
+);
+
+// --- Live preview of the full pipeline on one downscaled image ---
+const LivePreview = ({ file, stops, tone, dither, blend, cube }: {
+    file: File;
+    stops: ColorStop[];
+    tone: ToneSettings;
+    dither: DitherSettings;
+    blend: BlendSettings;
+    cube: CubeLut | null;
+}) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [source, setSource] = useState<ImageData | null>(null);
+    const [loadFailed, setLoadFailed] = useState<boolean>(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        setSource(null);
+        setLoadFailed(false);
+        loadImageData(file, PREVIEW_SIZE)
+            .then(imageData => { if (!cancelled) setSource(imageData); })
+            .catch(error => {
+                console.error("Failed to load the preview image:", error);
+                if (!cancelled) setLoadFailed(true);
+            });
+        return () => { cancelled = true; };
+    }, [file]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (!canvas || !ctx || !source) return;
+        canvas.width = source.width;
+        canvas.height = source.height;
+        const copy = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height);
+        ctx.putImageData(applyFilterOptions(copy, { stops, tone, dither, blend, cube }).imageData, 0, 0);
+    }, [source, stops, tone, dither, blend, cube]);
+
+    return (
+        <div className="aspect-square bg-black/30 rounded-lg flex items-center justify-center overflow-hidden">
+            {source ? (
+                <canvas ref={canvasRef} className="max-w-full max-h-full object-contain" />
+            ) : loadFailed ? (
+                <span className="text-xs text-[#a4d7ba]/80">Preview unavailable</span>
+            ) : (
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[#27e47a]"></div>
+            )}
+        </div>
+    );
+};
+
+export interface TonePanelProps {
+    settings: ToneSettings;
+    onChange: (settings: ToneSettings) => void;
+    files: QueuedFile[];
+    /** Effective gradient stops (already reversed if needed), for the live preview. */
+    stops: ColorStop[];
+    /** Render mode settings, so the preview shows dithered output too. */
+    dither: DitherSettings;
+    /** Compositing settings, so the preview shows the blended result. */
+    blend: BlendSettings;
+    /** Imported LUT, which replaces the gradient map in the preview too. */
+    cube: CubeLut | null;
+}
+
+export default function TonePanel({ settings, onChange, files, stops, dither, blend, cube }: TonePanelProps) {
+    const [previewIndex, setPreviewIndex] = useState<number>(0);
+    const previewFile = files[Math.min(previewIndex, files.length - 1)];
+    const update = (changes: Partial<ToneSettings>) => onChange({ ...settings, ...changes });
+
+    return (
+        <div className="bg-black/20 rounded-xl p-4 mb-4 grid grid-cols-1 md:grid-cols-[1fr_16rem] gap-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3 content-start">
+                <Slider label="Brightness" min={-100} max={100} value={settings.brightness} onChange={(brightness) => update({ brightness })} />
+                <Slider label="Contrast" min={-100} max={100} value={settings.contrast} onChange={(contrast) => update({ contrast })} />
+                <Slider label="Gamma" min={0.1} max={3} step={0.05} value={settings.gamma} display={settings.gamma.toFixed(2)} onChange={(gamma) => update({ gamma })} />
+                <label className="flex flex-col gap-1 text-sm">
+                    <span className="text-[#a4d7ba]">Luminance</span>
+                    <select
+                        value={settings.luminance}
+                        onChange={(e) => update({ luminance: e.target.value as LuminanceFormula })}
+                        className="bg-[#010c05]/50 rounded-md px-3 py-1.5 border border-[#a4d7ba]/30"
+                    >
+                        {LUMINANCE_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <Slider
+                    label="Black point"
+                    min={0}
+                    max={254}
+                    value={settings.blackPoint}
+                    disabled={settings.autoLevels}
+                    onChange={(blackPoint) => update({ blackPoint: Math.min(blackPoint, settings.whitePoint - 1) })}
+                />
+                <Slider
+                    label="White point"
+                    min={1}
+                    max={255}
+                    value={settings.whitePoint}
+                    disabled={settings.autoLevels}
+                    onChange={(whitePoint) => update({ whitePoint: Math.max(whitePoint, settings.blackPoint + 1) })}
+                />
+                <label className="flex items-center gap-2 text-sm">
+                    <input
+                        type="checkbox"
+                        checked={settings.autoLevels}
+                        onChange={(e) => update({ autoLevels: e.target.checked })}
+                        className="accent-[#27e47a]"
+                    />
+                    <span>Auto levels (per image histogram)</span>
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                    <input
+                        type="checkbox"
+                        checked={settings.linearLuminance}
+                        onChange={(e) => update({ linearLuminance: e.target.checked })}
+                        className="accent-[#27e47a]"
+                    />
+                    <span>Measure luminance in linear light</span>
+                </label>
+                <button
+                    onClick={() => onChange(DEFAULT_TONE_SETTINGS)}
+                    className="flex items-center justify-center gap-2 text-sm px-3 py-1.5 rounded-lg bg-[#1e5034] hover:bg-[#2a6f47] transition-colors"
+                >
+                    <RotateCcw size={14} />
+                    Reset Tone
+                </button>
+            </div>
+
+            {previewFile && (
+                <div className="space-y-2">
+                    <LivePreview file={previewFile.file} stops={stops} tone={settings} dither={dither} blend={blend} cube={cube} />
+                    <select
+                        value={Math.min(previewIndex, files.length - 1)}
+                        onChange={(e) => setPreviewIndex(Number(e.target.value))}
+                        className="w-full bg-[#010c05]/50 rounded-md px-2 py-1.5 text-xs border border-[#a4d7ba]/30"
+                        aria-label="Image used for the live preview"
+                    >
+                        {files.map((file, index) => (
+                            <option key={index} value={index}>{file.relativePath}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
+        </div>
+    );
+}
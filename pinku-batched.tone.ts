@@ -0,0 +1,129 @@
+// Tone adjustments applied to luminance before it is mapped through the gradient LUTs.
+
+import type { LUT } from "./pinku-batched.filter";
+import { linearLuminanceLevel } from "./pinku-batched.colorspace";
+
+export type LuminanceFormula = "rec709" | "rec601" | "average";
+
+export const LUMINANCE_WEIGHTS: Record<LuminanceFormula, [number, number, number]> = {
+    rec709: [0.2126, 0.7152, 0.0722],
+    rec601: [0.299, 0.587, 0.114],
+    average: [1 / 3, 1 / 3, 1 / 3],
+};
+
+export interface ToneSettings {
+    /** -100 to 100. */
+    brightness: number;
+    /** -100 to 100. */
+    contrast: number;
+    /** 0.1 to 3; values above 1 lift the midtones. */
+    gamma: number;
+    /** Input level mapped to black, 0 to 254. */
+    blackPoint: number;
+    /** Input level mapped to white, 1 to 255. */
+    whitePoint: number;
+    /** Replace the black/white points with ones measured from each image's histogram. */
+    autoLevels: boolean;
+    luminance: LuminanceFormula;
+    /** Compute luminance in linear light rather than from the gamma-encoded channels. */
+    linearLuminance: boolean;
+}
+
+export const DEFAULT_TONE_SETTINGS: ToneSettings = {
+    brightness: 0,
+    contrast: 0,
+    gamma: 1,
+    blackPoint: 0,
+    whitePoint: 255,
+    autoLevels: false,
+    luminance: "rec709",
+    linearLuminance: false,
+};
+
+// Share of the darkest and brightest pixels ignored by auto levels, so a few specks don't pin the range
+const AUTO_LEVELS_CLIP = 0.005;
+
+/**
+ * Checks whether the settings would leave luminance untouched, so the curve can be skipped.
+ * @param settings - The tone settings.
+ * @returns True if no adjustment is applied.
+ */
+export const isNeutralTone = (settings: ToneSettings) =>
+    settings.brightness === 0 && settings.contrast === 0 && settings.gamma === 1 &&
+    settings.blackPoint === 0 && settings.whitePoint === 255 && !settings.autoLevels;
+
+/**
+ * Builds a 256-entry luminance histogram of an image.
+ * @param imageData - The ImageData object from a canvas.
+ * @param weights - The RGB luminance weights.
+ * @param linear - Compute luminance in linear light.
+ * @returns The pixel count for every luminance level.
+ */
+export function computeHistogram(imageData: ImageData, weights: [number, number, number], linear = false): Uint32Array {
+    const histogram = new Uint32Array(256);
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+        histogram[linear
+            ? linearLuminanceLevel(data[i], data[i + 1], data[i + 2], weights)
+            : Math.round((data[i] * weights[0]) + (data[i + 1] * weights[1]) + (data[i + 2] * weights[2]))]++;
+    }
+    return histogram;
+}
+
+/**
+ * Finds black and white points that stretch the histogram to the full range.
+ * @param histogram - The luminance histogram from computeHistogram.
+ * @returns The measured black and white points.
+ */
+export function computeAutoLevels(histogram: Uint32Array): { blackPoint: number; whitePoint: number } {
+    const total = histogram.reduce((sum, count) => sum + count, 0);
+    const clip = total * AUTO_LEVELS_CLIP;
+
+    let blackPoint = 0;
+    for (let seen = 0; blackPoint < 255 && seen + histogram[blackPoint] <= clip; blackPoint++) {
+        seen += histogram[blackPoint];
+    }
+    let whitePoint = 255;
+    for (let seen = 0; whitePoint > 0 && seen + histogram[whitePoint] <= clip; whitePoint--) {
+        seen += histogram[whitePoint];
+    }
+    return whitePoint > blackPoint ? { blackPoint, whitePoint } : { blackPoint: 0, whitePoint: 255 };
+}
+
+/**
+ * Builds the luminance curve for the tone settings: levels, then gamma, then contrast and brightness.
+ * @param settings - The tone settings. The black/white points may already be replaced by auto levels.
+ * @returns A 256-entry curve from input luminance to adjusted luminance.
+ */
+export function generateToneCurve(settings: ToneSettings): Uint8ClampedArray {
+    const curve = new Uint8ClampedArray(256);
+    const range = Math.max(1, settings.whitePoint - settings.blackPoint);
+    const contrastFactor = Math.pow(2, settings.contrast / 50);
+
+    for (let i = 0; i < 256; i++) {
+        let value = Math.min(1, Math.max(0, (i - settings.blackPoint) / range));
+        value = Math.pow(value, 1 / settings.gamma);
+        value = ((value - 0.5) * contrastFactor) + 0.5;
+        value += settings.brightness / 200;
+        curve[i] = Math.min(1, Math.max(0, value)) * 255;
+    }
+    return curve;
+}
+
+/**
+ * Folds a tone curve into color LUTs, so filtering still does a single lookup per pixel.
+ * @param luts - The r, g and b LUTs.
+ * @param curve - The tone curve from generateToneCurve.
+ * @returns New LUTs that apply the curve first.
+ */
+export function applyToneCurve(luts: LUT, curve: Uint8ClampedArray): LUT {
+    const rLUT = new Uint8ClampedArray(256);
+    const gLUT = new Uint8ClampedArray(256);
+    const bLUT = new Uint8ClampedArray(256);
+    for (let i = 0; i < 256; i++) {
+        rLUT[i] = luts.rLUT[curve[i]];
+        gLUT[i] = luts.gLUT[curve[i]];
+        bLUT[i] = luts.bLUT[curve[i]];
+    }
+    return { rLUT, gLUT, bLUT };
+}
@@ -4,94 +4,98 @@ import {
     useState,
     useMemo,
     type ChangeEvent,
+    type DragEvent,
     type ReactNode
 } from "react";
-// --- NEW --- Added ArrowRightLeft icon for the reverse color feature
-import { Upload, Wand2, RefreshCw, Download, CheckCircle, XCircle, Camera, ClipboardCopy, Check, ZoomIn, ArrowRightLeft } from "lucide-react";
-
-// --- REFACTORED --- Moved color definitions and LUT generation into functions
-const GREEN_SHADOW: number[] = [22, 80, 39];
-const PINK_HIGHLIGHT: number[] = [249, 159, 210];
-
-/**
- * Generates Look-Up Tables (LUTs) for color mapping based on shadow and highlight colors.
- * @param shadowColor - The RGB array for the shadow color.
- * @param highlightColor - The RGB array for the highlight color.
- * @returns An object containing the r, g, and b LUTs.
- */
-function generateLUTs(shadowColor: number[], highlightColor: number[]) {
-    const rLUT = new Uint8ClampedArray(256);
-    const gLUT = new Uint8ClampedArray(256);
-    const bLUT = new Uint8ClampedArray(256);
-
-    for (let i = 0; i < 256; i++) {
-        const luminance = i / 255.0;
-        const invLuminance = 1.0 - luminance;
-        rLUT[i] = (shadowColor[0] * invLuminance) + (highlightColor[0] * luminance);
-        gLUT[i] = (shadowColor[1] * invLuminance) + (highlightColor[1] * luminance);
-        bLUT[i] = (shadowColor[2] * invLuminance) + (highlightColor[2] * luminance);
-    }
-    return { rLUT, gLUT, bLUT };
-}
-
-/**
- * Applies the duotone filter to an image's data using the provided LUTs.
- * @param imageData - The ImageData object from a canvas.
- * @param luts - The Look-Up Tables for r, g, and b channels.
- * @returns The modified ImageData.
- */
-function filtering(imageData: ImageData, luts: { rLUT: Uint8ClampedArray, gLUT: Uint8ClampedArray, bLUT: Uint8ClampedArray }): ImageData {
-    const data = imageData.data;
-    for (let i = 0; i < data.length; i += 4) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-        const luminanceInt = Math.round((r * 0.2126) + (g * 0.7152) + (b * 0.0722));
-        data[i] = luts.rLUT[luminanceInt];
-        data[i + 1] = luts.gLUT[luminanceInt];
-        data[i + 2] = luts.bLUT[luminanceInt];
-    }
-    return imageData;
-}
+import { Upload, Wand2, RefreshCw, Download, CheckCircle, XCircle, Camera, ClipboardCopy, Check, ZoomIn, Square, FileArchive, Film, ImagePlus, AlertTriangle, Paintbrush, LayoutGrid } from "lucide-react";
+import { BUILT_IN_PALETTES, reverseStops, type ColorStop } from "./pinku-batched.palettes";
+import { interpolateStops, type InterpolationSpace } from "./pinku-batched.colorspace";
+import { processBatch, type JobStatus } from "./pinku-batched.pool";
+import { reencodeImage, type FilterOptions } from "./pinku-batched.process";
+import { DEFAULT_EXPORT_SETTINGS, formatOutputName, resolveOutputType, separationName, type ExportSettings } from "./pinku-batched.export";
+import { createZip, dedupeNames } from "./pinku-batched.zip";
+import { collectDroppedFiles, isImageFile, toQueuedFiles, type QueuedFile } from "./pinku-batched.drop";
+import PalettePanel from "./pinku-batched.palette-panel";
+import ExportPanel from "./pinku-batched.export-panel";
+import TonePanel from "./pinku-batched.tone-panel";
+import DitherPanel from "./pinku-batched.dither-panel";
+import CameraPanel from "./pinku-batched.camera-panel";
+import BlendPanel from "./pinku-batched.blend-panel";
+import LutPanel from "./pinku-batched.lut-panel";
+import WebFilterPanel from "./pinku-batched.webfilter-panel";
+import ContactSheetPanel from "./pinku-batched.contact-sheet-panel";
+import type { CubeLut } from "./pinku-batched.cube";
+import { DEFAULT_DITHER_SETTINGS, type DitherSettings } from "./pinku-batched.dither";
+import { DEFAULT_TONE_SETTINGS, type ToneSettings } from "./pinku-batched.tone";
+import { DEFAULT_BLEND_SETTINGS, type BlendSettings } from "./pinku-batched.blend";
+import ImagePreviewModal, { type PreviewItem } from "./pinku-batched.preview-modal";
+import { estimateDecodedSize } from "./pinku-batched.animation";
+import { checkAnimationSize, checkImageSize, DEFAULT_IMAGE_LIMITS, inspectFile, type FileInfo, type ImageLimits } from "./pinku-batched.limits";
+import LimitsPanel from "./pinku-batched.limits-panel";
+import ResizePanel from "./pinku-batched.resize-panel";
+import type { ImageMask } from "./pinku-batched.mask";
+import { describeUnsupported } from "./pinku-batched.formats";
+import { clearSession, getStorageUsage, loadSession, saveQueue, saveResults, saveSettings, type StorageUsage } from "./pinku-batched.session";
+import SessionPanel from "./pinku-batched.session-panel";
+import { CENTER, DEFAULT_RESIZE_SETTINGS, resizeTag, type FocalPoint, type ResizeSettings } from "./pinku-batched.resize";
 
+const formatFileSize = (bytes: number) =>
+    bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
 
-// --- Image Preview Modal Component (Unchanged) ---
-const ImagePreviewModal = ({ imageUrl, onClose }: { imageUrl: string | null; onClose: () => void; }) => {
-    if (!imageUrl) return null;
-
-    return (
-        <div
-            className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 animate-fade-in"
-            onClick={onClose}
-        >
-            <button
-                className="absolute top-4 right-4 text-white bg-black/50 rounded-full p-2 hover:bg-black/75 transition-colors z-10"
-                onClick={onClose}
-                aria-label="Close image preview"
-            >
-                <XCircle size={32} />
-            </button>
-            <img
-                src={imageUrl}
-                alt="Image Preview"
-                className="max-w-full max-h-full object-contain"
-                onClick={(e) => e.stopPropagation()} // Prevent closing modal when clicking the image
-            />
-        </div>
-    );
+// Copies a per-file state map without one file
+const withoutFile = <T,>(map: Map<File, T>, file: File) => {
+    const next = new Map(map);
+    next.delete(file);
+    return next;
 };
 
+interface ProcessedImage {
+    /** Object URL for blob; revoked when the result is discarded. */
+    url: string;
+    blob: Blob;
+    name: string;
+    originalName: string;
+    originalFile: File;
+    /** Grayscale ink separations, darkest first; empty unless requested for a dither mode. */
+    separations: { name: string; blob: Blob }[];
+}
 
 export default function Page(): ReactNode {
-    const [files, setFiles] = useState<File[]>([]);
-    const [processedImages, setProcessedImages] = useState<{ url: string, name: string, originalName: string }[]>([]);
+    const [files, setFiles] = useState<QueuedFile[]>([]);
+    const [processedImages, setProcessedImages] = useState<ProcessedImage[]>([]);
     const [isProcessing, setIsProcessing] = useState<boolean>(false);
     const [processingProgress, setProcessingProgress] = useState<number>(0);
+    const [zipProgress, setZipProgress] = useState<number | null>(null);
+    const [isContactSheetOpen, setIsContactSheetOpen] = useState<boolean>(false);
     const [copiedImageIndex, setCopiedImageIndex] = useState<number | null>(null);
-    const [selectedImage, setSelectedImage] = useState<string | null>(null);
+    const [preview, setPreview] = useState<{ source: "files" | "results"; index: number } | null>(null);
     // --- NEW --- State to control the color direction
     const [isReversed, setIsReversed] = useState<boolean>(false);
+    const [stops, setStops] = useState<ColorStop[]>(BUILT_IN_PALETTES[0].stops);
+    const [paletteName, setPaletteName] = useState<string>(BUILT_IN_PALETTES[0].name);
+    const [interpolation, setInterpolation] = useState<InterpolationSpace>("srgb");
+    const [toneSettings, setToneSettings] = useState<ToneSettings>(DEFAULT_TONE_SETTINGS);
+    const [ditherSettings, setDitherSettings] = useState<DitherSettings>(DEFAULT_DITHER_SETTINGS);
+    const [blendSettings, setBlendSettings] = useState<BlendSettings>(DEFAULT_BLEND_SETTINGS);
+    const [cubeLut, setCubeLut] = useState<CubeLut | null>(null);
+    const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+    const [imageLimits, setImageLimits] = useState<ImageLimits>(DEFAULT_IMAGE_LIMITS);
+    const [resizeSettings, setResizeSettings] = useState<ResizeSettings>(DEFAULT_RESIZE_SETTINGS);
+    const [focalPoints, setFocalPoints] = useState<Map<File, FocalPoint>>(new Map());
+    // Masks are keyed by the file itself, so they stay with their image when others are removed
+    const [masks, setMasks] = useState<Map<File, ImageMask>>(new Map());
+    const [jobs, setJobs] = useState<Map<File, JobStatus>>(new Map());
+    // Size and animation info per queued file, read from the headers without decoding
+    const [fileInfo, setFileInfo] = useState<Map<File, FileInfo>>(new Map());
+    const [isDragging, setIsDragging] = useState<boolean>(false);
+    const [isCameraOpen, setIsCameraOpen] = useState<boolean>(false);
+    // Nothing is saved until the stored session has been restored, so the defaults never overwrite it
+    const [isSessionLoaded, setIsSessionLoaded] = useState<boolean>(false);
+    const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+    const [sessionError, setSessionError] = useState<string | null>(null);
     const fileRef = useRef<HTMLInputElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const resultUrlsRef = useRef<string[]>([]);
 
     // --- handlePaste and other hooks remain unchanged ---
     const handlePaste = async (event: ClipboardEvent) => {
@@ -104,13 +108,13 @@ export default function Page(): ReactNode {
                 const blob = item.getAsFile();
                 if (blob) {
                     const file = new File([blob], `pasted-image-${Date.now()}.${blob.type.split('/')[1]}`, { type: blob.type });
-                    imageFiles.push(file);
+                    if (isImageFile(file)) imageFiles.push(file);
                 }
             }
         }
 
         if (imageFiles.length > 0) {
-            setFiles(prev => [...prev, ...imageFiles]);
+            setFiles(prev => [...prev, ...toQueuedFiles(imageFiles)]);
             setProcessedImages([]);
         }
     };
@@ -122,8 +126,86 @@ export default function Page(): ReactNode {
         };
     }, []);
 
-    const filePreviews = useMemo(() => files.map(file => ({
-        name: file.name,
+    // --- Session persistence ---
+    const persist = (save: () => Promise<void>) => save()
+        .then(async () => {
+            setSessionError(null);
+            setStorageUsage(await getStorageUsage());
+        })
+        .catch(error => {
+            console.error("Could not save the session:", error);
+            setSessionError(error instanceof DOMException && error.name === "QuotaExceededError"
+                ? "Browser storage is full, so new results are no longer saved. Clear the stored session or download your results."
+                : "The session could not be saved in this browser.");
+        });
+
+    useEffect(() => {
+        // StrictMode runs this twice in development; only the last run may restore, or the queue is doubled
+        let cancelled = false;
+        loadSession()
+            .then(session => {
+                if (!session || cancelled) return;
+                const { settings } = session;
+                if (settings?.stops) setStops(settings.stops);
+                if (settings?.paletteName) setPaletteName(settings.paletteName);
+                if (settings?.isReversed !== undefined) setIsReversed(settings.isReversed);
+                if (settings?.interpolation) setInterpolation(settings.interpolation);
+                // Stored settings are merged over the defaults, so options added since they were saved get a value
+                if (settings?.tone) setToneSettings({ ...DEFAULT_TONE_SETTINGS, ...settings.tone });
+                if (settings?.dither) setDitherSettings({ ...DEFAULT_DITHER_SETTINGS, ...settings.dither });
+                if (settings?.blend) setBlendSettings({ ...DEFAULT_BLEND_SETTINGS, ...settings.blend });
+                if (settings?.export) setExportSettings({ ...DEFAULT_EXPORT_SETTINGS, ...settings.export });
+                if (settings?.limits) setImageLimits({ ...DEFAULT_IMAGE_LIMITS, ...settings.limits });
+                if (settings?.resize) setResizeSettings({ ...DEFAULT_RESIZE_SETTINGS, ...settings.resize });
+                if (settings?.cube) setCubeLut(settings.cube);
+                // Files added while the session was loading stay behind the restored ones
+                setFiles(prev => [...session.files, ...prev]);
+                setFocalPoints(prev => new Map([...session.focalPoints, ...prev]));
+                setMasks(prev => new Map([...session.masks, ...prev]));
+                setProcessedImages(prev => [
+                    ...session.results.map(result => ({ ...result, url: URL.createObjectURL(result.blob) })),
+                    ...prev,
+                ]);
+            })
+            .catch(error => console.error("Could not restore the stored session:", error))
+            .finally(() => { if (!cancelled) setIsSessionLoaded(true); });
+        return () => { cancelled = true; };
+    }, []);
+
+    useEffect(() => {
+        if (!isSessionLoaded) return;
+        const timer = setTimeout(() => persist(() => saveSettings({
+            stops,
+            paletteName,
+            isReversed,
+            interpolation,
+            tone: toneSettings,
+            dither: ditherSettings,
+            blend: blendSettings,
+            export: exportSettings,
+            limits: imageLimits,
+            resize: resizeSettings,
+            cube: cubeLut,
+        })), 300);
+        return () => clearTimeout(timer);
+    }, [isSessionLoaded, stops, paletteName, isReversed, interpolation, toneSettings, ditherSettings, blendSettings, exportSettings, imageLimits, resizeSettings, cubeLut]);
+
+    useEffect(() => {
+        if (!isSessionLoaded) return;
+        const timer = setTimeout(() => persist(() => saveQueue(files, focalPoints, masks)), 300);
+        return () => clearTimeout(timer);
+    }, [isSessionLoaded, files, focalPoints, masks]);
+
+    useEffect(() => {
+        if (!isSessionLoaded) return;
+        const timer = setTimeout(() => persist(() => saveResults(processedImages.map(({ url, ...result }) => result))), 300);
+        return () => clearTimeout(timer);
+    }, [isSessionLoaded, processedImages]);
+
+    const handleClearSession = () => persist(clearSession);
+
+    const filePreviews = useMemo(() => files.map(({ file, relativePath }) => ({
+        name: relativePath,
         url: URL.createObjectURL(file)
     })), [files]);
 
@@ -133,6 +215,75 @@ export default function Page(): ReactNode {
         };
     }, [filePreviews]);
 
+    useEffect(() => {
+        const pending = files.filter(({ file }) => !fileInfo.has(file));
+        if (pending.length === 0) return;
+        let cancelled = false;
+        // One unreadable file must not hold back the info of the others; it is simply processed without it
+        Promise.allSettled(pending.map(({ file }) => inspectFile(file))).then(results => {
+            if (cancelled) return;
+            const entries = results.flatMap((result, i): [File, FileInfo][] => {
+                if (result.status === "fulfilled") return [[pending[i].file, result.value]];
+                console.error(`Could not read image info of ${pending[i].relativePath}:`, result.reason);
+                return [];
+            });
+            setFileInfo(prev => new Map([...prev, ...entries]));
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [files]);
+
+    // Revoke object URLs of results that are no longer shown
+    useEffect(() => {
+        const current = new Set(processedImages.map(image => image.url));
+        resultUrlsRef.current.filter(url => !current.has(url)).forEach(url => URL.revokeObjectURL(url));
+        resultUrlsRef.current = [...current];
+    }, [processedImages]);
+
+    useEffect(() => {
+        return () => resultUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    }, []);
+
+    const sizeChecks = useMemo(() => files.map(({ file }) => {
+        const info = fileInfo.get(file);
+        if (info?.animation && exportSettings.animation !== "static") return checkAnimationSize(info.animation, imageLimits);
+        return info?.size ? checkImageSize(info.size, imageLimits) : null;
+    }), [files, fileInfo, imageLimits, exportSettings.animation]);
+
+    // The gradient map is mirrored and resampled for the interpolation space up front, so workers only see final stops
+    const effectiveStops = useMemo(
+        () => interpolateStops(isReversed ? reverseStops(stops) : stops, interpolation),
+        [stops, isReversed, interpolation],
+    );
+
+    const contactSheetItems = useMemo(
+        () => processedImages.map(image => ({ result: image.blob, original: image.originalFile, name: image.originalName })),
+        [processedImages],
+    );
+
+    const previewItems: PreviewItem[] = preview?.source === "results"
+        ? processedImages.map(image => ({
+            url: image.url,
+            name: image.originalName,
+            original: image.originalFile,
+            focus: focalPoints.get(image.originalFile) ?? CENTER,
+        }))
+        : filePreviews.map((file, index) => ({ ...file, mask: masks.get(files[index].file) ?? null }));
+
+    const handleMaskChange = (index: number, mask: ImageMask | null) => {
+        const { file } = files[index];
+        setMasks(prev => {
+            const next = new Map(prev);
+            if (mask) {
+                next.set(file, mask);
+            } else {
+                next.delete(file);
+            }
+            return next;
+        });
+    };
+
     function openFile() {
         if (fileRef.current) {
             fileRef.current.click();
@@ -141,80 +292,191 @@ export default function Page(): ReactNode {
 
     function fileChanged(e: ChangeEvent<HTMLInputElement>) {
         if (e.target.files) {
-            const newFiles = Array.from(e.target.files);
-            setFiles(prev => [...prev, ...newFiles]);
+            const newFiles = Array.from(e.target.files).filter(isImageFile);
+            setFiles(prev => [...prev, ...toQueuedFiles(newFiles)]);
             setProcessedImages([]);
         }
     }
     
+    const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "copy";
+        setIsDragging(true);
+    };
+
+    const handleDragLeave = (e: DragEvent<HTMLDivElement>) => {
+        // Ignore leave events fired when moving between children of the drop zone
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+    };
+
+    const handleDrop = async (e: DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsDragging(false);
+        try {
+            const dropped = await collectDroppedFiles(e.dataTransfer);
+            if (dropped.length > 0) {
+                setFiles(prev => [...prev, ...dropped]);
+                setProcessedImages([]);
+            }
+        } catch (error) {
+            console.error("Failed to read dropped files:", error);
+        }
+    };
+
     const handleRemoveFile = (indexToRemove: number) => {
+        const { file } = files[indexToRemove];
         setFiles(prev => prev.filter((_, index) => index !== indexToRemove));
+        // The same file can be queued twice, and its per-file state is shared then
+        if (files.some((entry, index) => index !== indexToRemove && entry.file === file)) return;
+        setMasks(prev => withoutFile(prev, file));
+        setJobs(prev => withoutFile(prev, file));
+        setFileInfo(prev => withoutFile(prev, file));
+        // Results of the file stay, and the preview still crops their originals around its focal point
+        if (!processedImages.some(image => image.originalFile === file)) setFocalPoints(prev => withoutFile(prev, file));
     };
 
-    const handleConvert = async () => {
-        if (files.length === 0) return;
+    const setJob = (file: File, status: JobStatus) => setJobs(prev => new Map(prev).set(file, status));
+
+    /**
+     * Filters some of the queued files. A failed file is marked on its card and the rest of the batch carries on.
+     * @param indices - Queue positions of the files to filter.
+     * @param isRetry - Keep the results and statuses of the other files instead of starting over.
+     */
+    const runBatch = async (indices: number[], isRetry: boolean) => {
+        if (indices.length === 0) return;
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setIsProcessing(true);
         setProcessingProgress(0);
-        setProcessedImages([]);
-        let processedCount = 0;
-
-        // --- NEW --- Generate LUTs dynamically based on the isReversed state
-        const shadowColor = isReversed ? PINK_HIGHLIGHT : GREEN_SHADOW;
-        const highlightColor = isReversed ? GREEN_SHADOW : PINK_HIGHLIGHT;
-        const luts = generateLUTs(shadowColor, highlightColor);
-
-        const processingPromises = files.map(async (file) => {
-            const image = document.createElement('img');
-            const objectUrl = URL.createObjectURL(file);
-            try {
-                await new Promise<void>((resolve, reject) => {
-                    image.onload = () => resolve();
-                    image.onerror = reject;
-                    image.src = objectUrl;
-                });
-                const canvas = document.createElement('canvas');
-                canvas.width = image.width;
-                canvas.height = image.height;
-                const ctx = canvas.getContext("2d");
-                if (ctx) {
-                    ctx.drawImage(image, 0, 0);
-                    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-                    // --- MODIFIED --- Pass the dynamically generated LUTs to the filtering function
-                    const filterResult = filtering(imageData, luts);
-                    ctx.putImageData(filterResult, 0, 0);
-                    processedCount++;
-                    setProcessingProgress(Math.round((processedCount / files.length) * 100));
-                    return { url: canvas.toDataURL('image/png'), name: `pinku_${file.name}`, originalName: file.name };
-                }
-            } finally {
-                URL.revokeObjectURL(objectUrl);
-            }
-            return null;
+
+        // Files already known to be in an unsupported format fail without being decoded
+        const statuses = new Map(isRetry ? jobs : []);
+        const runnable: number[] = [];
+        indices.forEach(index => {
+            const { file } = files[index];
+            const info = fileInfo.get(file);
+            const reason = info ? describeUnsupported(info.format) : null;
+            statuses.set(file, reason ? { state: "failed", error: reason } : { state: "queued" });
+            if (!reason) runnable.push(index);
         });
+        setJobs(statuses);
+
+        const rerun = new Set(indices.map(index => files[index].file));
+        const kept = isRetry ? processedImages.filter(image => !rerun.has(image.originalFile)) : [];
+        setProcessedImages(kept);
+        let finishedCount = 0;
+        const results: (ProcessedImage | null)[] = runnable.map(() => null);
+        const batchDate = new Date();
+        const palette = isReversed ? `${paletteName} reversed` : paletteName;
+        const countFinished = () => {
+            finishedCount++;
+            setProcessingProgress(Math.round((finishedCount / runnable.length) * 100));
+        };
+
+        const options: FilterOptions = {
+            stops: effectiveStops,
+            tone: toneSettings,
+            dither: ditherSettings,
+            blend: blendSettings,
+            format: exportSettings.format,
+            quality: exportSettings.quality,
+            keepMetadata: exportSettings.metadata === "keep",
+            animation: exportSettings.animation,
+            limits: imageLimits,
+            resize: resizeSettings,
+            focus: CENTER,
+            mask: null,
+            cube: cubeLut,
+        };
+        const preset = resizeTag(resizeSettings);
 
         try {
-            const results = await Promise.all(processingPromises);
-            const validResults = results.filter(res => res !== null) as {url: string, name: string, originalName: string}[];
-            setProcessedImages(validResults);
+            await processBatch(runnable.map(index => files[index].file), options, {
+                signal: controller.signal,
+                perFile: job => ({
+                    focus: focalPoints.get(files[runnable[job]].file) ?? CENTER,
+                    mask: masks.get(files[runnable[job]].file) ?? null,
+                }),
+                onStart: job => setJob(files[runnable[job]].file, { state: "processing" }),
+                onResult: (job, { blob, separations }) => {
+                    const index = runnable[job];
+                    const { file, relativePath } = files[index];
+                    const name = formatOutputName(exportSettings.nameTemplate, {
+                        relativePath,
+                        index,
+                        total: files.length,
+                        palette,
+                        date: batchDate,
+                        mimeType: blob.type,
+                        // Animations are never resized, so their names stay as they are
+                        preset: fileInfo.get(file)?.animation && exportSettings.animation !== "static" ? "" : preset,
+                    });
+                    results[job] = {
+                        url: URL.createObjectURL(blob),
+                        blob,
+                        name,
+                        originalName: relativePath,
+                        originalFile: file,
+                        separations: separations.map((separation, ink) => ({ name: separationName(name, ink), blob: separation })),
+                    };
+                    setJob(file, { state: "done" });
+                    countFinished();
+                    // Camera snapshots taken while the batch runs are kept; only this batch's results are replaced
+                    setProcessedImages(prev => [
+                        ...prev.filter(image => !results.includes(image)),
+                        ...results.filter((res): res is ProcessedImage => res !== null),
+                    ]);
+                },
+                onError: (job, error) => {
+                    const { file, relativePath } = files[runnable[job]];
+                    console.error(`Could not process ${relativePath}:`, error);
+                    setJob(file, { state: "failed", error: error.message || "The image could not be processed" });
+                    countFinished();
+                },
+            });
         } catch (error) {
-            console.error("An error occurred during image processing:", error);
+            if (error instanceof DOMException && error.name === "AbortError") {
+                // Cancelled files count as failed, so "Retry failed" picks up where the batch stopped
+                setJobs(prev => new Map([...prev].map(([file, status]) =>
+                    [file, status.state === "queued" || status.state === "processing" ? { state: "failed", error: "Cancelled" } : status])));
+            } else {
+                console.error("An error occurred during image processing:", error);
+            }
         } finally {
+            // Results finished before a cancel are kept
+            abortControllerRef.current = null;
             setIsProcessing(false);
         }
     };
 
-    // --- Download and copy handlers remain unchanged ---
-    const handleDownloadAll = () => {
-        processedImages.forEach((image, index) => {
-            setTimeout(() => {
-                const a = document.createElement("a");
-                a.href = image.url;
-                a.download = image.name;
-                document.body.appendChild(a);
-                a.click();
-                document.body.removeChild(a);
-            }, index * 100);
-        });
+    const handleConvert = () => runBatch(files.map((_, index) => index), false);
+
+    const failedIndices = files.flatMap(({ file }, index) => jobs.get(file)?.state === "failed" ? [index] : []);
+
+    const handleRetryFailed = () => runBatch(failedIndices, true);
+
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    // --- Download and copy handlers ---
+    const handleDownloadZip = async () => {
+        if (zipProgress !== null) return;
+        setZipProgress(0);
+        try {
+            const outputs = processedImages.flatMap(image => [{ name: image.name, blob: image.blob }, ...image.separations]);
+            const names = dedupeNames(outputs.map(output => output.name));
+            const entries = outputs.map((output, index) => ({ name: names[index], data: output.blob }));
+            const archive = await createZip(entries, setZipProgress);
+            const archiveUrl = URL.createObjectURL(archive);
+            handleDownloadSingle(archiveUrl, "pinku_images.zip");
+            setTimeout(() => URL.revokeObjectURL(archiveUrl), 1000);
+        } catch (error) {
+            console.error("Failed to build the ZIP archive:", error);
+            alert("Sorry, the ZIP archive could not be created.");
+        } finally {
+            setZipProgress(null);
+        }
     };
 
     const handleDownloadSingle = (url: string, name: string) => {
@@ -226,10 +488,10 @@ export default function Page(): ReactNode {
         document.body.removeChild(a);
     };
 
-    const handleCopySingle = async (url: string, index: number) => {
+    const handleCopySingle = async (image: ProcessedImage, index: number) => {
         try {
-            const response = await fetch(url);
-            const blob = await response.blob();
+            // The async clipboard only reliably accepts PNG, so other formats are converted first
+            const blob = image.blob.type === "image/png" ? image.blob : await reencodeImage(image.blob, "image/png");
             await navigator.clipboard.write([
                 new ClipboardItem({ [blob.type]: blob })
             ]);
@@ -241,11 +503,37 @@ export default function Page(): ReactNode {
         }
     };
 
+    // Camera snapshots go straight into the results, named like any other output
+    const handleSnapshot = (original: File, blob: Blob) => {
+        const name = formatOutputName(exportSettings.nameTemplate, {
+            relativePath: original.name,
+            index: processedImages.length,
+            total: processedImages.length + 1,
+            palette: isReversed ? `${paletteName} reversed` : paletteName,
+            date: new Date(),
+            mimeType: blob.type,
+        });
+        const image: ProcessedImage = {
+            url: URL.createObjectURL(blob),
+            blob,
+            name,
+            originalName: original.name,
+            originalFile: original,
+            separations: [],
+        };
+        setProcessedImages(prev => [...prev, image]);
+    };
+
     const handleReset = () => {
         setFiles([]);
+        setFocalPoints(new Map());
+        setMasks(new Map());
+        setJobs(new Map());
+        setFileInfo(new Map());
         setProcessedImages([]);
         setProcessingProgress(0);
         setIsReversed(false); // Also reset the color direction
+        persist(clearSession);
     };
 
     return (
@@ -268,10 +556,13 @@ export default function Page(): ReactNode {
                 {/* Main Card */}
                 <div className="bg-[#1e5034]/50 backdrop-blur-lg rounded-2xl border border-[#a4d7ba]/40 shadow-2xl overflow-hidden">
                     <div className="p-6 md:p-8">
-                        {/* Upload Area (Unchanged) */}
+                        {/* Upload Area */}
                         <div
-                            className="w-full border-2 border-dashed border-[#a4d7ba]/50 hover:border-[#27e47a] p-8 rounded-xl min-h-[15rem] transition-all duration-300 bg-[#a4d7ba]/10 hover:bg-[#a4d7ba]/20 mb-6 cursor-pointer"
+                            className={`w-full border-2 border-dashed p-8 rounded-xl min-h-[15rem] transition-all duration-300 mb-6 cursor-pointer ${isDragging ? 'border-[#27e47a] bg-[#27e47a]/20 scale-[1.01]' : 'border-[#a4d7ba]/50 hover:border-[#27e47a] bg-[#a4d7ba]/10 hover:bg-[#a4d7ba]/20'}`}
                             onClick={openFile}
+                            onDragOver={handleDragOver}
+                            onDragLeave={handleDragLeave}
+                            onDrop={handleDrop}
                         >
                             <input
                                 type="file"
@@ -287,12 +578,26 @@ export default function Page(): ReactNode {
                                         <Upload size={24} className="text-[#010c05]" />
                                     </div>
                                     <h3 className="text-xl font-semibold mb-2">Upload Multiple Images</h3>
-                                    <p className="text-[#a4d7ba] mb-4">Drag & drop, click to browse, or paste an image</p>
-                                    <div className="inline-flex items-center gap-2 bg-[#a4d7ba]/20 hover:bg-[#a4d7ba]/30 px-4 py-2 rounded-lg transition-colors">
-                                        <Camera size={16} />
-                                        <span>Choose Files</span>
+                                    <p className="text-[#a4d7ba] mb-4">{isDragging ? "Drop images or folders to add them" : "Drag & drop files or folders, click to browse, or paste an image"}</p>
+                                    <div className="flex flex-wrap items-center justify-center gap-2">
+                                        <div className="inline-flex items-center gap-2 bg-[#a4d7ba]/20 hover:bg-[#a4d7ba]/30 px-4 py-2 rounded-lg transition-colors">
+                                            <ImagePlus size={16} />
+                                            <span>Choose Files</span>
+                                        </div>
+                                        {!isCameraOpen && (
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    setIsCameraOpen(true);
+                                                }}
+                                                className="inline-flex items-center gap-2 bg-[#a4d7ba]/20 hover:bg-[#a4d7ba]/30 px-4 py-2 rounded-lg transition-colors"
+                                            >
+                                                <Camera size={16} />
+                                                <span>Use Camera</span>
+                                            </button>
+                                        )}
                                     </div>
-                                    <p className="text-xs text-[#a4d7ba]/80 mt-3">Supports JPG, PNG, WEBP</p>
+                                    <p className="text-xs text-[#a4d7ba]/80 mt-3">Supports JPG, PNG, WEBP and animated GIF</p>
                                 </div>
                             ) : (
                                 <div className="w-full">
@@ -300,65 +605,260 @@ export default function Page(): ReactNode {
                                         <h3 className="text-xl font-medium">
                                             {files.length} Image{files.length !== 1 ? 's' : ''} Ready to Process
                                         </h3>
-                                        <p className="text-[#a4d7ba] text-sm">You can remove images or add more.</p>
+                                        <p className="text-[#a4d7ba] text-sm">{isDragging ? "Drop to add more images." : "You can remove images or add more."}</p>
+                                        {!isCameraOpen && (
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    setIsCameraOpen(true);
+                                                }}
+                                                className="inline-flex items-center gap-1.5 mt-2 text-xs bg-[#a4d7ba]/20 hover:bg-[#a4d7ba]/30 px-3 py-1.5 rounded-lg transition-colors"
+                                            >
+                                                <Camera size={14} />
+                                                Use Camera
+                                            </button>
+                                        )}
                                     </div>
                                     <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-8 gap-3 max-h-64 overflow-y-auto p-2 bg-black/20 rounded-lg">
-                                        {filePreviews.map((file, index) => (
-                                            <div key={index} className="relative group aspect-square bg-[#010c05]/50 rounded-lg overflow-hidden">
-                                                <img
-                                                    src={file.url}
-                                                    alt={file.name}
-                                                    className="w-full h-full object-cover"
-                                                />
-                                                <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
-                                                    <button
-                                                        onClick={(e) => {
-                                                            e.stopPropagation();
-                                                            setSelectedImage(file.url);
-                                                        }}
-                                                        className="bg-sky-500/80 hover:bg-sky-500 text-white rounded-full w-8 h-8 flex items-center justify-center transition-transform transform hover:scale-110"
-                                                        aria-label={`Preview ${file.name}`}
-                                                    >
-                                                        <ZoomIn size={20} />
-                                                    </button>
-                                                    <button
-                                                        onClick={(e) => {
-                                                            e.stopPropagation();
-                                                            handleRemoveFile(index);
-                                                        }}
-                                                        className="bg-red-500/80 hover:bg-red-500 text-white rounded-full w-8 h-8 flex items-center justify-center transition-transform transform hover:scale-110"
-                                                        aria-label={`Remove ${file.name}`}
-                                                    >
-                                                        <XCircle size={20} />
-                                                    </button>
-                                                </div>
-                                                <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-1">
-                                                    <p className="text-white text-xs truncate px-1">{file.name}</p>
+                                        {filePreviews.map((file, index) => {
+                                            const animation = fileInfo.get(files[index].file)?.animation;
+                                            const sizeCheck = sizeChecks[index];
+                                            const isMasked = masks.has(files[index].file);
+                                            const info = fileInfo.get(files[index].file);
+                                            const unsupported = info ? describeUnsupported(info.format) : null;
+                                            const job: JobStatus | null = jobs.get(files[index].file) ?? (unsupported ? { state: "failed", error: unsupported } : null);
+                                            return (
+                                                <div key={index} className="relative group aspect-square bg-[#010c05]/50 rounded-lg overflow-hidden">
+                                                    <img
+                                                        src={file.url}
+                                                        alt={file.name}
+                                                        className="w-full h-full object-cover"
+                                                    />
+                                                    {animation && animation.frameCount > 1 && (
+                                                        <div
+                                                            className="absolute top-1 left-1 flex items-center gap-1 bg-black/70 text-white text-[10px] rounded px-1.5 py-0.5"
+                                                            title={`${animation.width}×${animation.height}, ${(animation.duration / 1000).toFixed(1)}s per loop; about ${formatFileSize(estimateDecodedSize(animation))} of memory while filtering`}
+                                                        >
+                                                            <Film size={10} />
+                                                            {animation.frameCount} frames · ~{formatFileSize(estimateDecodedSize(animation))}
+                                                        </div>
+                                                    )}
+                                                    <div className="absolute top-1 right-1 flex flex-col items-end gap-1">
+                                                        {sizeCheck?.exceeds && (
+                                                            <div
+                                                                className="flex items-center gap-1 bg-amber-500/90 text-[#010c05] text-[10px] font-semibold rounded px-1.5 py-0.5"
+                                                                title={imageLimits.oversize !== "downscale"
+                                                                    ? "Over the size limits; processing it at full size may run out of memory"
+                                                                    : animation && exportSettings.animation !== "static"
+                                                                        ? "Over the size limits; animations cannot be downscaled, so it will be skipped unless only the first frame is exported"
+                                                                        : `Over the size limits; will be downscaled to ${sizeCheck.target.width}×${sizeCheck.target.height}`}
+                                                            >
+                                                                <AlertTriangle size={10} />
+                                                                {sizeCheck.megapixels.toFixed(0)} MP
+                                                            </div>
+                                                        )}
+                                                        {job?.state === "queued" && (
+                                                            <div className="bg-black/70 text-white text-[10px] rounded px-1.5 py-0.5">Queued</div>
+                                                        )}
+                                                        {job?.state === "processing" && (
+                                                            <div className="flex items-center gap-1 bg-black/70 text-white text-[10px] rounded px-1.5 py-0.5">
+                                                                <div className="animate-spin rounded-full h-2.5 w-2.5 border-b border-white"></div>
+                                                                Processing
+                                                            </div>
+                                                        )}
+                                                        {job?.state === "done" && (
+                                                            <div className="bg-[#27e47a] text-[#010c05] rounded-full p-0.5" title="Done">
+                                                                <Check size={10} />
+                                                            </div>
+                                                        )}
+                                                        {job?.state === "failed" && (
+                                                            <div className="flex items-center gap-1 bg-red-500/90 text-white text-[10px] font-semibold rounded px-1.5 py-0.5" title={job.error}>
+                                                                <AlertTriangle size={10} />
+                                                                {unsupported ? info?.format?.name ?? "Unknown" : "Failed"}
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                    {isMasked && (
+                                                        <div
+                                                            className="absolute bottom-1 left-1 flex items-center gap-1 bg-[#f99fd2]/90 text-[#010c05] text-[10px] font-semibold rounded px-1.5 py-0.5"
+                                                            title="Masked areas keep their original colors"
+                                                        >
+                                                            <Paintbrush size={10} />
+                                                            Masked
+                                                        </div>
+                                                    )}
+                                                    <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                                                        <button
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                setPreview({ source: "files", index });
+                                                            }}
+                                                            className="bg-sky-500/80 hover:bg-sky-500 text-white rounded-full w-8 h-8 flex items-center justify-center transition-transform transform hover:scale-110"
+                                                            aria-label={`Preview ${file.name}`}
+                                                        >
+                                                            <ZoomIn size={20} />
+                                                        </button>
+                                                        {job?.state === "failed" && !isProcessing && (
+                                                            <button
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    runBatch([index], true);
+                                                                }}
+                                                                className="bg-amber-500/80 hover:bg-amber-500 text-white rounded-full w-8 h-8 flex items-center justify-center transition-transform transform hover:scale-110"
+                                                                aria-label={`Retry ${file.name}`}
+                                                            >
+                                                                <RefreshCw size={18} />
+                                                            </button>
+                                                        )}
+                                                        <button
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                handleRemoveFile(index);
+                                                            }}
+                                                            className="bg-red-500/80 hover:bg-red-500 text-white rounded-full w-8 h-8 flex items-center justify-center transition-transform transform hover:scale-110"
+                                                            aria-label={`Remove ${file.name}`}
+                                                        >
+                                                            <XCircle size={20} />
+                                                        </button>
+                                                    </div>
+                                                    <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-1">
+                                                        <p className="text-white text-xs truncate px-1">{file.name}</p>
+                                                    </div>
                                                 </div>
-                                            </div>
-                                        ))}
+                                            );
+                                        })}
                                     </div>
                                 </div>
                             )}
                         </div>
 
-                        {/* --- NEW --- Filter Options */}
+                        {/* Live Camera */}
+                        {isCameraOpen && (
+                            <CameraPanel
+                                stops={effectiveStops}
+                                tone={toneSettings}
+                                dither={ditherSettings}
+                                blend={blendSettings}
+                                cube={cubeLut}
+                                outputType={resolveOutputType(exportSettings.format, "image/png")}
+                                quality={exportSettings.quality}
+                                onSnapshot={handleSnapshot}
+                                onClose={() => setIsCameraOpen(false)}
+                            />
+                        )}
+
+                        {/* Palette Options */}
+                        {(files.length > 0 || isCameraOpen) && !isProcessing && (
+                            <PalettePanel
+                                stops={stops}
+                                isReversed={isReversed}
+                                onChange={(newStops, name) => {
+                                    setStops(newStops);
+                                    setPaletteName(name ?? "custom");
+                                }}
+                                onToggleReverse={() => setIsReversed(prev => !prev)}
+                                interpolation={interpolation}
+                                onInterpolationChange={setInterpolation}
+                            />
+                        )}
+
+                        {/* Tone Options */}
+                        {(files.length > 0 || isCameraOpen) && !isProcessing && (
+                            <TonePanel
+                                settings={toneSettings}
+                                onChange={setToneSettings}
+                                files={files}
+                                stops={effectiveStops}
+                                dither={ditherSettings}
+                                blend={blendSettings}
+                                cube={cubeLut}
+                            />
+                        )}
+
+                        {/* Render Mode Options */}
+                        {(files.length > 0 || isCameraOpen) && !isProcessing && (
+                            <DitherPanel settings={ditherSettings} onChange={setDitherSettings} stops={effectiveStops} />
+                        )}
+
+                        {/* Blend Options */}
+                        {(files.length > 0 || isCameraOpen) && !isProcessing && (
+                            <BlendPanel settings={blendSettings} onChange={setBlendSettings} />
+                        )}
+
+                        {/* LUT Import and Export */}
+                        {(files.length > 0 || isCameraOpen) && !isProcessing && (
+                            <LutPanel
+                                stops={effectiveStops}
+                                paletteName={isReversed ? `${paletteName} reversed` : paletteName}
+                                luminance={toneSettings.luminance}
+                                linearLuminance={toneSettings.linearLuminance}
+                                cube={cubeLut}
+                                onCubeChange={setCubeLut}
+                            />
+                        )}
+
+                        {/* Web Filter Export */}
+                        {(files.length > 0 || isCameraOpen) && !isProcessing && (
+                            <WebFilterPanel
+                                files={files}
+                                stops={effectiveStops}
+                                paletteName={isReversed ? `${paletteName} reversed` : paletteName}
+                                luminance={toneSettings.luminance}
+                                linearLuminance={toneSettings.linearLuminance}
+                            />
+                        )}
+
+                        {/* Resize Options */}
                         {files.length > 0 && !isProcessing && (
-                            <div className="flex justify-end mb-4">
-                                <button
-                                    onClick={() => setIsReversed(prev => !prev)}
-                                    title="Reverse shadow and highlight colors"
-                                    className="flex items-center gap-2 text-sm px-4 py-2 rounded-lg bg-[#1e5034] hover:bg-[#2a6f47] transition-colors"
-                                >
-                                    <ArrowRightLeft size={16} />
-                                    <span>{isReversed ? "Shadow: Pink, Highlight: Green" : "Shadow: Green, Highlight: Pink"}</span>
-                                </button>
-                            </div>
+                            <ResizePanel
+                                settings={resizeSettings}
+                                onChange={setResizeSettings}
+                                files={files}
+                                focalPoints={focalPoints}
+                                onFocalPointChange={(file, focus) => setFocalPoints(prev => new Map(prev).set(file, focus))}
+                            />
+                        )}
+
+                        {/* Export Options */}
+                        {files.length > 0 && !isProcessing && (
+                            <ExportPanel
+                                settings={exportSettings}
+                                onChange={setExportSettings}
+                                sample={{
+                                    relativePath: files[0].relativePath,
+                                    type: files[0].file.type,
+                                    total: files.length,
+                                    palette: isReversed ? `${paletteName} reversed` : paletteName,
+                                    preset: resizeTag(resizeSettings),
+                                }}
+                            />
+                        )}
+
+                        {/* Size Limits */}
+                        {files.length > 0 && !isProcessing && (
+                            <LimitsPanel
+                                limits={imageLimits}
+                                onChange={setImageLimits}
+                                oversizedCount={sizeChecks.filter(check => check?.exceeds).length}
+                            />
+                        )}
+
+                        {/* Stored Session */}
+                        {isSessionLoaded && (files.length > 0 || processedImages.length > 0) && !isProcessing && (
+                            <SessionPanel usage={storageUsage} error={sessionError} onClear={handleClearSession} />
                         )}
 
                         {/* Action Buttons */}
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
-                            {files.length > 0 && (
+                            {files.length > 0 && (isProcessing ? (
+                                <button
+                                    className="flex items-center justify-center gap-2 bg-red-500/70 hover:bg-red-500 p-4 rounded-xl font-medium transition-colors"
+                                    onClick={handleCancel}
+                                >
+                                    <Square size={20} />
+                                    Cancel
+                                </button>
+                            ) : (
                                 <button
                                     className="flex items-center justify-center gap-2 bg-[#1e5034] hover:bg-[#2a6f47] p-4 rounded-xl font-medium transition-colors"
                                     onClick={handleReset}
@@ -366,7 +866,7 @@ export default function Page(): ReactNode {
                                     <RefreshCw size={20} />
                                     Clear All
                                 </button>
-                            )}
+                            ))}
                             <button
                                 className={`flex items-center justify-center gap-2 bg-[#27e47a] hover:bg-[#22c56e] text-[#010c05] p-4 rounded-xl font-bold transition-all duration-300 ${files.length === 0 ? 'md:col-span-2' : ''} disabled:opacity-50 disabled:cursor-not-allowed`}
                                 onClick={handleConvert}
@@ -387,9 +887,9 @@ export default function Page(): ReactNode {
                         </div>
                         
                         {/* --- Results Section (Unchanged) --- */}
-                        {(isProcessing || processedImages.length > 0) && (
+                        {(isProcessing || processedImages.length > 0 || failedIndices.length > 0) && (
                             <div className="border-2 border-[#a4d7ba]/40 rounded-xl p-6 bg-[#1e5034]/50">
-                                {isProcessing && !processedImages.length && (
+                                {isProcessing && (
                                         <div className="mb-4">
                                         <div className="flex justify-between text-sm text-[#a4d7ba] mb-1">
                                             <span>Processing Images</span>
@@ -403,23 +903,89 @@ export default function Page(): ReactNode {
                                         </div>
                                     </div>
                                 )}
+                                {failedIndices.length > 0 && (
+                                    <div className="mb-4 rounded-lg border border-red-400/40 bg-red-500/10 p-3 text-sm">
+                                        <div className="flex items-center justify-between gap-4 mb-2">
+                                            <div className="flex items-center gap-2 text-red-300">
+                                                <AlertTriangle size={16} />
+                                                <span className="font-semibold">{failedIndices.length} image{failedIndices.length !== 1 ? 's' : ''} failed</span>
+                                            </div>
+                                            {!isProcessing && (
+                                                <button
+                                                    onClick={handleRetryFailed}
+                                                    className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+                                                >
+                                                    <RefreshCw size={14} />
+                                                    Retry Failed
+                                                </button>
+                                            )}
+                                        </div>
+                                        <ul className="space-y-1 max-h-40 overflow-y-auto">
+                                            {failedIndices.map(index => (
+                                                <li key={index} className="flex items-center justify-between gap-2">
+                                                    <span className="truncate">
+                                                        {files[index].relativePath}
+                                                        <span className="text-red-200/80"> — {jobs.get(files[index].file)?.error}</span>
+                                                    </span>
+                                                    {!isProcessing && (
+                                                        <button
+                                                            onClick={() => runBatch([index], true)}
+                                                            className="flex-shrink-0 text-xs px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 transition-colors"
+                                                            aria-label={`Retry ${files[index].relativePath}`}
+                                                        >
+                                                            Retry
+                                                        </button>
+                                                    )}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
                                 {processedImages.length > 0 && (
                                     <div>
                                         <div className="flex items-center justify-between gap-4 mb-4">
                                             <div className="flex items-center gap-2">
                                                 <CheckCircle className="text-[#27e47a]" size={20} />
-                                                <h3 className="text-lg font-semibold">Processed Results ({processedImages.length}/{files.length})</h3>
+                                                <h3 className="text-lg font-semibold">Processed Results ({isProcessing ? `${processedImages.length}/${files.length}` : processedImages.length})</h3>
                                             </div>
                                             {!isProcessing && (
-                                                <button
-                                                    className="flex items-center justify-center gap-2 bg-[#27e47a] hover:bg-[#22c56e] text-[#010c05] px-4 py-2 rounded-lg font-bold transition-all duration-300"
-                                                    onClick={handleDownloadAll}
-                                                >
-                                                    <Download size={16} />
-                                                    Download All
-                                                </button>
+                                                <div className="flex items-center gap-2">
+                                                    <button
+                                                        className={`flex items-center justify-center gap-2 px-4 py-2 rounded-lg transition-colors ${isContactSheetOpen ? 'bg-[#2a6f47]' : 'bg-[#1e5034] hover:bg-[#2a6f47]'}`}
+                                                        onClick={() => setIsContactSheetOpen(prev => !prev)}
+                                                        aria-pressed={isContactSheetOpen}
+                                                    >
+                                                        <LayoutGrid size={16} />
+                                                        Make Contact Sheet
+                                                    </button>
+                                                    <button
+                                                        className="flex items-center justify-center gap-2 bg-[#27e47a] hover:bg-[#22c56e] text-[#010c05] px-4 py-2 rounded-lg font-bold transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                                                        onClick={handleDownloadZip}
+                                                        disabled={zipProgress !== null}
+                                                    >
+                                                        {zipProgress !== null ? (
+                                                            <>
+                                                                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-[#010c05]"></div>
+                                                                Zipping... {zipProgress}%
+                                                            </>
+                                                        ) : (
+                                                            <>
+                                                                <FileArchive size={16} />
+                                                                Download ZIP
+                                                            </>
+                                                        )}
+                                                    </button>
+                                                </div>
                                             )}
                                         </div>
+                                        {isContactSheetOpen && !isProcessing && (
+                                            <ContactSheetPanel
+                                                items={contactSheetItems}
+                                                stops={effectiveStops}
+                                                limits={imageLimits}
+                                                onDownload={handleDownloadSingle}
+                                            />
+                                        )}
                                         <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-8 gap-4">
                                             {processedImages.map((image, index) => (
                                                 <div key={index} className="bg-black/20 rounded-lg overflow-hidden group relative">
@@ -432,9 +998,14 @@ export default function Page(): ReactNode {
                                                     </div>
                                                     <div className="absolute inset-0 bg-black/80 p-2 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-between">
                                                         <div className="flex justify-between items-start">
-                                                            <p className="text-[#ececec] text-xs truncate w-full pr-2">{image.originalName}</p>
+                                                            <p className="text-[#ececec] text-xs truncate w-full pr-2">
+                                                                {image.originalName}
+                                                                {image.separations.length > 0 && (
+                                                                    <span className="block text-[#a4d7ba]">+{image.separations.length} ink separations</span>
+                                                                )}
+                                                            </p>
                                                             <button
-                                                                onClick={() => setSelectedImage(image.url)}
+                                                                onClick={() => setPreview({ source: "results", index })}
                                                                 className="flex-shrink-0 bg-white/10 hover:bg-white/20 text-white rounded-full w-6 h-6 flex items-center justify-center transition-colors"
                                                                 aria-label={`Preview ${image.originalName}`}
                                                             >
@@ -451,7 +1022,7 @@ export default function Page(): ReactNode {
                                                             </button>
                                                                 <button
                                                                 className={`w-full flex items-center justify-center gap-1.5 text-xs py-2 rounded-md transition-colors ${copiedImageIndex === index ? 'bg-green-500 text-white' : 'bg-white/10 hover:bg-white/20'}`}
-                                                                onClick={() => handleCopySingle(image.url, index)}
+                                                                onClick={() => handleCopySingle(image, index)}
                                                             >
                                                                 {copiedImageIndex === index ? <Check size={14} /> : <ClipboardCopy size={14} />}
                                                                 <span>{copiedImageIndex === index ? 'Copied!' : 'Copy'}</span>
@@ -496,7 +1067,13 @@ export default function Page(): ReactNode {
                 </div>
             </div>
 
-            <ImagePreviewModal imageUrl={selectedImage} onClose={() => setSelectedImage(null)} />
+            <ImagePreviewModal
+                items={previewItems}
+                index={preview?.index ?? null}
+                onIndexChange={(index) => setPreview(prev => prev && { ...prev, index })}
+                onClose={() => setPreview(null)}
+                onMaskChange={preview?.source === "files" ? handleMaskChange : undefined}
+            />
         </div>
     );
 }
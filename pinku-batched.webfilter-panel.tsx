@@ -0,0 +1,205 @@
+import { useEffect, useId, useMemo, useRef, useState } from "react";
+import { Check, Copy, Download } from "lucide-react";
+import { createWebFilter, formatCssSnippet, formatSvgFilter } from "./pinku-batched.webfilter";
+import { applyFilterOptions, loadImageData } from "./pinku-batched.process";
+import { DEFAULT_TONE_SETTINGS, LUMINANCE_WEIGHTS, type LuminanceFormula } from "./pinku-batched.tone";
+import { DEFAULT_DITHER_SETTINGS } from "./pinku-batched.dither";
+import { DEFAULT_BLEND_SETTINGS } from "./pinku-batched.blend";
+import { slugify } from "./pinku-batched.export";
+import type { ColorStop } from "./pinku-batched.palettes";
+import type { QueuedFile } from "./pinku-batched.drop";
+
+const PREVIEW_SIZE = 480;
+
+// --- Side-by-side preview: the browser's SVG filter on the original next to the canvas gradient map ---
+const ComparePreview = ({ file, stops, luminance, linearLuminance, markup, filterId }: {
+    file: File;
+    stops: ColorStop[];
+    luminance: LuminanceFormula;
+    linearLuminance: boolean;
+    markup: string;
+    filterId: string;
+}) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [source, setSource] = useState<ImageData | null>(null);
+    const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+    const [loadFailed, setLoadFailed] = useState<boolean>(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        setSource(null);
+        setLoadFailed(false);
+        const url = URL.createObjectURL(file);
+        setOriginalUrl(url);
+        loadImageData(file, PREVIEW_SIZE)
+            .then(imageData => { if (!cancelled) setSource(imageData); })
+            .catch(error => {
+                console.error("Failed to load the preview image:", error);
+                if (!cancelled) setLoadFailed(true);
+            });
+        return () => {
+            cancelled = true;
+            URL.revokeObjectURL(url);
+        };
+    }, [file]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (!canvas || !ctx || !source) return;
+        canvas.width = source.width;
+        canvas.height = source.height;
+        const copy = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height);
+        const options = { stops, tone: { ...DEFAULT_TONE_SETTINGS, luminance, linearLuminance }, dither: DEFAULT_DITHER_SETTINGS, blend: DEFAULT_BLEND_SETTINGS, cube: null };
+        ctx.putImageData(applyFilterOptions(copy, options).imageData, 0, 0);
+    }, [source, stops, luminance, linearLuminance]);
+
+    return (
+        <div className="grid grid-cols-2 gap-2">
+            {/* The markup is generated from numbers only, so it is safe to inline */}
+            <div className="w-0 h-0 overflow-hidden" dangerouslySetInnerHTML={{ __html: markup }} />
+            <figure className="space-y-1">
+                <div className="aspect-square bg-black/30 rounded-lg flex items-center justify-center overflow-hidden">
+                    {loadFailed ? (
+                        <span className="text-xs text-[#a4d7ba]/80">Preview unavailable</span>
+                    ) : originalUrl && (
+                        <img src={originalUrl} alt="" className="max-w-full max-h-full object-contain" style={{ filter: `url(#${filterId})` }} />
+                    )}
+                </div>
+                <figcaption className="text-xs text-center text-[#a4d7ba]">SVG filter</figcaption>
+            </figure>
+            <figure className="space-y-1">
+                <div className="aspect-square bg-black/30 rounded-lg flex items-center justify-center overflow-hidden">
+                    {source ? (
+                        <canvas ref={canvasRef} className="max-w-full max-h-full object-contain" />
+                    ) : loadFailed ? (
+                        <span className="text-xs text-[#a4d7ba]/80">Preview unavailable</span>
+                    ) : (
+                        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[#27e47a]"></div>
+                    )}
+                </div>
+                <figcaption className="text-xs text-center text-[#a4d7ba]">Canvas result</figcaption>
+            </figure>
+        </div>
+    );
+};
+
+export interface WebFilterPanelProps {
+    files: QueuedFile[];
+    /** Effective gradient stops (already reversed if needed), which is what gets exported. */
+    stops: ColorStop[];
+    paletteName: string;
+    /** The luminance formula of the current tone settings; the filter matrix is built with it. */
+    luminance: LuminanceFormula;
+    /** Whether luminance is computed in linear light. */
+    linearLuminance: boolean;
+}
+
+export default function WebFilterPanel({ files, stops, paletteName, luminance, linearLuminance }: WebFilterPanelProps) {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const [previewIndex, setPreviewIndex] = useState<number>(0);
+    const [copied, setCopied] = useState<"svg" | "css" | null>(null);
+    const previewId = `pinku-preview-${useId().replace(/[^a-zA-Z0-9_-]/g, "")}`;
+    const previewFile = files[Math.min(previewIndex, files.length - 1)];
+
+    const exportId = `pinku-${slugify(paletteName) || "custom"}`;
+    const filter = useMemo(() => createWebFilter(stops, LUMINANCE_WEIGHTS[luminance], exportId, linearLuminance), [stops, luminance, exportId, linearLuminance]);
+    const svg = useMemo(() => formatSvgFilter(filter), [filter]);
+    const css = useMemo(() => formatCssSnippet(filter), [filter]);
+    const previewMarkup = useMemo(() => formatSvgFilter({ ...filter, id: previewId }), [filter, previewId]);
+
+    const handleCopy = async (kind: "svg" | "css") => {
+        try {
+            await navigator.clipboard.writeText(kind === "svg" ? svg : css);
+            setCopied(kind);
+            setTimeout(() => setCopied(current => current === kind ? null : current), 1500);
+        } catch (error) {
+            console.error("Failed to copy to the clipboard:", error);
+        }
+    };
+
+    const handleDownload = () => {
+        const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = `${exportId}.svg`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    };
+
+    const copyButton = (kind: "svg" | "css") => (
+        <button
+            onClick={() => handleCopy(kind)}
+            className="flex items-center gap-1.5 text-xs px-2.5 py-1 rounded-lg bg-[#1e5034] hover:bg-[#2a6f47] transition-colors"
+        >
+            {copied === kind ? <Check size={14} /> : <Copy size={14} />}
+            {copied === kind ? "Copied" : `Copy ${kind.toUpperCase()}`}
+        </button>
+    );
+
+    return (
+        <div className="bg-black/20 rounded-xl p-4 mb-4 text-sm">
+            <label className="flex items-center gap-2">
+                <input
+                    type="checkbox"
+                    checked={isOpen}
+                    onChange={(e) => setIsOpen(e.target.checked)}
+                    className="accent-[#27e47a]"
+                />
+                <span>Export as web filter (SVG + CSS)</span>
+            </label>
+
+            {isOpen && (
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_20rem] gap-4 mt-3">
+                    <div className="flex flex-col gap-3 min-w-0">
+                        <div className="flex flex-col gap-1.5">
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-[#a4d7ba]">SVG filter</span>
+                                <div className="flex gap-2">
+                                    {copyButton("svg")}
+                                    <button
+                                        onClick={handleDownload}
+                                        className="flex items-center gap-1.5 text-xs px-2.5 py-1 rounded-lg bg-[#1e5034] hover:bg-[#2a6f47] transition-colors"
+                                    >
+                                        <Download size={14} />
+                                        .svg
+                                    </button>
+                                </div>
+                            </div>
+                            <pre className="bg-[#010c05]/50 rounded-md p-2 border border-[#a4d7ba]/30 text-xs overflow-auto max-h-40">{svg}</pre>
+                        </div>
+                        <div className="flex flex-col gap-1.5">
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-[#a4d7ba]">CSS</span>
+                                {copyButton("css")}
+                            </div>
+                            <pre className="bg-[#010c05]/50 rounded-md p-2 border border-[#a4d7ba]/30 text-xs overflow-auto">{css}</pre>
+                        </div>
+                        <p className="text-xs text-[#a4d7ba]/80">
+                            Paste the SVG once into the page body, then add the class to any image or video. The filter covers the palette,
+                            the reverse setting, the interpolation and the luminance settings; tone, render mode, blend, masks and imported LUTs are not included.
+                        </p>
+                    </div>
+
+                    {previewFile && (
+                        <div className="space-y-2">
+                            <ComparePreview file={previewFile.file} stops={stops} luminance={luminance} linearLuminance={linearLuminance} markup={previewMarkup} filterId={previewId} />
+                            <select
+                                value={Math.min(previewIndex, files.length - 1)}
+                                onChange={(e) => setPreviewIndex(Number(e.target.value))}
+                                className="w-full bg-[#010c05]/50 rounded-md px-2 py-1.5 text-xs border border-[#a4d7ba]/30"
+                                aria-label="Image used for the comparison"
+                            >
+                                {files.map((file, index) => (
+                                    <option key={index} value={index}>{file.relativePath}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
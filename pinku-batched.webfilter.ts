@@ -0,0 +1,83 @@
+// The gradient map as an SVG filter, so web pages can apply the look live instead of shipping filtered copies.
+// feColorMatrix reduces every pixel to its luminance, and feComponentTransfer tables map that luminance to the
+// palette. Table entries are evenly spaced, so the table is sized to put every stop on an entry, which makes it exact.
+// With linear-light luminance the filter runs in linearRGB instead, and the tables hold linear colors.
+
+import { sampleGradient } from "./pinku-batched.filter";
+import { linearToSrgb, srgbToLinear } from "./pinku-batched.colorspace";
+import type { ColorStop } from "./pinku-batched.palettes";
+
+export interface WebFilter {
+    id: string;
+    /** Whether the filter works on linear-light values (color-interpolation-filters="linearRGB"). */
+    linear: boolean;
+    /** The 4×5 feColorMatrix values that turn RGB into luminance. */
+    matrix: number[];
+    /** feFuncR, feFuncG and feFuncB tableValues, from 0 to 1. */
+    tables: [number[], number[], number[]];
+}
+
+const MAX_TABLE_SIZE = 256;
+
+// The smallest number of evenly spaced entries that has an entry at every stop position
+function tableSize(stops: ColorStop[]): number {
+    for (let size = 2; size <= MAX_TABLE_SIZE; size++) {
+        if (stops.every(({ position }) => Math.abs(position * (size - 1) - Math.round(position * (size - 1))) < 1e-6)) return size;
+    }
+    return MAX_TABLE_SIZE;
+}
+
+/**
+ * Builds the SVG filter for a gradient map.
+ * @param stops - The gradient stops, already reversed if needed.
+ * @param weights - The RGB luminance weights.
+ * @param id - The filter element id that CSS refers to.
+ * @param linear - Compute luminance in linear light, as the tone setting of the same name does.
+ * @returns The filter description.
+ */
+export function createWebFilter(stops: ColorStop[], weights: [number, number, number], id = "pinku-duotone", linear = false): WebFilter {
+    // Linear luminance is not evenly spaced in sRGB levels, so it always gets the full table
+    const size = linear ? MAX_TABLE_SIZE : tableSize(stops);
+    const samples = Array.from({ length: size }, (_, i) => linear
+        ? sampleGradient(stops, linearToSrgb(i / (size - 1)) / 255).map(srgbToLinear)
+        : sampleGradient(stops, i / (size - 1)).map(channel => channel / 255));
+    const row = [...weights, 0, 0];
+    return {
+        id,
+        linear,
+        matrix: [...row, ...row, ...row, 0, 0, 0, 1, 0],
+        tables: [0, 1, 2].map(channel => samples.map(color => color[channel])) as WebFilter["tables"],
+    };
+}
+
+const formatNumber = (value: number) => String(Number(value.toFixed(4)));
+
+/**
+ * Writes the filter as SVG markup to paste into a page.
+ * @param filter - The filter from createWebFilter.
+ * @returns A hidden, zero-size <svg> element holding the <filter>.
+ */
+export function formatSvgFilter(filter: WebFilter): string {
+    const [r, g, b] = filter.tables.map(table => table.map(formatNumber).join(" "));
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="0" height="0" style="position:absolute" aria-hidden="true">`,
+        `  <filter id="${filter.id}" color-interpolation-filters="${filter.linear ? "linearRGB" : "sRGB"}">`,
+        `    <feColorMatrix type="matrix" values="${filter.matrix.map(formatNumber).join(" ")}" />`,
+        `    <feComponentTransfer>`,
+        `      <feFuncR type="table" tableValues="${r}" />`,
+        `      <feFuncG type="table" tableValues="${g}" />`,
+        `      <feFuncB type="table" tableValues="${b}" />`,
+        `    </feComponentTransfer>`,
+        `  </filter>`,
+        `</svg>`,
+    ].join("\n");
+}
+
+/**
+ * Writes the CSS rule that applies the filter.
+ * @param filter - The filter from createWebFilter.
+ * @param selector - The elements to filter.
+ * @returns The CSS snippet.
+ */
+export const formatCssSnippet = (filter: WebFilter, selector = `.${filter.id}`) =>
+    `${selector} {\n  filter: url(#${filter.id});\n}\n`;
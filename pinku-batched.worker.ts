@@ -0,0 +1,24 @@
+import { processImage, type FilterOptions, type ProcessResult } from "./pinku-batched.process";
+
+export interface WorkerRequest {
+    id: number;
+    file: Blob;
+    options: FilterOptions;
+}
+
+export interface WorkerResponse {
+    id: number;
+    result?: ProcessResult;
+    error?: string;
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+    const { id, file, options } = event.data;
+    let response: WorkerResponse;
+    try {
+        response = { id, result: await processImage(file, options) };
+    } catch (error) {
+        response = { id, error: error instanceof Error ? error.message : String(error) };
+    }
+    self.postMessage(response);
+};
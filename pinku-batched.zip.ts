@@ -0,0 +1,121 @@
+// Minimal in-browser ZIP writer. Entries are stored uncompressed: the results are
+// already-compressed images, so deflating them again would cost time for almost no gain.
+
+export interface ZipEntry {
+    name: string;
+    data: Blob;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * Computes the CRC-32 checksum used by the ZIP format.
+ * @param bytes - The data to checksum.
+ * @returns The unsigned CRC-32 value.
+ */
+export function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Makes every name in a list unique by appending " (1)", " (2)", ... before the extension.
+ * @param names - The file names, possibly with duplicates.
+ * @returns The de-duplicated names, in the same order.
+ */
+export function dedupeNames(names: string[]): string[] {
+    const used = new Set<string>();
+    return names.map(name => {
+        let candidate = name;
+        const dot = name.lastIndexOf(".");
+        const base = dot > 0 ? name.slice(0, dot) : name;
+        const extension = dot > 0 ? name.slice(dot) : "";
+        for (let i = 1; used.has(candidate.toLowerCase()); i++) {
+            candidate = `${base} (${i})${extension}`;
+        }
+        used.add(candidate.toLowerCase());
+        return candidate;
+    });
+}
+
+function toDosDateTime(date: Date) {
+    const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+    const day = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+    return { time, day };
+}
+
+/**
+ * Packs files into a ZIP archive.
+ * @param entries - The files to add. Names should already be unique.
+ * @param onProgress - Optional callback receiving the percentage of entries written so far.
+ * @returns The archive as a Blob.
+ */
+export async function createZip(entries: ZipEntry[], onProgress?: (percent: number) => void): Promise<Blob> {
+    const encoder = new TextEncoder();
+    const { time, day } = toDosDateTime(new Date());
+    const parts: BlobPart[] = [];
+    const centralDirectory: ArrayBuffer[] = [];
+    let offset = 0;
+
+    for (let i = 0; i < entries.length; i++) {
+        const name = encoder.encode(entries[i].name);
+        const data = new Uint8Array(await entries[i].data.arrayBuffer());
+        const crc = crc32(data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, 0x0800, true); // UTF-8 file names
+        local.setUint16(8, 0, true); // stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, day, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+        parts.push(local.buffer, name, data);
+
+        const central = new DataView(new ArrayBuffer(46 + name.length));
+        central.setUint32(0, 0x02014b50, true);
+        central.setUint16(4, 20, true);
+        central.setUint16(6, 20, true);
+        central.setUint16(8, 0x0800, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, day, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+        new Uint8Array(central.buffer).set(name, 46);
+        centralDirectory.push(central.buffer);
+
+        offset += 30 + name.length + data.length;
+        onProgress?.(Math.round(((i + 1) / entries.length) * 100));
+    }
+
+    const centralSize = centralDirectory.reduce((size, record) => size + record.byteLength, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralDirectory, end.buffer], { type: "application/zip" });
+}